@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+  transform: {
+    "^.+\\.tsx?$": ["ts-jest", { tsconfig: { module: "commonjs", target: "ES2020", strict: true, isolatedModules: true, esModuleInterop: true } }],
+  },
+};
+
+export default config;
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    // Lets the client skip mock balances when self-hosting with the Multicall3 backend
+    BALANCE_BACKEND: process.env.BALANCE_BACKEND || '',
+  },
 };
 
 export default nextConfig;
@@ -2,16 +2,19 @@
 
 import { useAccount } from 'wagmi';
 import { ConnectButton } from '@/components/wallet/ConnectButton';
+import { CurrencySelector } from '@/components/currency/CurrencySelector';
 import { PortfolioComposition } from '@/components/charts/PortfolioComposition';
 import { PortfolioPerformance } from '@/components/charts/PortfolioPerformance';
 import { DeFiYieldChart } from '@/components/charts/DeFiYieldChart';
 import { useTokenBalances } from '@/hooks/useTokenBalances';
 import { useDeFiPositions } from '@/hooks/useDeFiPositions';
+import { usePortfolioHistory } from '@/hooks/usePortfolioHistory';
 
 export default function AnalyticsPage() {
   const { address, isConnected } = useAccount();
   const { balances, isLoading: tokensLoading } = useTokenBalances();
   const { positions, isLoading: defiLoading } = useDeFiPositions();
+  const { history, isLoading: historyLoading } = usePortfolioHistory(balances, '30d');
 
   if (!isConnected) {
     return (
@@ -89,6 +92,7 @@ export default function AnalyticsPage() {
                 Analytics
               </a>
             </nav>
+            <CurrencySelector />
             <ConnectButton />
           </div>
         </div>
@@ -108,8 +112,8 @@ export default function AnalyticsPage() {
           {/* Top Row - Performance Chart (Full Width) */}
           <div className="w-full">
             <PortfolioPerformance
-              data={[]} // Will use mock data for now
-              isLoading={tokensLoading}
+              data={history}
+              isLoading={tokensLoading || historyLoading}
               timeframe="30d"
             />
           </div>
@@ -1,20 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { Alchemy, Network } from 'alchemy-sdk'
-
-// Initialize Alchemy
-const settings = {
-  apiKey: process.env.ALCHEMY_API_KEY,
-  network: Network.ETH_MAINNET,
-}
-
-const alchemy = new Alchemy(settings)
+import { balanceService, BALANCE_CHAIN_IDS, DEFAULT_PAGE_SIZE, parseCursor } from '@/lib/balances/service'
 
 export async function GET(
   request: NextRequest,
-  { params }: { params: { address: string } }
+  { params }: { params: Promise<{ address: string }> }
 ) {
   try {
-    const { address } = params
+    const { address } = await params
+    const { searchParams } = request.nextUrl
+    const chainParam = searchParams.get('chainId') || '1'
+    const cursor = searchParams.get('cursor')
+    const limit = Number(searchParams.get('limit') || DEFAULT_PAGE_SIZE)
     
     // Validate address format
     if (!address || !address.match(/^0x[a-fA-F0-9]{40}$/)) {
@@ -24,52 +20,48 @@ export async function GET(
       )
     }
 
-    // Get native ETH balance
-    const ethBalance = await alchemy.core.getBalance(address, 'latest')
-    
-    // Get ERC-20 token balances
-    const tokenBalances = await alchemy.core.getTokenBalances(address)
-    
-    // Filter out zero balances and get token metadata
-    const nonZeroBalances = tokenBalances.tokenBalances.filter(
-      (token) => token.tokenBalance !== '0x0' && parseInt(token.tokenBalance || '0', 16) > 0
-    )
+    // chainId=all aggregates every supported chain, tagging each balance with its chain
+    const chainIds = chainParam === 'all' ? BALANCE_CHAIN_IDS : [Number(chainParam)]
+    if (chainIds.some(chainId => !Number.isInteger(chainId) || !balanceService.supportsChain(chainId))) {
+      return NextResponse.json(
+        { error: `Unsupported chainId. Use one of ${BALANCE_CHAIN_IDS.join(', ')} or "all"` },
+        { status: 400 }
+      )
+    }
 
-    const balancesWithMetadata = await Promise.all(
-      nonZeroBalances.slice(0, 20).map(async (token) => {
-        try {
-          const metadata = await alchemy.core.getTokenMetadata(token.contractAddress)
-          return {
-            address: token.contractAddress,
-            balance: token.tokenBalance,
-            symbol: metadata.symbol || 'UNKNOWN',
-            name: metadata.name || 'Unknown Token',
-            decimals: metadata.decimals || 18,
-            logo: metadata.logo
-          }
-        } catch (error) {
-          console.error(`Error fetching metadata for ${token.contractAddress}:`, error)
-          return null
-        }
-      })
-    )
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: 'limit must be a positive integer' },
+        { status: 400 }
+      )
+    }
 
-    // Add ETH balance to the results
-    const results = [
-      {
-        address: '0x0000000000000000000000000000000000000000',
-        balance: ethBalance.toString(),
-        symbol: 'ETH',
-        name: 'Ethereum',
-        decimals: 18,
-        logo: null
-      },
-      ...balancesWithMetadata.filter(Boolean)
-    ]
+    try {
+      parseCursor(cursor)
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid cursor' },
+        { status: 400 }
+      )
+    }
+
+    const page = await balanceService.getBalancePage(chainIds, address, { cursor, limit })
+
+    // A single chain that failed outright is an error rather than an empty wallet
+    if (chainParam !== 'all' && page.errors.length > 0) {
+      throw new Error(page.errors[0].error)
+    }
 
     return NextResponse.json({
       address,
-      balances: results,
+      chainId: chainParam === 'all' ? 'all' : chainIds[0],
+      chainIds,
+      balances: page.balances,
+      cursor: page.cursor,
+      total: page.total,
+      totalsByChain: page.totalsByChain,
+      backend: balanceService.getBackendId(),
+      ...(page.errors.length > 0 && { errors: page.errors }),
       timestamp: new Date().toISOString()
     })
 
@@ -80,4 +72,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { defiAggregator } from '@/lib/defi/aggregator';
-import { isValidAddress } from '@/lib/utils';
+import { usesMockDeFiData } from '@/lib/defi/mode';
+import { fxService, convertDeFiPosition, convertLendingAccount } from '@/lib/prices/fx';
+import { isValidAddress, isReportingCurrency } from '@/lib/utils';
 
 export async function GET(
   request: NextRequest,
@@ -8,6 +10,7 @@ export async function GET(
 ) {
   try {
     const { address } = await params;
+    const currency = request.nextUrl.searchParams.get('currency') || 'USD';
 
     if (!address) {
       return NextResponse.json(
@@ -24,15 +27,30 @@ export async function GET(
       );
     }
 
+    if (!isReportingCurrency(currency)) {
+      return NextResponse.json(
+        { error: 'Unsupported currency' },
+        { status: 400 }
+      );
+    }
+
     // For development, return mock data. In production, use real API calls
-    const useMockData = process.env.NODE_ENV === 'development' || !process.env.ALCHEMY_API_KEY;
+    const useMockData = usesMockDeFiData();
 
-    let positions;
+    let portfolio;
     if (useMockData) {
       console.log('Using mock DeFi data for development');
-      positions = await defiAggregator.getMockPositions(address);
+      portfolio = await defiAggregator.getMockPortfolio(address);
     } else {
-      positions = await defiAggregator.getAllPositions(address);
+      portfolio = await defiAggregator.getPortfolio(address);
+    }
+    let { positions, lendingAccounts } = portfolio;
+
+    // Positions are valued in USD; convert into the requested reporting currency
+    if (currency !== 'USD') {
+      const fxRate = await fxService.getRate(currency);
+      positions = positions.map(position => convertDeFiPosition(position, fxRate));
+      lendingAccounts = lendingAccounts.map(account => convertLendingAccount(account, fxRate));
     }
 
     // Calculate summary statistics
@@ -58,6 +76,7 @@ export async function GET(
 
     return NextResponse.json({
       address,
+      currency,
       summary: {
         totalValue,
         totalClaimable,
@@ -66,6 +85,7 @@ export async function GET(
         protocolCount: Object.keys(protocolBreakdown).length,
       },
       positions,
+      lendingAccounts,
       protocolBreakdown,
       timestamp: new Date().toISOString(),
       ...(useMockData && { note: 'Using mock data for development' })
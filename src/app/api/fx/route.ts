@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { fxService } from '@/lib/prices/fx'
+
+export async function GET() {
+  try {
+    return NextResponse.json(await fxService.getRates())
+  } catch (error) {
+    console.error('Error fetching FX rates:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch FX rates' },
+      { status: 500 }
+    )
+  }
+}
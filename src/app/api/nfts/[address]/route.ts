@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { nftService, NFT_CHAIN_IDS } from '@/lib/nfts/service'
+import { fxService, convertNftHolding } from '@/lib/prices/fx'
+import { isValidAddress, isReportingCurrency } from '@/lib/utils'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  try {
+    const { address } = await params
+    const { searchParams } = request.nextUrl
+    const chainParam = searchParams.get('chainId') || 'all'
+    const currency = searchParams.get('currency') || 'USD'
+
+    if (!address || !isValidAddress(address)) {
+      return NextResponse.json(
+        { error: 'Invalid Ethereum address' },
+        { status: 400 }
+      )
+    }
+
+    const chainIds = chainParam === 'all' ? NFT_CHAIN_IDS : [Number(chainParam)]
+    if (chainIds.some(chainId => !Number.isInteger(chainId) || !nftService.supportsChain(chainId))) {
+      return NextResponse.json(
+        { error: `Unsupported chainId. Use one of ${NFT_CHAIN_IDS.join(', ')} or "all"` },
+        { status: 400 }
+      )
+    }
+
+    if (!isReportingCurrency(currency)) {
+      return NextResponse.json(
+        { error: 'Unsupported currency' },
+        { status: 400 }
+      )
+    }
+
+    // NFT enumeration needs an indexer; there is no on-chain fallback like for balances
+    if (!nftService.isConfigured()) {
+      return NextResponse.json({
+        address,
+        currency,
+        holdings: [],
+        totalValue: 0,
+        note: 'Set ALCHEMY_API_KEY to load NFT holdings',
+        timestamp: new Date().toISOString()
+      })
+    }
+
+    const portfolio = await nftService.getPortfolio(chainIds, address)
+
+    // Floors are valued in USD; convert into the requested reporting currency
+    const fxRate = currency === 'USD' ? 1 : await fxService.getRate(currency)
+    const holdings = portfolio.holdings.map(holding => convertNftHolding(holding, fxRate))
+
+    return NextResponse.json({
+      address,
+      chainIds,
+      currency,
+      holdings,
+      totalValue: portfolio.totalValue * fxRate,
+      floorSource: portfolio.floorSource,
+      ...(portfolio.errors.length > 0 && { errors: portfolio.errors }),
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Error fetching NFTs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch NFT holdings' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { tokenRegistry } from '@/lib/tokens/registry'
+import { priceHistoryService, INTERVAL_MS } from '@/lib/prices/history'
+import { fxService } from '@/lib/prices/fx'
+import { isReportingCurrency } from '@/lib/utils'
+import { CandleInterval } from '@/types'
+
+const INTERVALS: CandleInterval[] = ['1h', '1d']
+
+// Default and maximum span per interval, in candles
+const DEFAULT_CANDLES: Record<CandleInterval, number> = { '1h': 24 * 7, '1d': 30 }
+const MAX_CANDLES: Record<CandleInterval, number> = { '1h': 24 * 90, '1d': 365 * 5 }
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const interval = (searchParams.get('interval') || '1d') as CandleInterval
+    const chainId = Number(searchParams.get('chainId') || 1)
+    const address = searchParams.get('address')
+    const currency = searchParams.get('currency') || 'USD'
+    let coinId = searchParams.get('coinId')
+
+    if (!INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { error: `interval must be one of ${INTERVALS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(chainId)) {
+      return NextResponse.json(
+        { error: 'chainId must be an integer' },
+        { status: 400 }
+      )
+    }
+
+    if (!isReportingCurrency(currency)) {
+      return NextResponse.json(
+        { error: 'Unsupported currency' },
+        { status: 400 }
+      )
+    }
+
+    // Resolve the token to its price ID through the registry
+    if (!coinId && address) {
+      await tokenRegistry.loadConfiguredLists()
+      coinId = tokenRegistry.getPriceId(chainId, address) ?? null
+    }
+
+    if (!coinId) {
+      return NextResponse.json(
+        { error: address ? 'No price history available for this token' : 'address or coinId is required' },
+        { status: address ? 404 : 400 }
+      )
+    }
+
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : new Date()
+    const from = searchParams.get('from')
+      ? new Date(searchParams.get('from')!)
+      : new Date(to.getTime() - DEFAULT_CANDLES[interval] * INTERVAL_MS[interval])
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates with from before to' },
+        { status: 400 }
+      )
+    }
+
+    if (to.getTime() - from.getTime() > MAX_CANDLES[interval] * INTERVAL_MS[interval]) {
+      return NextResponse.json(
+        { error: `Range too large for ${interval} candles (max ${MAX_CANDLES[interval]})` },
+        { status: 400 }
+      )
+    }
+
+    const { candles, backfilled } = await priceHistoryService.getCandles(coinId, interval, from, to)
+
+    // Candles are cached in USD and converted at the current rate
+    const fxRate = await fxService.getRate(currency)
+
+    return NextResponse.json({
+      coinId,
+      interval,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      currency,
+      candles: candles.map(candle => ({
+        ...candle,
+        open: candle.open * fxRate,
+        high: candle.high * fxRate,
+        low: candle.low * fxRate,
+        close: candle.close * fxRate
+      })),
+      source: priceHistoryService.getSourceId(),
+      backfilled,
+      timestamp: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('Error fetching price history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch price history' },
+      { status: 500 }
+    )
+  }
+}
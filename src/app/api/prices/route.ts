@@ -1,25 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const COINGECKO_API_URL = 'https://api.coingecko.com/api/v3'
-
-// Token contract address to CoinGecko ID mapping for common tokens
-const TOKEN_ID_MAP: Record<string, string> = {
-  '0x0000000000000000000000000000000000000000': 'ethereum', // ETH
-  '0xa0b86a33e6441b57c8ae6d9c0d1b9f7d9d8c9b8e': 'ethereum', // ETH (placeholder)
-  '0xA0b86a33E6441b57c8AE6d9c0d1b9f7d9D8c9b8e': 'ethereum', // ETH
-  '0xdAC17F958D2ee523a2206206994597C13D831ec7': 'tether', // USDT
-  '0xA0b86a33E644123456789012345678901234567890': 'usd-coin', // USDC
-  '0xA0b86a33E644987654321098765432109876543210': 'uniswap', // UNI
-  '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984': 'uniswap', // UNI
-  '0x6B175474E89094C44Da98b954EedeAC495271d0F': 'dai', // DAI
-  '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599': 'wrapped-bitcoin', // WBTC
-  '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2': 'weth', // WETH
-}
+import { tokenRegistry, getTokenKey } from '@/lib/tokens/registry'
+import { priceAggregator } from '@/lib/prices/aggregator'
+import { fxService } from '@/lib/prices/fx'
+import { isReportingCurrency } from '@/lib/utils'
 
 export async function POST(request: NextRequest) {
   try {
-    const { tokenAddresses } = await request.json()
-    
+    const { tokenAddresses, chainId = 1, currency = 'USD' } = await request.json()
+
     if (!Array.isArray(tokenAddresses)) {
       return NextResponse.json(
         { error: 'tokenAddresses must be an array' },
@@ -27,53 +15,56 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Map contract addresses to CoinGecko IDs
-    const coinGeckoIds = tokenAddresses
-      .map(address => TOKEN_ID_MAP[address.toLowerCase()] || null)
-      .filter(Boolean)
-
-    if (coinGeckoIds.length === 0) {
-      return NextResponse.json({
-        prices: {},
-        timestamp: new Date().toISOString()
-      })
+    if (!Number.isInteger(Number(chainId))) {
+      return NextResponse.json(
+        { error: 'chainId must be an integer' },
+        { status: 400 }
+      )
     }
 
-    // Fetch prices from CoinGecko
-    const url = `${COINGECKO_API_URL}/simple/price?ids=${coinGeckoIds.join(',')}&vs_currencies=usd&include_24hr_change=true`
-    
-    const headers: HeadersInit = {
-      'Accept': 'application/json',
-    }
-    
-    // Add API key if available
-    if (process.env.COINGECKO_API_KEY) {
-      headers['x-cg-demo-api-key'] = process.env.COINGECKO_API_KEY
+    if (!isReportingCurrency(currency)) {
+      return NextResponse.json(
+        { error: 'Unsupported currency' },
+        { status: 400 }
+      )
     }
 
-    const response = await fetch(url, { headers })
-    
-    if (!response.ok) {
-      throw new Error(`CoinGecko API error: ${response.status}`)
-    }
+    await tokenRegistry.loadConfiguredLists()
 
-    const priceData = await response.json()
+    // Query the configured providers in priority order (see PRICE_PROVIDERS)
+    const quotes = await priceAggregator.getPrices(
+      tokenAddresses.map((address: string) => ({ chainId: Number(chainId), address }))
+    )
+
+    // Quotes are in USD; convert into the requested reporting currency
+    const fxRate = await fxService.getRate(currency)
 
     // Map prices back to contract addresses
-    const prices: Record<string, { price: number; change24h: number }> = {}
-    
-    tokenAddresses.forEach(address => {
-      const coinGeckoId = TOKEN_ID_MAP[address.toLowerCase()]
-      if (coinGeckoId && priceData[coinGeckoId]) {
+    const prices: Record<string, {
+      price: number
+      change24h: number
+      source: string
+      confidence: 'high' | 'low'
+    }> = {}
+
+    tokenAddresses.forEach((address: string) => {
+      const quote = quotes[getTokenKey(Number(chainId), address)]
+      if (quote) {
         prices[address.toLowerCase()] = {
-          price: priceData[coinGeckoId].usd || 0,
-          change24h: priceData[coinGeckoId].usd_24h_change || 0
+          price: quote.price * fxRate,
+          change24h: quote.change24h,
+          source: quote.source,
+          confidence: quote.confidence ?? 'high'
         }
       }
     })
 
     return NextResponse.json({
+      chainId: Number(chainId),
+      currency,
+      fxRate,
       prices,
+      providers: priceAggregator.getProviderIds(),
       timestamp: new Date().toISOString()
     })
 
@@ -84,4 +75,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
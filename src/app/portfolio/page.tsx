@@ -3,14 +3,28 @@
 import { useAccount } from 'wagmi'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { ConnectButton } from "@/components/wallet/ConnectButton"
+import { CurrencySelector } from "@/components/currency/CurrencySelector"
 import { TokenList } from "@/components/portfolio/TokenList"
 import { PortfolioStats } from "@/components/portfolio/PortfolioStats"
 import { DeFiPositions } from "@/components/portfolio/DeFiPositions"
+import { NftGallery } from "@/components/portfolio/NftGallery"
 import { useTokenBalances } from "@/hooks/useTokenBalances"
 
 export default function PortfolioPage() {
   const { address, isConnected } = useAccount()
-  const { balances, totalValue, isLoading, error } = useTokenBalances()
+  const {
+    balances,
+    hiddenBalances,
+    hideToken,
+    showToken,
+    totalValue,
+    isLoading,
+    error,
+    total,
+    hasMore,
+    isLoadingMore,
+    loadMore
+  } = useTokenBalances()
 
   if (!isConnected) {
     return (
@@ -58,7 +72,10 @@ export default function PortfolioPage() {
             </div>
             <h1 className="text-xl font-bold text-gray-900 dark:text-white">CryptoVision</h1>
           </div>
-          <ConnectButton />
+          <div className="flex items-center gap-3">
+            <CurrencySelector />
+            <ConnectButton />
+          </div>
         </div>
       </header>
 
@@ -85,8 +102,18 @@ export default function PortfolioPage() {
             balances={balances}
             isLoading={isLoading}
             error={error}
+            total={total}
+            hasMore={hasMore}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={loadMore}
+            hiddenBalances={hiddenBalances}
+            onHideToken={hideToken}
+            onShowToken={showToken}
           />
 
+          {/* NFT Holdings */}
+          <NftGallery />
+
           {/* DeFi Positions */}
           <div>
             <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
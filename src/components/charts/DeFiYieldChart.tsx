@@ -2,7 +2,8 @@
 
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { DeFiPosition } from '@/types';
-import { formatCurrency, formatPercent } from '@/lib/utils';
+import { formatPercent } from '@/lib/utils';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
 
 interface DeFiYieldChartProps {
   positions: DeFiPosition[];
@@ -10,6 +11,7 @@ interface DeFiYieldChartProps {
 }
 
 export function DeFiYieldChart({ positions, isLoading }: DeFiYieldChartProps) {
+  const { formatValue } = useCurrency();
   if (isLoading) {
     return <DeFiYieldChartLoader />;
   }
@@ -44,13 +46,13 @@ export function DeFiYieldChart({ positions, isLoading }: DeFiYieldChartProps) {
             <p className="text-sm">
               <span className="text-gray-500">Value:</span>
               <span className="font-semibold text-gray-900 ml-2">
-                {formatCurrency(data.value)}
+                {formatValue(data.value)}
               </span>
             </p>
             <p className="text-sm">
               <span className="text-gray-500">Projected Annual:</span>
               <span className="font-semibold text-blue-600 ml-2">
-                {formatCurrency(data.projectedYield)}
+                {formatValue(data.projectedYield)}
               </span>
             </p>
             <p className="text-xs text-gray-400 capitalize mt-1">
@@ -80,7 +82,7 @@ export function DeFiYieldChart({ positions, isLoading }: DeFiYieldChartProps) {
             </div>
             <div>
               <p className="text-sm text-gray-500">Projected Annual</p>
-              <p className="text-xl font-bold text-blue-600">{formatCurrency(totalProjectedYield)}</p>
+              <p className="text-xl font-bold text-blue-600">{formatValue(totalProjectedYield)}</p>
             </div>
           </div>
         </div>
@@ -152,7 +154,7 @@ export function DeFiYieldChart({ positions, isLoading }: DeFiYieldChartProps) {
                 </div>
                 <div className="text-right">
                   <p className="font-semibold text-green-600">{formatPercent(position.apy)}</p>
-                  <p className="text-xs text-gray-500">{formatCurrency(position.value)}</p>
+                  <p className="text-xs text-gray-500">{formatValue(position.value)}</p>
                 </div>
               </div>
             ))}
@@ -171,7 +173,12 @@ function prepareYieldData(positions: DeFiPosition[]) {
         'aerodrome': 'Aerodrome',
         'moonwell': 'Moonwell',
         'aave': 'Aave',
-        'lido': 'Lido'
+        'compound': 'Compound',
+        'curve': 'Curve',
+        'lido': 'Lido',
+        'rocket-pool': 'Rocket Pool',
+        'coinbase': 'Coinbase',
+        'erc4626': 'ERC-4626 Vaults'
       };
 
       // Create a display name
@@ -2,7 +2,7 @@
 
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
 import { TokenBalance, DeFiPosition } from '@/types';
-import { formatCurrency } from '@/lib/utils';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
 
 interface PortfolioCompositionProps {
   tokens: TokenBalance[];
@@ -11,6 +11,7 @@ interface PortfolioCompositionProps {
 }
 
 export function PortfolioComposition({ tokens, defiPositions, isLoading }: PortfolioCompositionProps) {
+  const { formatValue } = useCurrency();
   if (isLoading) {
     return <PortfolioCompositionLoader />;
   }
@@ -42,7 +43,7 @@ export function PortfolioComposition({ tokens, defiPositions, isLoading }: Portf
       return (
         <div className="bg-white p-3 border rounded-lg shadow-lg">
           <p className="font-medium text-gray-900">{data.name}</p>
-          <p className="text-blue-600">{formatCurrency(data.value)}</p>
+          <p className="text-blue-600">{formatValue(data.value)}</p>
           <p className="text-sm text-gray-500">{data.percentage}% of portfolio</p>
           {data.type && (
             <p className="text-xs text-gray-400 capitalize">{data.type}</p>
@@ -106,7 +107,7 @@ export function PortfolioComposition({ tokens, defiPositions, isLoading }: Portf
               height={36}
               formatter={(value, entry: any) => (
                 <span className="text-sm text-gray-600">
-                  {value} ({formatCurrency(entry.payload.value)})
+                  {value} ({formatValue(entry.payload.value)})
                 </span>
               )}
             />
@@ -133,7 +134,7 @@ export function PortfolioComposition({ tokens, defiPositions, isLoading }: Portf
             </div>
             <div className="text-right">
               <p className="text-sm font-medium text-gray-900">
-                {formatCurrency(item.value)}
+                {formatValue(item.value)}
               </p>
               <p className="text-xs text-gray-500">{item.percentage}%</p>
             </div>
@@ -197,7 +198,12 @@ function prepareChartData(tokens: TokenBalance[], defiPositions: DeFiPosition[])
         'aerodrome': 'Aerodrome',
         'moonwell': 'Moonwell',
         'aave': 'Aave',
-        'lido': 'Lido'
+        'compound': 'Compound',
+        'curve': 'Curve',
+        'lido': 'Lido',
+        'rocket-pool': 'Rocket Pool',
+        'coinbase': 'Coinbase',
+        'erc4626': 'ERC-4626 Vaults'
       };
       
       data.push({
@@ -1,7 +1,8 @@
 'use client';
 
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Area, AreaChart } from 'recharts';
-import { formatCurrency, formatPercent } from '@/lib/utils';
+import { formatPercent, formatCompactCurrency } from '@/lib/utils';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
 
 interface PortfolioPerformanceProps {
   data: Array<{
@@ -15,6 +16,7 @@ interface PortfolioPerformanceProps {
 }
 
 export function PortfolioPerformance({ data, isLoading, timeframe }: PortfolioPerformanceProps) {
+  const { currency, formatValue } = useCurrency();
   if (isLoading) {
     return <PortfolioPerformanceLoader />;
   }
@@ -44,10 +46,10 @@ export function PortfolioPerformance({ data, isLoading, timeframe }: PortfolioPe
             {new Date(data.timestamp).toLocaleDateString()}
           </p>
           <p className="text-lg font-semibold text-gray-900">
-            {formatCurrency(data.totalValue)}
+            {formatValue(data.totalValue)}
           </p>
           <p className={`text-sm ${data.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-            {data.change >= 0 ? '+' : ''}{formatCurrency(data.change)} ({formatPercent(data.changePercent)})
+            {data.change >= 0 ? '+' : ''}{formatValue(data.change)} ({formatPercent(data.changePercent)})
           </p>
         </div>
       );
@@ -63,10 +65,10 @@ export function PortfolioPerformance({ data, isLoading, timeframe }: PortfolioPe
           <div className="flex items-center space-x-4 mt-2">
             <div>
               <p className="text-2xl font-bold text-gray-900">
-                {formatCurrency(latestValue.totalValue)}
+                {formatValue(latestValue.totalValue)}
               </p>
               <p className={`text-sm font-medium ${isPositive ? 'text-green-600' : 'text-red-600'}`}>
-                {isPositive ? '+' : ''}{formatCurrency(totalChange)} ({formatPercent(totalChangePercent)})
+                {isPositive ? '+' : ''}{formatValue(totalChange)} ({formatPercent(totalChangePercent)})
               </p>
             </div>
           </div>
@@ -116,11 +118,7 @@ export function PortfolioPerformance({ data, isLoading, timeframe }: PortfolioPe
               tick={{ fontSize: 12, fill: '#6B7280' }}
             />
             <YAxis 
-              tickFormatter={(value) => {
-                if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
-                if (value >= 1000) return `$${(value / 1000).toFixed(1)}K`;
-                return `$${value.toFixed(0)}`;
-              }}
+              tickFormatter={(value) => formatCompactCurrency(value, currency)}
               axisLine={false}
               tickLine={false}
               tick={{ fontSize: 12, fill: '#6B7280' }}
@@ -142,19 +140,19 @@ export function PortfolioPerformance({ data, isLoading, timeframe }: PortfolioPe
         <div className="text-center">
           <p className="text-xs text-gray-500 uppercase tracking-wide">High</p>
           <p className="text-sm font-semibold text-gray-900">
-            {formatCurrency(Math.max(...chartData.map(d => d.totalValue)))}
+            {formatValue(Math.max(...chartData.map(d => d.totalValue)))}
           </p>
         </div>
         <div className="text-center">
           <p className="text-xs text-gray-500 uppercase tracking-wide">Low</p>
           <p className="text-sm font-semibold text-gray-900">
-            {formatCurrency(Math.min(...chartData.map(d => d.totalValue)))}
+            {formatValue(Math.min(...chartData.map(d => d.totalValue)))}
           </p>
         </div>
         <div className="text-center">
           <p className="text-xs text-gray-500 uppercase tracking-wide">Avg</p>
           <p className="text-sm font-semibold text-gray-900">
-            {formatCurrency(chartData.reduce((sum, d) => sum + d.totalValue, 0) / chartData.length)}
+            {formatValue(chartData.reduce((sum, d) => sum + d.totalValue, 0) / chartData.length)}
           </p>
         </div>
         <div className="text-center">
@@ -0,0 +1,89 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useAccount } from 'wagmi'
+import { ReportingCurrency } from '@/types'
+import { formatCurrency, isReportingCurrency } from '@/lib/utils'
+
+interface FxResponse {
+  rates: Record<ReportingCurrency, number>
+  source: string
+  timestamp: string
+}
+
+interface CurrencyContextValue {
+  currency: ReportingCurrency
+  setCurrency: (currency: ReportingCurrency) => void
+  // Units of the reporting currency per 1 USD
+  rate: number
+  // Convert a USD amount into the reporting currency
+  convert: (usdAmount: number) => number
+  // Format an amount that is already in the reporting currency
+  formatValue: (amount: number) => string
+}
+
+const STORAGE_PREFIX = 'cryptovision:currency'
+
+const CurrencyContext = createContext<CurrencyContextValue | null>(null)
+
+// The choice is stored per wallet so each connected account keeps its own currency
+function storageKey(address?: string) {
+  return address ? `${STORAGE_PREFIX}:${address.toLowerCase()}` : STORAGE_PREFIX
+}
+
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const { address } = useAccount()
+  const [currency, setCurrencyState] = useState<ReportingCurrency>('USD')
+
+  // Load the saved currency after mount to keep server and client renders identical
+  useEffect(() => {
+    const saved = window.localStorage.getItem(storageKey(address))
+      ?? window.localStorage.getItem(storageKey())
+    setCurrencyState(isReportingCurrency(saved) ? saved : 'USD')
+  }, [address])
+
+  const setCurrency = useCallback((next: ReportingCurrency) => {
+    setCurrencyState(next)
+    window.localStorage.setItem(storageKey(address), next)
+  }, [address])
+
+  const { data } = useQuery<FxResponse>({
+    queryKey: ['fxRates'],
+    queryFn: async () => {
+      const response = await fetch('/api/fx')
+      if (!response.ok) {
+        throw new Error(`Failed to fetch FX rates: ${response.statusText}`)
+      }
+      return response.json()
+    },
+    enabled: currency !== 'USD',
+    refetchInterval: 5 * 60 * 1000,
+    staleTime: 60000,
+  })
+
+  // API routes convert server-side; the rate is only needed for client-side amounts
+  const rate = data?.rates[currency] ?? 1
+
+  const value: CurrencyContextValue = {
+    currency,
+    setCurrency,
+    rate,
+    convert: (usdAmount: number) => usdAmount * rate,
+    formatValue: (amount: number) => formatCurrency(amount, currency),
+  }
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  )
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext)
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider')
+  }
+  return context
+}
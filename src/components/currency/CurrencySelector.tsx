@@ -0,0 +1,25 @@
+'use client'
+
+import { REPORTING_CURRENCIES, isReportingCurrency } from '@/lib/utils'
+import { useCurrency } from './CurrencyProvider'
+
+export function CurrencySelector() {
+  const { currency, setCurrency } = useCurrency()
+
+  return (
+    <select
+      aria-label="Reporting currency"
+      value={currency}
+      onChange={(event) => {
+        if (isReportingCurrency(event.target.value)) {
+          setCurrency(event.target.value)
+        }
+      }}
+      className="h-9 rounded-md border bg-white px-2 text-sm font-medium text-gray-900 dark:bg-gray-900 dark:border-gray-700 dark:text-white"
+    >
+      {REPORTING_CURRENCIES.map(code => (
+        <option key={code} value={code}>{code}</option>
+      ))}
+    </select>
+  )
+}
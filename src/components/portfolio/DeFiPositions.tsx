@@ -1,18 +1,22 @@
 'use client';
 
 import { useDeFiPositions } from '@/hooks/useDeFiPositions';
-import { formatCurrency, formatPercent } from '@/lib/utils';
-import { DeFiPosition } from '@/types';
+import { formatPercent, formatTokenAmount, formatAddress } from '@/lib/utils';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import { getChainName } from '@/lib/blockchain/config';
+import { DeFiPosition, LendingAccount, VotingEscrowPosition } from '@/types';
 
 export function DeFiPositions() {
+  const { formatValue } = useCurrency();
   const {
     positions,
+    lendingAccounts,
     summary,
     protocolBreakdown,
     isLoading,
     hasPositions,
     hasMockData,
-    getTopPositionsByValue
+    getPositionsByChain
   } = useDeFiPositions();
 
   if (isLoading) {
@@ -23,7 +27,7 @@ export function DeFiPositions() {
     return <NoDeFiPositions />;
   }
 
-  const topPositions = getTopPositionsByValue(3);
+  const positionsByChain = getPositionsByChain();
 
   return (
     <div className="space-y-6">
@@ -32,14 +36,14 @@ export function DeFiPositions() {
         <div className="bg-white p-6 rounded-xl border shadow-sm">
           <h3 className="text-sm font-medium text-gray-600 mb-2">Total DeFi Value</h3>
           <p className="text-2xl font-bold text-gray-900">
-            {formatCurrency(summary.totalValue)}
+            {formatValue(summary.totalValue)}
           </p>
         </div>
         
         <div className="bg-white p-6 rounded-xl border shadow-sm">
           <h3 className="text-sm font-medium text-gray-600 mb-2">Claimable Rewards</h3>
           <p className="text-2xl font-bold text-green-600">
-            {formatCurrency(summary.totalClaimable)}
+            {formatValue(summary.totalClaimable)}
           </p>
         </div>
         
@@ -61,6 +65,11 @@ export function DeFiPositions() {
         </div>
       </div>
 
+      {/* Lending account health */}
+      {lendingAccounts.map((account) => (
+        <LendingAccountCard key={account.id} account={account} />
+      ))}
+
       {hasMockData && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <p className="text-sm text-blue-800">
@@ -79,12 +88,21 @@ export function DeFiPositions() {
         </div>
       </div>
 
-      {/* Top Positions */}
+      {/* Positions by Chain */}
       <div className="bg-white rounded-xl border shadow-sm p-6">
-        <h3 className="text-lg font-semibold mb-4">Top Positions</h3>
-        <div className="space-y-4">
-          {topPositions.map((position) => (
-            <PositionCard key={position.id} position={position} />
+        <h3 className="text-lg font-semibold mb-4">Positions</h3>
+        <div className="space-y-6">
+          {Object.entries(positionsByChain).map(([chainId, chainPositions]) => (
+            <div key={chainId}>
+              <h4 className="text-sm font-medium text-gray-500 mb-2">
+                {getChainName(Number(chainId))}
+              </h4>
+              <div className="space-y-4">
+                {chainPositions.map((position) => (
+                  <PositionCard key={position.id} position={position} />
+                ))}
+              </div>
+            </div>
           ))}
         </div>
       </div>
@@ -92,18 +110,117 @@ export function DeFiPositions() {
   );
 }
 
+// Below 1 the account can be liquidated; close to 1 a small price move gets it there
+function getHealthStatus(healthFactor: number | null) {
+  if (healthFactor === null) {
+    return { label: 'No debt', color: 'text-green-600 bg-green-50 border-green-200' };
+  }
+  if (healthFactor < 1) {
+    return { label: 'Liquidatable', color: 'text-red-700 bg-red-50 border-red-300' };
+  }
+  if (healthFactor < 1.1) {
+    return { label: 'At risk', color: 'text-red-600 bg-red-50 border-red-200' };
+  }
+  if (healthFactor < 1.5) {
+    return { label: 'Caution', color: 'text-orange-600 bg-orange-50 border-orange-200' };
+  }
+  return { label: 'Healthy', color: 'text-green-600 bg-green-50 border-green-200' };
+}
+
+function LendingAccountCard({ account }: { account: LendingAccount }) {
+  const { formatValue } = useCurrency();
+  const status = getHealthStatus(account.healthFactor);
+  const capacityColor = account.borrowCapacityUsed >= 90
+    ? 'bg-red-500'
+    : account.borrowCapacityUsed >= 66 ? 'bg-orange-500' : 'bg-green-500';
+
+  return (
+    <div className={`bg-white rounded-xl border shadow-sm p-6 ${
+      account.healthFactor !== null && account.healthFactor < 1.1 ? 'border-red-300' : ''
+    }`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold capitalize">
+          {account.protocol.replace('-', ' ')} account
+          <span className="ml-2 px-2 py-0.5 text-xs font-normal normal-case text-gray-600 bg-gray-100 rounded-full">
+            {getChainName(account.chainId)}
+          </span>
+        </h3>
+        <span className={`px-2 py-1 text-xs font-medium rounded-full border ${status.color}`}>
+          {status.label}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <p className="text-sm text-gray-600">Health Factor</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {account.healthFactor === null ? '∞' : account.healthFactor.toFixed(2)}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Collateral</p>
+          <p className="text-lg font-semibold">{formatValue(account.totalCollateral)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Borrowed</p>
+          <p className="text-lg font-semibold">{formatValue(account.totalBorrowed)}</p>
+        </div>
+        <div>
+          <p className="text-sm text-gray-600">Borrow Limit</p>
+          <p className="text-lg font-semibold">{formatValue(account.borrowLimit)}</p>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <div className="flex justify-between text-sm text-gray-600 mb-1">
+          <span>Borrow capacity used</span>
+          <span>{account.borrowCapacityUsed.toFixed(1)}%</span>
+        </div>
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className={`h-full ${capacityColor}`}
+            style={{ width: `${Math.min(account.borrowCapacityUsed, 100)}%` }}
+          />
+        </div>
+      </div>
+
+      {account.collateral.length > 0 && (
+        <div className="space-y-2 text-sm">
+          {account.collateral.map((collateral) => (
+            <div key={collateral.market} className="flex items-center justify-between">
+              <span>
+                {formatTokenAmount(collateral.asset.balance, collateral.asset.decimals)} {collateral.asset.symbol}
+                <span className="text-gray-500"> · {(collateral.collateralFactor * 100).toFixed(0)}% collateral factor</span>
+              </span>
+              <span className="text-gray-600">
+                {collateral.liquidationPrice !== null
+                  ? <>Liquidation at {formatValue(collateral.liquidationPrice)} <span className="text-gray-500">(now {formatValue(collateral.asset.price)})</span></>
+                  : 'No liquidation price'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function ProtocolCard({ protocol, data }: { 
   protocol: string; 
   data: { count: number; totalValue: number; positions: DeFiPosition[] } 
 }) {
+  const { formatValue } = useCurrency();
   const protocolNames: Record<string, string> = {
     'uniswap-v3': 'Uniswap V3',
     'aave': 'Aave',
     'lido': 'Lido',
+    'rocket-pool': 'Rocket Pool',
+    'coinbase': 'Coinbase',
     'compound': 'Compound',
     'curve': 'Curve',
     'aerodrome': 'Aerodrome',
-    'moonwell': 'Moonwell'
+    'moonwell': 'Moonwell',
+    'erc4626': 'ERC-4626 Vaults'
   };
 
   const getProtocolIcon = (protocol: string) => {
@@ -114,6 +231,10 @@ function ProtocolCard({ protocol, data }: {
         return '👻';
       case 'lido':
         return '🏛️';
+      case 'rocket-pool':
+        return '🚀';
+      case 'coinbase':
+        return '🔵';
       case 'compound':
         return '🏦';
       case 'curve':
@@ -122,6 +243,8 @@ function ProtocolCard({ protocol, data }: {
         return '🛩️';
       case 'moonwell':
         return '🌙';
+      case 'erc4626':
+        return '🏺';
       default:
         return '💎';
     }
@@ -137,70 +260,179 @@ function ProtocolCard({ protocol, data }: {
         <span className="text-sm text-gray-500">{data.count} positions</span>
       </div>
       <p className="text-lg font-semibold text-gray-900">
-        {formatCurrency(data.totalValue)}
+        {formatValue(data.totalValue)}
       </p>
     </div>
   );
 }
 
 function PositionCard({ position }: { position: DeFiPosition }) {
+  const { formatValue } = useCurrency();
   const getTypeIcon = (type: string) => {
     switch (type) {
       case 'liquidity': return '💧';
       case 'lending': return '🏦';
       case 'staking': return '🔐';
       case 'farming': return '🌾';
+      case 'governance': return '🗳️';
       default: return '💎';
     }
   };
 
   const getStatusColor = (protocol: string, metadata?: any) => {
-    if (protocol === 'uniswap-v3' && metadata?.inRange === false) {
+    if (metadata?.inRange === false || isExpiredLock(metadata) || metadata?.withdrawal?.status === 'pending') {
       return 'text-orange-600 bg-orange-50 border-orange-200';
     }
     return 'text-green-600 bg-green-50 border-green-200';
   };
 
   const getStatusText = (protocol: string, metadata?: any) => {
-    if (protocol === 'uniswap-v3') {
-      return metadata?.inRange ? 'In Range' : 'Out of Range';
+    // Concentrated-liquidity positions (Uniswap V3, Aerodrome Slipstream) report a range
+    if (typeof metadata?.inRange === 'boolean') {
+      return metadata.inRange ? 'In Range' : 'Out of Range';
+    }
+    if (metadata?.withdrawal) {
+      if (metadata.withdrawal.status === 'claimable') return 'Ready to claim';
+      const days = Math.ceil((metadata.unstakingPeriod ?? 0) / 86400);
+      return days > 0 ? `Unstaking (~${days}d)` : 'Unstaking';
+    }
+    if (position.type === 'governance') {
+      if (metadata?.isPermanent) return 'Permanent Lock';
+      return isExpiredLock(metadata) ? 'Lock Expired' : 'Locked';
     }
     return 'Active';
   };
 
   return (
-    <div className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
+    // Anchored by position ID so the NFT gallery can link position NFTs here
+    <div id={position.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors scroll-mt-4">
       <div className="flex items-start justify-between mb-3">
         <div className="flex items-center space-x-3">
           <span className="text-2xl">{getTypeIcon(position.type)}</span>
           <div>
             <h4 className="font-medium capitalize">
               {position.protocol.replace('-', ' ')} {position.type}
+              <span className="ml-2 px-2 py-0.5 text-xs font-normal normal-case text-gray-600 bg-gray-100 rounded-full">
+                {getChainName(position.chainId)}
+              </span>
             </h4>
             <p className="text-sm text-gray-500">
               {position.tokens.map(t => t.symbol).join(' / ')}
+              {position.metadata && 'vault' in position.metadata && ` via ${position.metadata.symbol}`}
             </p>
           </div>
         </div>
         <div className="text-right">
-          <p className="text-lg font-semibold">{formatCurrency(position.value)}</p>
+          <p className="text-lg font-semibold">{formatValue(position.value)}</p>
           <p className="text-sm text-blue-600">{formatPercent(position.apy)} APY</p>
         </div>
       </div>
 
       <div className="flex items-center justify-between">
-        <span className={`px-2 py-1 text-xs font-medium rounded-full border ${
-          getStatusColor(position.protocol, position.metadata)
-        }`}>
-          {getStatusText(position.protocol, position.metadata)}
-        </span>
+        <div className="flex items-center space-x-2">
+          <span className={`px-2 py-1 text-xs font-medium rounded-full border ${
+            getStatusColor(position.protocol, position.metadata)
+          }`}>
+            {getStatusText(position.protocol, position.metadata)}
+          </span>
+          {position.metadata && 'eMode' in position.metadata && position.metadata.eMode && (
+            <span className="px-2 py-1 text-xs font-medium rounded-full border text-purple-600 bg-purple-50 border-purple-200">
+              E-Mode: {position.metadata.eMode.label}
+            </span>
+          )}
+        </div>
         
         {position.claimable && position.claimable > 0 && (
           <span className="text-sm text-green-600">
-            {formatCurrency(position.claimable)} claimable
+            {formatValue(position.claimable)} claimable
           </span>
         )}
       </div>
+
+      {position.type === 'governance' && position.metadata && (
+        <VotingEscrowDetails lock={position.metadata as VotingEscrowPosition} />
+      )}
+    </div>
+  );
+}
+
+function isExpiredLock(metadata?: DeFiPosition['metadata']) {
+  if (!metadata || !('lockEnd' in metadata)) return false;
+  return !metadata.isPermanent && metadata.lockEnd > 0 && metadata.lockEnd * 1000 <= Date.now();
+}
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp * 1000).toLocaleDateString();
+}
+
+// Lock terms, votes for the current epoch and the rewards each vote has earned
+function VotingEscrowDetails({ lock }: { lock: VotingEscrowPosition }) {
+  const { formatValue } = useCurrency();
+  const votedThisEpoch = lock.lastVoted >= lock.epoch.start;
+
+  return (
+    <div className="mt-4 border-t pt-4 space-y-3 text-sm">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <p className="text-gray-500">Locked</p>
+          <p className="font-medium">{formatTokenAmount(lock.lockedAmount)} AERO</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Voting Power</p>
+          <p className="font-medium">{formatTokenAmount(lock.votingPower)} veAERO</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Unlocks</p>
+          <p className="font-medium">{lock.isPermanent ? 'Never (permanent)' : formatDate(lock.lockEnd)}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Epoch ends</p>
+          <p className="font-medium">{formatDate(lock.epoch.end)}</p>
+          <p className={votedThisEpoch ? 'text-green-600' : 'text-orange-600'}>
+            {votedThisEpoch ? 'Voted this epoch' : 'Not voted this epoch'}
+          </p>
+        </div>
+      </div>
+
+      {lock.votes.length > 0 && (
+        <div className="space-y-2">
+          {lock.votes.map(vote => {
+            const rewards = [...vote.fees, ...vote.bribes];
+            const rewardsValue = rewards.reduce((sum, reward) => sum + reward.value, 0);
+            return (
+              <div key={vote.pool} className="flex items-start justify-between rounded-lg bg-gray-50 p-3">
+                <div>
+                  <p className="font-medium">{vote.poolName || formatAddress(vote.pool)}</p>
+                  <p className="text-gray-500">
+                    {vote.weight === '0' ? 'Voted in an earlier epoch' : `${formatTokenAmount(vote.weight)} votes`}
+                  </p>
+                </div>
+                <div className="text-right">
+                  {rewards.length > 0 ? (
+                    <>
+                      <p className="text-green-600">{formatValue(rewardsValue)} claimable</p>
+                      <p className="text-gray-500">
+                        {vote.fees.length > 0 && `Fees: ${vote.fees.map(fee => `${formatTokenAmount(fee.balance, fee.decimals)} ${fee.symbol}`).join(', ')}`}
+                        {vote.fees.length > 0 && vote.bribes.length > 0 && ' · '}
+                        {vote.bribes.length > 0 && `Bribes: ${vote.bribes.map(bribe => `${formatTokenAmount(bribe.balance, bribe.decimals)} ${bribe.symbol}`).join(', ')}`}
+                      </p>
+                      {vote.epochs.length > 1 && vote.epochs.map(epoch => (
+                        <p key={epoch.epochStart} className="text-xs text-gray-400">
+                          Epoch of {formatDate(epoch.epochStart)}: {formatValue(
+                            [...epoch.fees, ...epoch.bribes].reduce((sum, reward) => sum + reward.value, 0)
+                          )}
+                        </p>
+                      ))}
+                    </>
+                  ) : (
+                    <p className="text-gray-500">No rewards yet</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 }
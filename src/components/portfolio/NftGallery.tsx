@@ -0,0 +1,144 @@
+'use client'
+
+import { NftHolding } from '@/types'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useCurrency } from '@/components/currency/CurrencyProvider'
+import { useNfts } from '@/hooks/useNfts'
+import { getChainName } from '@/lib/blockchain/config'
+
+export function NftGallery() {
+  const { formatValue } = useCurrency()
+  const { collectibles, positionNfts, totalValue, note, isLoading, error } = useNfts()
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>NFTs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="animate-pulse">
+                <div className="aspect-square bg-gray-200 dark:bg-gray-700 rounded-lg mb-2"></div>
+                <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-24 mb-1"></div>
+                <div className="h-3 bg-gray-200 dark:bg-gray-700 rounded w-16"></div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>NFTs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-center py-8 text-red-600 dark:text-red-400">
+            {error instanceof Error ? error.message : 'Failed to load NFTs'}
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (collectibles.length === 0 && positionNfts.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>NFTs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center py-8">
+            <div className="w-16 h-16 bg-gray-100 dark:bg-gray-800 rounded-full flex items-center justify-center mx-auto mb-4">
+              <span className="text-2xl">🖼️</span>
+            </div>
+            <p className="text-gray-500 dark:text-gray-400">{note || 'No NFTs found'}</p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>NFTs</CardTitle>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            Floor value {formatValue(totalValue)}
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {collectibles.map(nft => (
+            <NftCard key={`${nft.chainId}:${nft.contractAddress}:${nft.tokenId}`} nft={nft} />
+          ))}
+        </div>
+
+        {positionNfts.length > 0 && (
+          <div className="mt-6 border-t pt-4 dark:border-gray-800">
+            <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">
+              Position NFTs (valued under DeFi positions)
+            </h4>
+            <div className="space-y-2">
+              {positionNfts.map(nft => (
+                <a
+                  key={`${nft.chainId}:${nft.contractAddress}:${nft.tokenId}`}
+                  href={`#${nft.defiPositionId}`}
+                  className="flex items-center justify-between p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors"
+                >
+                  <span className="font-medium text-gray-900 dark:text-white">{nft.name}</span>
+                  <span className="text-sm text-blue-600 dark:text-blue-400">
+                    {getChainName(nft.chainId)} · View position
+                  </span>
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function NftCard({ nft }: { nft: NftHolding }) {
+  const { formatValue } = useCurrency()
+
+  return (
+    <div className="rounded-lg border dark:border-gray-800 overflow-hidden">
+      {nft.image ? (
+        <img src={nft.image} alt={nft.name} className="aspect-square w-full object-cover" loading="lazy" />
+      ) : (
+        <div className="aspect-square w-full bg-gradient-to-br from-blue-100 to-purple-100 dark:from-gray-800 dark:to-gray-700 flex items-center justify-center">
+          <span className="text-3xl">🖼️</span>
+        </div>
+      )}
+      <div className="p-3">
+        <div className="font-semibold text-gray-900 dark:text-white truncate" title={nft.name}>
+          {nft.name}
+        </div>
+        <div className="text-sm text-gray-500 dark:text-gray-400 truncate">
+          {nft.collectionName} · {getChainName(nft.chainId)}
+        </div>
+        <div className="mt-1 text-sm text-gray-900 dark:text-white">
+          {nft.floorPrice !== undefined ? (
+            <>
+              {formatValue(nft.value)}
+              {nft.balance !== '1' && (
+                <span className="text-gray-500 dark:text-gray-400"> ({nft.balance} × {formatValue(nft.floorPrice)})</span>
+              )}
+            </>
+          ) : (
+            <span className="text-gray-400">No floor price</span>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
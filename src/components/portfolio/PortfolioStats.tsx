@@ -1,7 +1,8 @@
 'use client'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { formatCurrency, formatPercent } from '@/lib/utils'
+import { formatPercent } from '@/lib/utils'
+import { useCurrency } from '@/components/currency/CurrencyProvider'
 
 interface PortfolioStatsProps {
   totalValue: number
@@ -18,6 +19,7 @@ export function PortfolioStats({
   averageYield = 0,
   isLoading 
 }: PortfolioStatsProps) {
+  const { formatValue } = useCurrency()
   if (isLoading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
@@ -49,11 +51,11 @@ export function PortfolioStats({
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold text-gray-900 dark:text-white">
-            {formatCurrency(totalValue)}
+            {formatValue(totalValue)}
           </div>
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
             <span className={changeColor}>
-              {changePrefix}{formatCurrency(totalChange24h)} ({formatPercent(totalChange24h / Math.max(totalValue, 1) * 100)})
+              {changePrefix}{formatValue(totalChange24h)} ({formatPercent(totalChange24h / Math.max(totalValue, 1) * 100)})
             </span>{' '}
             today
           </p>
@@ -68,7 +70,7 @@ export function PortfolioStats({
         </CardHeader>
         <CardContent>
           <div className="text-2xl font-bold text-gray-900 dark:text-white">
-            {formatCurrency(defiValue)}
+            {formatValue(defiValue)}
           </div>
           <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
             {defiValue > 0 ? 'Across multiple protocols' : 'No active positions'}
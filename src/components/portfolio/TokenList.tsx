@@ -1,16 +1,51 @@
 'use client'
 
+import { useState } from 'react'
 import { TokenBalance } from '@/types'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { formatCurrency, formatTokenAmount } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { formatTokenAmount } from '@/lib/utils'
+import { useCurrency } from '@/components/currency/CurrencyProvider'
 
 interface TokenListProps {
   balances: TokenBalance[]
   isLoading: boolean
   error?: string | null
+  // Pagination for wallets with more holdings than the first page
+  total?: number
+  hasMore?: boolean
+  isLoadingMore?: boolean
+  onLoadMore?: () => void
+  // Spam-flagged or user-hidden tokens, listed in a collapsed section
+  hiddenBalances?: TokenBalance[]
+  onHideToken?: (token: TokenBalance) => void
+  onShowToken?: (token: TokenBalance) => void
 }
 
-export function TokenList({ balances, isLoading, error }: TokenListProps) {
+const SPAM_REASON_LABELS: Record<string, string> = {
+  'url': 'link in name',
+  'lure': 'bait text',
+  'unusual-characters': 'unusual characters',
+  'no-liquidity': 'no liquidity',
+  'transfer-restricted': 'transfers blocked',
+  'unknown-metadata': 'unreadable metadata',
+}
+
+export function TokenList({
+  balances,
+  isLoading,
+  error,
+  total,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  hiddenBalances = [],
+  onHideToken,
+  onShowToken
+}: TokenListProps) {
+  const { formatValue } = useCurrency()
+  const [showHidden, setShowHidden] = useState(false)
+
   if (error) {
     return (
       <Card>
@@ -56,7 +91,7 @@ export function TokenList({ balances, isLoading, error }: TokenListProps) {
     )
   }
 
-  if (balances.length === 0) {
+  if (balances.length === 0 && hiddenBalances.length === 0) {
     return (
       <Card>
         <CardHeader>
@@ -82,7 +117,7 @@ export function TokenList({ balances, isLoading, error }: TokenListProps) {
       <CardContent>
         <div className="space-y-4">
           {balances.map((token) => (
-            <div key={token.address} className="flex items-center justify-between p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors">
+            <div key={`${token.chainId ?? ''}:${token.address}`} className="group flex items-center justify-between p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800/50 transition-colors">
               <div className="flex items-center space-x-3">
                 {token.logo ? (
                   <img
@@ -105,6 +140,15 @@ export function TokenList({ balances, isLoading, error }: TokenListProps) {
                 <div>
                   <div className="font-semibold text-gray-900 dark:text-white">
                     {token.symbol}
+                    {onHideToken && (
+                      <button
+                        type="button"
+                        onClick={() => onHideToken(token)}
+                        className="ml-2 text-xs font-normal text-gray-400 opacity-0 transition-opacity hover:text-gray-600 group-hover:opacity-100 dark:hover:text-gray-200"
+                      >
+                        Hide
+                      </button>
+                    )}
                   </div>
                   <div className="text-sm text-gray-500 dark:text-gray-400">
                     {token.name}
@@ -114,7 +158,15 @@ export function TokenList({ balances, isLoading, error }: TokenListProps) {
 
               <div className="text-right">
                 <div className="font-semibold text-gray-900 dark:text-white">
-                  {formatCurrency(token.value)}
+                  {token.priceConfidence === 'low' && (
+                    <span
+                      className="mr-1 text-xs font-medium text-amber-600 dark:text-amber-400"
+                      title="Estimated from a thin DEX pool"
+                    >
+                      est.
+                    </span>
+                  )}
+                  {formatValue(token.value)}
                 </div>
                 <div className="text-sm text-gray-500 dark:text-gray-400">
                   {formatTokenAmount(token.balance, token.decimals)} {token.symbol}
@@ -123,7 +175,54 @@ export function TokenList({ balances, isLoading, error }: TokenListProps) {
             </div>
           ))}
         </div>
+
+        {hasMore && onLoadMore && (
+          <div className="mt-4 flex items-center justify-between border-t pt-4 dark:border-gray-800">
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Showing {balances.length}{total ? ` of ${total}` : ''} holdings
+            </p>
+            <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoadingMore}>
+              {isLoadingMore ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+
+        {hiddenBalances.length > 0 && (
+          <div className="mt-4 border-t pt-4 dark:border-gray-800">
+            <button
+              type="button"
+              onClick={() => setShowHidden(!showHidden)}
+              className="text-sm font-medium text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+            >
+              {showHidden ? '▾' : '▸'} Hidden tokens ({hiddenBalances.length})
+            </button>
+
+            {showHidden && (
+              <div className="mt-3 space-y-2">
+                {hiddenBalances.map((token) => (
+                  <div key={`${token.chainId ?? ''}:${token.address}`} className="flex items-center justify-between rounded-lg p-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="truncate text-gray-700 dark:text-gray-300">
+                        {token.symbol} <span className="text-gray-400">{token.name}</span>
+                      </div>
+                      {token.spamReasons && token.spamReasons.length > 0 && (
+                        <div className="text-xs text-red-500 dark:text-red-400">
+                          Likely spam: {token.spamReasons.map(reason => SPAM_REASON_LABELS[reason] ?? reason).join(', ')}
+                        </div>
+                      )}
+                    </div>
+                    {onShowToken && (
+                      <Button variant="ghost" size="sm" onClick={() => onShowToken(token)}>
+                        Show
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   )
-}
\ No newline at end of file
+}
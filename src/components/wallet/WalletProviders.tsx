@@ -15,6 +15,8 @@ import {
   base,
 } from 'wagmi/chains'
 
+import { CurrencyProvider } from '@/components/currency/CurrencyProvider'
+
 import '@rainbow-me/rainbowkit/styles.css'
 
 const config = getDefaultConfig({
@@ -38,7 +40,9 @@ export function WalletProviders({ children }: { children: React.ReactNode }) {
             fontStack: 'system',
           })}
         >
-          {children}
+          <CurrencyProvider>
+            {children}
+          </CurrencyProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -2,7 +2,8 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { useAccount } from 'wagmi';
-import { DeFiPosition } from '@/types';
+import { DeFiPosition, LendingAccount } from '@/types';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
 
 interface DeFiPositionsResponse {
   address: string;
@@ -14,6 +15,7 @@ interface DeFiPositionsResponse {
     protocolCount: number;
   };
   positions: DeFiPosition[];
+  lendingAccounts: LendingAccount[];
   protocolBreakdown: Record<string, {
     count: number;
     totalValue: number;
@@ -25,6 +27,7 @@ interface DeFiPositionsResponse {
 
 export function useDeFiPositions() {
   const { address, isConnected } = useAccount();
+  const { currency } = useCurrency();
 
   const {
     data,
@@ -32,11 +35,11 @@ export function useDeFiPositions() {
     error,
     refetch
   } = useQuery<DeFiPositionsResponse>({
-    queryKey: ['defiPositions', address],
+    queryKey: ['defiPositions', address, currency],
     queryFn: async () => {
       if (!address) throw new Error('No wallet address available');
       
-      const response = await fetch(`/api/defi/${address}`);
+      const response = await fetch(`/api/defi/${address}?currency=${currency}`);
       if (!response.ok) {
         throw new Error(`Failed to fetch DeFi positions: ${response.statusText}`);
       }
@@ -49,6 +52,7 @@ export function useDeFiPositions() {
   });
 
   const positions = data?.positions || [];
+  const lendingAccounts = data?.lendingAccounts || [];
   const summary = data?.summary || {
     totalValue: 0,
     totalClaimable: 0,
@@ -66,6 +70,17 @@ export function useDeFiPositions() {
     return positions.filter(pos => pos.type === type);
   };
 
+  // Positions grouped by chain, highest value first within each chain
+  const getPositionsByChain = () => {
+    const byChain: Record<number, DeFiPosition[]> = {};
+    [...positions]
+      .sort((a, b) => b.value - a.value)
+      .forEach(position => {
+        (byChain[position.chainId] ||= []).push(position);
+      });
+    return byChain;
+  };
+
   const getTopPositionsByValue = (limit: number = 5) => {
     return [...positions]
       .sort((a, b) => b.value - a.value)
@@ -82,6 +97,7 @@ export function useDeFiPositions() {
   return {
     // Core data
     positions,
+    lendingAccounts,
     summary,
     protocolBreakdown: data?.protocolBreakdown || {},
     
@@ -94,6 +110,7 @@ export function useDeFiPositions() {
     // Helper functions
     getPositionsByProtocol,
     getPositionsByType,
+    getPositionsByChain,
     getTopPositionsByValue,
     getProtocolSummary,
     refetch,
@@ -0,0 +1,53 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useAccount } from 'wagmi';
+import { NftHolding } from '@/types';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+
+interface NftsResponse {
+  address: string;
+  currency: string;
+  holdings: NftHolding[];
+  totalValue: number;
+  floorSource?: string;
+  errors?: Array<{ chainId: number; error: string }>;
+  timestamp: string;
+  note?: string;
+}
+
+export function useNfts() {
+  const { address, isConnected } = useAccount();
+  const { currency } = useCurrency();
+
+  const { data, isLoading, error, refetch } = useQuery<NftsResponse>({
+    queryKey: ['nfts', address, currency],
+    queryFn: async () => {
+      if (!address) throw new Error('No wallet address available');
+
+      const response = await fetch(`/api/nfts/${address}?chainId=all&currency=${currency}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch NFTs: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    enabled: isConnected && !!address,
+    refetchInterval: 300000, // Floors move slowly; refetch every 5 minutes
+    staleTime: 120000,
+  });
+
+  const holdings = data?.holdings || [];
+
+  return {
+    // Position NFTs are listed separately since their value is counted under DeFi
+    collectibles: holdings.filter(holding => !holding.defiPositionId),
+    positionNfts: holdings.filter(holding => holding.defiPositionId),
+    totalValue: data?.totalValue || 0,
+    floorSource: data?.floorSource,
+    note: data?.note,
+    isLoading,
+    error,
+    refetch,
+  };
+}
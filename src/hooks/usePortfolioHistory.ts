@@ -0,0 +1,92 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useChainId } from 'wagmi';
+import { CandleInterval, PriceCandle, TokenBalance } from '@/types';
+import { useCurrency } from '@/components/currency/CurrencyProvider';
+import { amountToNumber, toTokenAmount } from '@/lib/utils';
+
+export type PerformanceTimeframe = '24h' | '7d' | '30d' | '90d' | '1y';
+
+export interface PortfolioHistoryPoint {
+  timestamp: string;
+  totalValue: number;
+  change: number;
+  changePercent: number;
+}
+
+interface PriceHistoryResponse {
+  coinId: string;
+  interval: CandleInterval;
+  candles: PriceCandle[];
+}
+
+const TIMEFRAMES: Record<PerformanceTimeframe, { interval: CandleInterval; hours: number }> = {
+  '24h': { interval: '1h', hours: 24 },
+  '7d': { interval: '1h', hours: 24 * 7 },
+  '30d': { interval: '1d', hours: 24 * 30 },
+  '90d': { interval: '1d', hours: 24 * 90 },
+  '1y': { interval: '1d', hours: 24 * 365 },
+};
+
+// Values current holdings at historical prices. Balances are held constant, so this
+// shows how today's portfolio would have performed rather than past wallet value.
+export function usePortfolioHistory(tokens: TokenBalance[], timeframe: PerformanceTimeframe) {
+  const chainId = useChainId();
+  const { currency } = useCurrency();
+  const { interval, hours } = TIMEFRAMES[timeframe];
+  const holdings = tokens.filter(token => token.value > 0 && token.price > 0);
+
+  const { data, isLoading, error } = useQuery<PortfolioHistoryPoint[]>({
+    queryKey: ['portfolioHistory', chainId, currency, timeframe, holdings.map(token => `${token.address}:${token.value}`)],
+    queryFn: async () => {
+      const to = new Date();
+      const from = new Date(to.getTime() - hours * 60 * 60 * 1000);
+
+      const series = await Promise.all(holdings.map(async token => {
+        const params = new URLSearchParams({
+          chainId: String(token.chainId ?? chainId),
+          address: token.address,
+          interval,
+          currency,
+          from: from.toISOString(),
+          to: to.toISOString(),
+        });
+
+        const response = await fetch(`/api/prices/history?${params}`);
+        if (!response.ok) {
+          // Tokens without history are left out of the chart
+          return null;
+        }
+
+        const history: PriceHistoryResponse = await response.json();
+        return { amount: amountToNumber(toTokenAmount(token.balance, token.decimals)), candles: history.candles };
+      }));
+
+      const totals = new Map<string, number>();
+      series.forEach(entry => {
+        entry?.candles.forEach(candle => {
+          totals.set(candle.timestamp, (totals.get(candle.timestamp) || 0) + entry.amount * candle.close);
+        });
+      });
+
+      const points = Array.from(totals.entries()).sort(([a], [b]) => a.localeCompare(b));
+      const firstValue = points[0]?.[1] ?? 0;
+
+      return points.map(([timestamp, totalValue]) => ({
+        timestamp,
+        totalValue,
+        change: totalValue - firstValue,
+        changePercent: firstValue > 0 ? ((totalValue - firstValue) / firstValue) * 100 : 0,
+      }));
+    },
+    enabled: holdings.length > 0,
+    staleTime: 5 * 60 * 1000, // Completed candles never change
+  });
+
+  return {
+    history: data || [],
+    isLoading,
+    error,
+  };
+}
@@ -1,20 +1,29 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useMemo } from 'react'
 import { useAccount, useChainId } from 'wagmi'
 import { TokenBalance } from '@/types'
-import { formatUnits } from 'ethers'
+import { tokenRegistry, NATIVE_TOKEN_ADDRESS } from '@/lib/tokens/registry'
+import { toTokenAmount, amountToNumber, amountValue } from '@/lib/utils'
+import { useCurrency } from '@/components/currency/CurrencyProvider'
+import { useTokenPreferences } from './useTokenPreferences'
 
 interface BalanceResponse {
   address: string
   balances: Array<{
+    chainId: number
     address: string
     balance: string
     symbol: string
     name: string
     decimals: number
     logo?: string
+    spamScore?: number
+    spamReasons?: string[]
+    unresolved?: boolean
   }>
+  cursor: string | null
+  total: number
   timestamp: string
 }
 
@@ -22,21 +31,140 @@ interface PriceResponse {
   prices: Record<string, {
     price: number
     change24h: number
+    source: string
+    confidence: 'high' | 'low'
   }>
   timestamp: string
 }
 
-export function useTokenBalances() {
+interface UseTokenBalancesOptions {
+  // Chain to load, or 'all' to aggregate every supported chain. Defaults to the connected chain.
+  chainId?: number | 'all'
+}
+
+interface TokenBalancePage {
+  balances: TokenBalance[]
+  cursor: string | null
+  total: number
+}
+
+// Fetch one page of holdings and price it. Prices are requested per chain, since
+// token addresses are only unique within a chain.
+async function fetchBalancePage(
+  address: string,
+  chainId: number | 'all',
+  currency: string,
+  cursor?: string | null
+): Promise<TokenBalancePage> {
+  const params = new URLSearchParams({ chainId: String(chainId) })
+  if (cursor) params.set('cursor', cursor)
+
+  // Fetch token balances from our API
+  const balancesResponse = await fetch(`/api/balances/${address}?${params}`)
+  if (!balancesResponse.ok) {
+    throw new Error('Failed to fetch balances')
+  }
+  
+  const balancesData: BalanceResponse = await balancesResponse.json()
+
+  const chainIds = Array.from(new Set(balancesData.balances.map(token => token.chainId)))
+  const pricesByChain = new Map<number, PriceResponse['prices']>()
+
+  await Promise.all(chainIds.map(async tokenChainId => {
+    const tokenAddresses = balancesData.balances
+      .filter(token => token.chainId === tokenChainId)
+      .map(token => token.address)
+
+    const pricesResponse = await fetch('/api/prices', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ tokenAddresses, chainId: tokenChainId, currency })
+    })
+
+    const pricesData: PriceResponse = pricesResponse.ok
+      ? await pricesResponse.json()
+      : { prices: {}, timestamp: new Date().toISOString() }
+    pricesByChain.set(tokenChainId, pricesData.prices)
+  }))
+  
+  // Combine balance and price data
+  const balances: TokenBalance[] = balancesData.balances
+    .map(token => {
+      try {
+        // Balances arrive as hex or decimal base units; keep them exact as bigint
+        const amount = toTokenAmount(token.balance, token.decimals)
+        
+        // Skip tokens with very small balances (dust), but always keep the native asset.
+        // Unresolved tokens have placeholder decimals, so their amount means nothing.
+        if (amountToNumber(amount) < 0.00001 && token.address !== NATIVE_TOKEN_ADDRESS && !token.unresolved) {
+          return null
+        }
+        
+        // Get price data
+        const prices = pricesByChain.get(token.chainId) || {}
+        const priceInfo = (!token.unresolved && prices[token.address.toLowerCase()]) ||
+          { price: 0, change24h: 0, confidence: 'high' as const }
+        const value = amountValue(amount, priceInfo.price)
+
+        // Prefer curated registry metadata when the token is known
+        const registered = tokenRegistry.get(token.chainId, token.address)
+        
+        const tokenBalance: TokenBalance = {
+          address: token.address,
+          chainId: token.chainId,
+          symbol: registered?.symbol || token.symbol,
+          name: registered?.name || token.name,
+          balance: amount.raw.toString(),
+          decimals: token.decimals,
+          price: priceInfo.price,
+          value: value,
+          logo: token.logo || registered?.logo,
+          priceConfidence: priceInfo.confidence,
+          spamScore: token.spamScore,
+          spamReasons: token.spamReasons,
+          unresolved: token.unresolved
+        }
+        return tokenBalance
+      } catch (error) {
+        console.error(`Error processing token ${token.symbol}:`, error)
+        return null
+      }
+    })
+    .filter((token): token is TokenBalance => token !== null)
+
+  return { balances, cursor: balancesData.cursor, total: balancesData.total }
+}
+
+// Sort by value descending
+function byValue(a: TokenBalance, b: TokenBalance) {
+  return b.value - a.value
+}
+
+export function useTokenBalances(options: UseTokenBalancesOptions = {}) {
   const { address, isConnected } = useAccount()
-  const chainId = useChainId()
+  const connectedChainId = useChainId()
+  const chainId = options.chainId ?? connectedChainId
+  const { currency, rate } = useCurrency()
+  const { isHidden, hideToken, showToken } = useTokenPreferences()
   
   const [balances, setBalances] = useState<TokenBalance[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Pagination state for wallets with more holdings than one page
+  const [cursor, setCursor] = useState<string | null>(null)
+  const [total, setTotal] = useState(0)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  // Mock balances are priced in USD and converted when read, so an FX refresh
+  // doesn't re-enumerate the wallet
+  const [isMockData, setIsMockData] = useState(false)
 
   useEffect(() => {
     if (!isConnected || !address) {
       setBalances([])
+      setCursor(null)
+      setTotal(0)
       return
     }
 
@@ -45,9 +173,13 @@ export function useTokenBalances() {
       setError(null)
 
       try {
-        // Check if we have a valid Alchemy API key
-        if (!process.env.NEXT_PUBLIC_ALCHEMY_API_KEY && process.env.ALCHEMY_API_KEY !== 'demo-key') {
-          console.log('Using mock data - set ALCHEMY_API_KEY for real data')
+        // Check if we have a valid Alchemy API key or a provider-agnostic balance backend
+        if (
+          !process.env.NEXT_PUBLIC_ALCHEMY_API_KEY &&
+          process.env.ALCHEMY_API_KEY !== 'demo-key' &&
+          process.env.BALANCE_BACKEND !== 'multicall'
+        ) {
+          console.log('Using mock data - set ALCHEMY_API_KEY or BALANCE_BACKEND=multicall for real data')
           
           // Use mock data if no API key is configured
           const mockTokenBalances: TokenBalance[] = [
@@ -55,27 +187,27 @@ export function useTokenBalances() {
               address: '0x0000000000000000000000000000000000000000',
               symbol: 'ETH',
               name: 'Ethereum',
-              balance: '2.5467',
+              balance: '2546700000000000000',
               decimals: 18,
               price: 3200.50,
               value: 8149.58,
               logo: 'https://assets.coingecko.com/coins/images/279/large/ethereum.png'
             },
             {
-              address: '0xA0b86a33E644123456789012345678901234567890',
+              address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
               symbol: 'USDC',
               name: 'USD Coin',
-              balance: '1500.00',
+              balance: '1500000000',
               decimals: 6,
               price: 1.00,
               value: 1500.00,
               logo: 'https://assets.coingecko.com/coins/images/6319/large/USD_Coin_icon.png'
             },
             {
-              address: '0xA0b86a33E644987654321098765432109876543210',
+              address: '0x1f9840a85d5aF5bf1D1762F925BDADdC4201F984',
               symbol: 'UNI',
               name: 'Uniswap',
-              balance: '45.25',
+              balance: '45250000000000000000',
               decimals: 18,
               price: 8.75,
               value: 395.94,
@@ -85,69 +217,17 @@ export function useTokenBalances() {
           
           await new Promise(resolve => setTimeout(resolve, 1000)) // Simulate loading
           setBalances(mockTokenBalances)
+          setIsMockData(true)
+          setCursor(null)
+          setTotal(mockTokenBalances.length)
           return
         }
 
-        // Fetch token balances from our API
-        const balancesResponse = await fetch(`/api/balances/${address}?chainId=${chainId}`)
-        if (!balancesResponse.ok) {
-          throw new Error('Failed to fetch balances')
-        }
-        
-        const balancesData: BalanceResponse = await balancesResponse.json()
-        
-        // Get token addresses for price fetching
-        const tokenAddresses = balancesData.balances.map(token => token.address)
-        
-        // Fetch prices for all tokens
-        const pricesResponse = await fetch('/api/prices', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ tokenAddresses })
-        })
-        
-        const pricesData: PriceResponse = pricesResponse.ok 
-          ? await pricesResponse.json() 
-          : { prices: {}, timestamp: new Date().toISOString() }
-        
-        // Combine balance and price data
-        const tokenBalances: TokenBalance[] = balancesData.balances
-          .map(token => {
-            try {
-              // Convert balance from hex/wei to decimal
-              const balanceInTokens = parseFloat(formatUnits(token.balance, token.decimals))
-              
-              // Skip tokens with very small balances (dust)
-              if (balanceInTokens < 0.00001 && token.symbol !== 'ETH') {
-                return null
-              }
-              
-              // Get price data
-              const priceInfo = pricesData.prices[token.address.toLowerCase()] || { price: 0, change24h: 0 }
-              const value = balanceInTokens * priceInfo.price
-              
-              return {
-                address: token.address,
-                symbol: token.symbol,
-                name: token.name,
-                balance: balanceInTokens.toString(),
-                decimals: token.decimals,
-                price: priceInfo.price,
-                value: value,
-                logo: token.logo || null
-              }
-            } catch (error) {
-              console.error(`Error processing token ${token.symbol}:`, error)
-              return null
-            }
-          })
-          .filter((token): token is TokenBalance => token !== null)
-          .sort((a, b) => b.value - a.value) // Sort by value descending
-          .slice(0, 20) // Limit to top 20 tokens
-        
-        setBalances(tokenBalances)
+        const page = await fetchBalancePage(address, chainId, currency)
+        setBalances([...page.balances].sort(byValue))
+        setIsMockData(false)
+        setCursor(page.cursor)
+        setTotal(page.total)
         
       } catch (err) {
         console.error('Error fetching balances:', err)
@@ -159,15 +239,50 @@ export function useTokenBalances() {
     }
 
     fetchBalances()
-  }, [address, chainId, isConnected])
+  }, [address, chainId, isConnected, currency])
+
+  // Lazy-load the next page of the long tail
+  const loadMore = useCallback(async () => {
+    if (!address || !cursor || isLoadingMore) return
+
+    setIsLoadingMore(true)
+    try {
+      const page = await fetchBalancePage(address, chainId, currency, cursor)
+      setBalances(previous => [...previous, ...page.balances].sort(byValue))
+      setCursor(page.cursor)
+      setTotal(page.total)
+    } catch (err) {
+      console.error('Error loading more balances:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fetch balances')
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [address, chainId, currency, cursor, isLoadingMore])
+
+  // Real balances arrive priced in the reporting currency; mock ones are in USD
+  const convertedBalances = useMemo(() => isMockData
+    ? balances.map(token => ({ ...token, price: token.price * rate, value: token.value * rate }))
+    : balances, [balances, isMockData, rate])
 
-  const totalValue = balances.reduce((sum, token) => sum + token.value, 0)
+  // Spam and user-hidden tokens are kept out of balances and totals so they can't
+  // skew the portfolio; the UI lists them separately
+  const visibleBalances = convertedBalances.filter(token => !isHidden(token))
+  const hiddenBalances = convertedBalances.filter(token => isHidden(token))
+  const totalValue = visibleBalances.reduce((sum, token) => sum + token.value, 0)
 
   return {
-    balances,
+    balances: visibleBalances,
+    hiddenBalances,
+    hideToken,
+    showToken,
     totalValue,
     isLoading,
     error,
+    // Holdings across all pages; balances may hold fewer until loadMore is called
+    total,
+    hasMore: cursor !== null,
+    isLoadingMore,
+    loadMore,
     refetch: () => {
       if (isConnected && address) {
         // Re-trigger the effect by clearing balances
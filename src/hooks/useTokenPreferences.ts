@@ -0,0 +1,65 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { TokenBalance } from '@/types'
+import { getTokenKey } from '@/lib/tokens/registry'
+import { isLikelySpam } from '@/lib/tokens/spam'
+
+const STORAGE_KEY = 'cryptovision:token-preferences'
+
+interface TokenPreferences {
+  allowed: string[] // Token keys always shown, even when flagged as spam
+  denied: string[]  // Token keys always hidden
+}
+
+const EMPTY_PREFERENCES: TokenPreferences = { allowed: [], denied: [] }
+
+function tokenKey(token: TokenBalance) {
+  return getTokenKey(token.chainId ?? 1, token.address)
+}
+
+// User-maintained allow/deny list layered over the spam classifier
+export function useTokenPreferences() {
+  const [preferences, setPreferences] = useState<TokenPreferences>(EMPTY_PREFERENCES)
+
+  // Load after mount to keep server and client renders identical
+  useEffect(() => {
+    try {
+      const saved = window.localStorage.getItem(STORAGE_KEY)
+      if (saved) {
+        const parsed = JSON.parse(saved)
+        setPreferences({
+          allowed: Array.isArray(parsed.allowed) ? parsed.allowed : [],
+          denied: Array.isArray(parsed.denied) ? parsed.denied : []
+        })
+      }
+    } catch (error) {
+      console.warn('Ignoring unreadable token preferences:', error)
+    }
+  }, [])
+
+  const update = useCallback((key: string, list: 'allowed' | 'denied') => {
+    setPreferences(previous => {
+      const next = {
+        allowed: previous.allowed.filter(entry => entry !== key),
+        denied: previous.denied.filter(entry => entry !== key)
+      }
+      next[list].push(key)
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+      return next
+    })
+  }, [])
+
+  const isHidden = useCallback((token: TokenBalance) => {
+    const key = tokenKey(token)
+    if (preferences.denied.includes(key)) return true
+    if (preferences.allowed.includes(key)) return false
+    return isLikelySpam(token.spamScore)
+  }, [preferences])
+
+  return {
+    isHidden,
+    hideToken: (token: TokenBalance) => update(tokenKey(token), 'denied'),
+    showToken: (token: TokenBalance) => update(tokenKey(token), 'allowed')
+  }
+}
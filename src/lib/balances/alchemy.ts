@@ -0,0 +1,73 @@
+import { Alchemy, Network, TokenBalanceType } from 'alchemy-sdk';
+import { NATIVE_TOKEN_ADDRESS } from '@/lib/tokens/registry';
+import { BalanceBackend, TokenHolding } from './types';
+
+// Alchemy networks for each chain in supportedChains
+export const ALCHEMY_BALANCE_NETWORKS: Record<number, Network> = {
+  1: Network.ETH_MAINNET,
+  10: Network.OPT_MAINNET,
+  137: Network.MATIC_MAINNET,
+  8453: Network.BASE_MAINNET,
+  42161: Network.ARB_MAINNET,
+};
+
+// Safety stop for pathological wallets (Alchemy returns 100 tokens per page)
+const MAX_PAGES = 50;
+
+export class AlchemyBalanceBackend implements BalanceBackend {
+  readonly id = 'alchemy';
+  private clients = new Map<number, Alchemy>();
+
+  supportsChain(chainId: number): boolean {
+    return chainId in ALCHEMY_BALANCE_NETWORKS;
+  }
+
+  private getClient(chainId: number): Alchemy {
+    let client = this.clients.get(chainId);
+    if (!client) {
+      client = new Alchemy({
+        apiKey: process.env.ALCHEMY_API_KEY,
+        network: ALCHEMY_BALANCE_NETWORKS[chainId],
+      });
+      this.clients.set(chainId, client);
+    }
+    return client;
+  }
+
+  async getHoldings(chainId: number, owner: string): Promise<TokenHolding[]> {
+    if (!this.supportsChain(chainId)) {
+      throw new Error(`Alchemy balances not available for chain ${chainId}`);
+    }
+
+    const alchemy = this.getClient(chainId);
+
+    // Get native balance
+    const nativeBalance = await alchemy.core.getBalance(owner, 'latest');
+    const holdings: TokenHolding[] = [
+      { chainId, address: NATIVE_TOKEN_ADDRESS, balance: nativeBalance.toString() },
+    ];
+
+    // Follow page keys until every ERC-20 balance has been enumerated
+    let pageKey: string | undefined;
+    let pages = 0;
+    do {
+      const response = await alchemy.core.getTokenBalances(owner, { type: TokenBalanceType.ERC20, pageKey });
+
+      response.tokenBalances.forEach(token => {
+        // Filter out zero balances
+        if (token.tokenBalance && token.tokenBalance !== '0x0' && BigInt(token.tokenBalance) > BigInt(0)) {
+          holdings.push({ chainId, address: token.contractAddress, balance: token.tokenBalance });
+        }
+      });
+
+      pageKey = response.pageKey;
+      pages++;
+    } while (pageKey && pages < MAX_PAGES);
+
+    if (pageKey) {
+      console.warn(`Stopped enumerating balances for ${owner} on chain ${chainId} after ${MAX_PAGES} pages`);
+    }
+
+    return holdings;
+  }
+}
@@ -0,0 +1,59 @@
+import { ethers } from 'ethers';
+import { multicall } from '@/lib/blockchain/multicall';
+import { getProvider, getRpcUrl } from '@/lib/blockchain/providers';
+import { tokenRegistry, NATIVE_TOKEN_ADDRESS } from '@/lib/tokens/registry';
+import { BalanceBackend, TokenHolding } from './types';
+
+const ERC20_INTERFACE = new ethers.Interface([
+  'function balanceOf(address owner) external view returns (uint256)',
+]);
+
+// Scans the token registry with batched balanceOf calls, so any plain JSON-RPC
+// endpoint (including a local anvil/hardhat node) can discover balances. Only
+// tokens in the registry are found; add lists via TOKEN_LIST_URLS to widen coverage.
+export class MulticallBalanceBackend implements BalanceBackend {
+  readonly id = 'multicall';
+
+  supportsChain(chainId: number): boolean {
+    try {
+      getRpcUrl(chainId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getHoldings(chainId: number, owner: string): Promise<TokenHolding[]> {
+    await tokenRegistry.loadConfiguredLists();
+
+    const tokens = tokenRegistry
+      .getTokens(chainId)
+      .filter(token => token.address !== NATIVE_TOKEN_ADDRESS);
+    const callData = ERC20_INTERFACE.encodeFunctionData('balanceOf', [owner]);
+
+    const [nativeBalance, results] = await Promise.all([
+      getProvider(chainId).getBalance(owner),
+      multicall(chainId, tokens.map(token => ({ target: token.address, callData }))),
+    ]);
+
+    const holdings: TokenHolding[] = [
+      { chainId, address: NATIVE_TOKEN_ADDRESS, balance: nativeBalance.toString() },
+    ];
+
+    results.forEach((result, index) => {
+      // Tokens that revert or return malformed data (e.g. not deployed on a local node) are skipped
+      if (!result.success || result.returnData === '0x') return;
+
+      try {
+        const [balance] = ERC20_INTERFACE.decodeFunctionResult('balanceOf', result.returnData);
+        if (balance > BigInt(0)) {
+          holdings.push({ chainId, address: tokens[index].address, balance: balance.toString() });
+        }
+      } catch {
+        // Ignore undecodable results
+      }
+    });
+
+    return holdings;
+  }
+}
@@ -0,0 +1,331 @@
+import { tokenRegistry, getTokenKey, NATIVE_TOKEN_ADDRESS } from '@/lib/tokens/registry';
+import { tokenMetadataService } from '@/lib/tokens/metadata';
+import { spamClassifier } from '@/lib/tokens/spamClassifier';
+import { vaultDetector } from '@/lib/tokens/vaults';
+import { assessSpamReasons, getTextSpamReasons, isLikelySpam } from '@/lib/tokens/spam';
+import { isLiquidStakingToken } from '@/lib/tokens/liquidStaking';
+import { CURVE_CHAIN_ID, getCurveLpTokenKeys } from '@/lib/defi/curvePools';
+import { usesMockDeFiData } from '@/lib/defi/mode';
+import { AlchemyBalanceBackend } from './alchemy';
+import { MulticallBalanceBackend } from './multicall';
+import { BalanceBackend, RawTokenBalance, TokenHolding, VaultHolding } from './types';
+
+// Chains queried by the aggregated "all chains" mode (mirrors supportedChains)
+export const BALANCE_CHAIN_IDS = [1, 137, 10, 42161, 8453];
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+// Enumerated holdings are reused briefly so paging through a wallet doesn't re-scan it
+const HOLDINGS_CACHE_TTL_MS = 30 * 1000;
+
+// Backend IDs accepted in BALANCE_BACKEND, mapped to their constructors
+const BACKEND_FACTORIES: Record<string, () => BalanceBackend> = {
+  alchemy: () => new AlchemyBalanceBackend(),
+  multicall: () => new MulticallBalanceBackend(),
+};
+
+export interface ChainBalanceError {
+  chainId: number;
+  error: string;
+}
+
+export interface BalancePageOptions {
+  cursor?: string | null;
+  limit?: number;
+}
+
+export interface BalancePage {
+  balances: RawTokenBalance[];
+  // Pass back to fetch the next page; null once every holding has been returned
+  cursor: string | null;
+  total: number;
+  totalsByChain: Record<number, number>;
+  errors: ChainBalanceError[];
+}
+
+// Native assets first, then registry tokens (the ones we can usually price), then
+// the long tail. Keeps page order stable so offsets remain valid between requests.
+function holdingRank(holding: TokenHolding): number {
+  if (holding.address === NATIVE_TOKEN_ADDRESS) return 0;
+  return tokenRegistry.has(holding.chainId, holding.address) ? 1 : 2;
+}
+
+export function parseCursor(cursor?: string | null): number {
+  if (!cursor) return 0;
+  const offset = Number(cursor);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error('Invalid cursor');
+  }
+  return offset;
+}
+
+export class BalanceService {
+  private backend: BalanceBackend;
+  private holdingsCache = new Map<string, { holdings: TokenHolding[]; fetchedAt: number }>();
+
+  constructor(backend: BalanceBackend) {
+    this.backend = backend;
+  }
+
+  getBackendId(): string {
+    return this.backend.id;
+  }
+
+  supportsChain(chainId: number): boolean {
+    return this.backend.supportsChain(chainId);
+  }
+
+  private async getHoldings(chainId: number, owner: string): Promise<TokenHolding[]> {
+    const key = `${chainId}:${owner.toLowerCase()}`;
+    const cached = this.holdingsCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < HOLDINGS_CACHE_TTL_MS) {
+      return cached.holdings;
+    }
+
+    const holdings = await this.backend.getHoldings(chainId, owner);
+    this.holdingsCache.set(key, { holdings, fetchedAt: Date.now() });
+    return holdings;
+  }
+
+  // Split ERC-4626 vault shares from plain tokens. Detection is best effort: on
+  // failure every holding on the chain is treated as a plain token. Vault shares
+  // named like bait also stay tokens, where spam classification flags them instead
+  // of the DeFi view listing them.
+  private async partitionHoldings(
+    chainId: number,
+    holdings: TokenHolding[]
+  ): Promise<{ tokens: TokenHolding[]; vaults: VaultHolding[] }> {
+    try {
+      const detected = await vaultDetector.detect(chainId, holdings.map(holding => holding.address));
+      const metadata = await tokenMetadataService.getMetadata(
+        chainId,
+        holdings.filter(holding => detected.has(getTokenKey(chainId, holding.address))).map(holding => holding.address)
+      );
+      const looksLikeSpam = (address: string) => {
+        const info = metadata.get(getTokenKey(chainId, address));
+        return !!info && isLikelySpam(assessSpamReasons(getTextSpamReasons(info.symbol, info.name)).score);
+      };
+
+      const tokens: TokenHolding[] = [];
+      const vaults: VaultHolding[] = [];
+      holdings.forEach(holding => {
+        const vault = detected.get(getTokenKey(chainId, holding.address));
+        if (vault && !looksLikeSpam(holding.address)) {
+          vaults.push({ ...holding, asset: vault.asset });
+        } else {
+          tokens.push(holding);
+        }
+      });
+      return { tokens, vaults };
+    } catch (error) {
+      console.warn(`ERC-4626 vault detection failed on chain ${chainId}:`, error);
+      return { tokens: holdings, vaults: [] };
+    }
+  }
+
+  private async getCurveLpTokens(chainId: number): Promise<Set<string>> {
+    if (chainId !== CURVE_CHAIN_ID) return new Set();
+    try {
+      return await getCurveLpTokenKeys();
+    } catch (error) {
+      console.warn('Curve pool index unavailable, keeping LP tokens in balances:', error);
+      return new Set();
+    }
+  }
+
+  // Holdings listed on balance pages. Liquid staking tokens, Curve LP tokens and
+  // vault shares are valued as DeFi positions and left out, so the portfolio doesn't
+  // count them twice. Curve lookups are best effort: on failure LP tokens stay.
+  private async getPageHoldings(chainId: number, owner: string): Promise<TokenHolding[]> {
+    const holdings = await this.getHoldings(chainId, owner);
+    // Mock DeFi data doesn't cover any of the wallet's real holdings
+    if (usesMockDeFiData()) {
+      return holdings;
+    }
+
+    const lpTokens = await this.getCurveLpTokens(chainId);
+    const { tokens } = await this.partitionHoldings(chainId, holdings.filter(holding =>
+      !isLiquidStakingToken(chainId, holding.address) && !lpTokens.has(getTokenKey(chainId, holding.address))
+    ));
+    return tokens;
+  }
+
+  // Liquid staking tokens held on each requested chain, valued as staking positions
+  async getLiquidStakingHoldings(chainIds: number[], owner: string): Promise<TokenHolding[]> {
+    const results = await Promise.all(chainIds.map(async chainId => {
+      try {
+        return (await this.getHoldings(chainId, owner)).filter(holding => isLiquidStakingToken(chainId, holding.address));
+      } catch (error) {
+        console.warn(`Error fetching liquid staking holdings on chain ${chainId}:`, error);
+        return [];
+      }
+    }));
+    return results.flat();
+  }
+
+  // Curve LP tokens held in the wallet, valued as Curve positions
+  async getCurveLpHoldings(owner: string): Promise<TokenHolding[]> {
+    try {
+      const lpTokens = await getCurveLpTokenKeys();
+      return (await this.getHoldings(CURVE_CHAIN_ID, owner))
+        .filter(holding => lpTokens.has(getTokenKey(CURVE_CHAIN_ID, holding.address)));
+    } catch (error) {
+      console.warn('Error fetching Curve LP holdings:', error);
+      return [];
+    }
+  }
+
+  // Vault shares held on each requested chain, valued as DeFi positions
+  async getVaultHoldings(chainIds: number[], owner: string): Promise<VaultHolding[]> {
+    const results = await Promise.all(chainIds.map(async chainId => {
+      try {
+        return (await this.partitionHoldings(chainId, await this.getHoldings(chainId, owner))).vaults;
+      } catch (error) {
+        console.warn(`Error fetching vault holdings on chain ${chainId}:`, error);
+        return [];
+      }
+    }));
+    return results.flat();
+  }
+
+  // Enumerate holdings on every requested chain and return one page of them with
+  // metadata. A failing chain is reported instead of failing the whole portfolio,
+  // so one flaky RPC doesn't hide balances on the others.
+  async getBalancePage(chainIds: number[], owner: string, options: BalancePageOptions = {}): Promise<BalancePage> {
+    const offset = parseCursor(options.cursor);
+    const limit = Math.min(Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+
+    await tokenRegistry.loadConfiguredLists();
+
+    const results = await Promise.allSettled(chainIds.map(chainId => this.getPageHoldings(chainId, owner)));
+
+    const holdings: TokenHolding[] = [];
+    const totalsByChain: Record<number, number> = {};
+    const errors: ChainBalanceError[] = [];
+
+    results.forEach((result, index) => {
+      const chainId = chainIds[index];
+      if (result.status === 'fulfilled') {
+        holdings.push(...result.value);
+        totalsByChain[chainId] = result.value.length;
+      } else {
+        console.error(`Error fetching balances on chain ${chainId}:`, result.reason);
+        errors.push({
+          chainId,
+          error: result.reason instanceof Error ? result.reason.message : 'Failed to fetch balances',
+        });
+      }
+    });
+
+    holdings.sort((a, b) =>
+      holdingRank(a) - holdingRank(b) ||
+      a.chainId - b.chainId ||
+      a.address.toLowerCase().localeCompare(b.address.toLowerCase())
+    );
+
+    // Only the tokens on this page need metadata
+    const page = holdings.slice(offset, offset + limit);
+    const metadataByChain = new Map(await Promise.all(
+      Array.from(new Set(page.map(holding => holding.chainId))).map(async chainId => [
+        chainId,
+        await tokenMetadataService.getMetadata(
+          chainId,
+          page.filter(holding => holding.chainId === chainId && holding.address !== NATIVE_TOKEN_ADDRESS)
+            .map(holding => holding.address)
+        ),
+      ] as const)
+    ));
+
+    const balances: RawTokenBalance[] = [];
+    page.forEach(holding => {
+      if (holding.address === NATIVE_TOKEN_ADDRESS) {
+        // The native asset differs per chain (ETH on mainnet and L2s, POL on Polygon)
+        const native = tokenRegistry.getNativeToken(holding.chainId);
+        balances.push({
+          ...holding,
+          symbol: native?.symbol || 'ETH',
+          name: native?.name || 'Ether',
+          decimals: native?.decimals || 18,
+          logo: native?.logo ?? null,
+        });
+        return;
+      }
+
+      const metadata = metadataByChain.get(holding.chainId)?.get(getTokenKey(holding.chainId, holding.address));
+      // Still listed, so the page agrees with the total; without decimals it can't be valued
+      if (!metadata) {
+        console.warn(`Token metadata unavailable for ${holding.address} on chain ${holding.chainId}`);
+        balances.push({
+          ...holding,
+          symbol: 'UNKNOWN',
+          name: 'Unknown Token',
+          decimals: 18,
+          logo: null,
+          unresolved: true,
+        });
+        return;
+      }
+
+      balances.push({
+        ...holding,
+        symbol: metadata.symbol,
+        name: metadata.name,
+        decimals: metadata.decimals,
+        logo: metadata.logo ?? null,
+      });
+    });
+
+    await this.classifySpam(owner, balances);
+
+    const nextOffset = offset + page.length;
+    return {
+      balances,
+      cursor: nextOffset < holdings.length ? String(nextOffset) : null,
+      total: holdings.length,
+      totalsByChain,
+      errors,
+    };
+  }
+
+  // Attach spam scores in place. Classification is best effort: on failure the
+  // balances are returned unscored rather than dropped.
+  private async classifySpam(owner: string, balances: RawTokenBalance[]): Promise<void> {
+    const chainIds = Array.from(new Set(balances.map(balance => balance.chainId)));
+
+    await Promise.all(chainIds.map(async chainId => {
+      try {
+        const assessments = await spamClassifier.classify(
+          chainId,
+          owner,
+          balances.filter(balance => balance.chainId === chainId)
+        );
+        balances.forEach(balance => {
+          const assessment = assessments.get(getTokenKey(balance.chainId, balance.address));
+          if (balance.chainId === chainId && assessment) {
+            balance.spamScore = assessment.score;
+            balance.spamReasons = assessment.reasons;
+          }
+        });
+      } catch (error) {
+        console.warn(`Spam classification failed on chain ${chainId}:`, error);
+      }
+    }));
+  }
+}
+
+// Factory function. BALANCE_BACKEND picks the backend; without it, Alchemy is used when
+// a key is configured and Multicall3 over plain RPC otherwise.
+export function createBalanceService(
+  backendId: string = process.env.BALANCE_BACKEND || (process.env.ALCHEMY_API_KEY ? 'alchemy' : 'multicall')
+): BalanceService {
+  const factory = BACKEND_FACTORIES[backendId.trim().toLowerCase()];
+  if (!factory) {
+    console.warn(`Unknown balance backend "${backendId}", falling back to multicall`);
+    return new BalanceService(new MulticallBalanceBackend());
+  }
+  return new BalanceService(factory());
+}
+
+// Export singleton instance
+export const balanceService = createBalanceService();
@@ -0,0 +1,31 @@
+import { SpamReason } from '@/lib/tokens/spam';
+
+// Non-zero balance of one asset held by a wallet, in raw base units
+export interface TokenHolding {
+  chainId: number;
+  address: string;
+  balance: string; // Base units as a decimal or hex string
+}
+
+// Holding of ERC-4626 vault shares, with the asset they redeem for
+export interface VaultHolding extends TokenHolding {
+  asset: string;
+}
+
+// Holding enriched with token metadata and a spam classification
+export interface RawTokenBalance extends TokenHolding {
+  symbol: string;
+  name: string;
+  decimals: number;
+  logo?: string | null;
+  spamScore?: number;
+  spamReasons?: SpamReason[];
+  unresolved?: boolean; // Metadata couldn't be read; symbol and decimals are placeholders
+}
+
+export interface BalanceBackend {
+  readonly id: string;
+  supportsChain(chainId: number): boolean;
+  // Every holding on the chain, native asset first. Metadata is resolved separately.
+  getHoldings(chainId: number, owner: string): Promise<TokenHolding[]>;
+}
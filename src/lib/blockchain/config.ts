@@ -17,5 +17,9 @@ export const config = getDefaultConfig({
 // Supported chains for the application
 export const supportedChains = [mainnet, polygon, optimism, arbitrum, base]
 
+export function getChainName(chainId: number) {
+  return supportedChains.find(chain => chain.id === chainId)?.name || `Chain ${chainId}`
+}
+
 // Default chain (Ethereum mainnet)
 export const defaultChain = mainnet
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { ethers } from 'ethers';
+import { getProvider } from './providers';
+
+// Multicall3 is deployed at the same address on every major chain
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+// Calls per aggregate3 request; keeps each eth_call well under node gas and size limits
+const DEFAULT_BATCH_SIZE = 500;
+
+export interface MulticallRequest {
+  target: string;
+  callData: string;
+}
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+const multicallAvailable = new Map<number, boolean>();
+
+// Bare local nodes (anvil/hardhat without a fork) don't have Multicall3 deployed
+async function hasMulticall(chainId: number): Promise<boolean> {
+  let available = multicallAvailable.get(chainId);
+  if (available === undefined) {
+    const code = await getProvider(chainId).getCode(MULTICALL3_ADDRESS);
+    available = code !== '0x';
+    multicallAvailable.set(chainId, available);
+  }
+  return available;
+}
+
+// Execute read-only calls in batches through Multicall3. Individual failures are
+// reported per call rather than reverting the batch. Falls back to one eth_call
+// per request on chains where Multicall3 isn't deployed.
+export async function multicall(
+  chainId: number,
+  calls: MulticallRequest[],
+  batchSize = DEFAULT_BATCH_SIZE
+): Promise<MulticallResult[]> {
+  if (calls.length === 0) return [];
+
+  const provider = getProvider(chainId);
+
+  if (!(await hasMulticall(chainId))) {
+    return Promise.all(calls.map(async ({ target, callData }) => {
+      try {
+        return { success: true, returnData: await provider.call({ to: target, data: callData }) };
+      } catch {
+        return { success: false, returnData: '0x' };
+      }
+    }));
+  }
+
+  const multicallContract = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  const results: MulticallResult[] = [];
+
+  for (let i = 0; i < calls.length; i += batchSize) {
+    const batch = calls.slice(i, i + batchSize);
+    const response = await multicallContract.aggregate3.staticCall(
+      batch.map(({ target, callData }) => ({ target, allowFailure: true, callData }))
+    );
+    response.forEach((result: { success: boolean; returnData: string }) => {
+      results.push({ success: result.success, returnData: result.returnData });
+    });
+  }
+
+  return results;
+}
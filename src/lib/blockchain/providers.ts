@@ -0,0 +1,48 @@
+import { ethers } from 'ethers';
+
+// Alchemy subdomains for each supported chain
+const ALCHEMY_NETWORKS: Record<number, string> = {
+  1: 'eth-mainnet',
+  10: 'opt-mainnet',
+  137: 'polygon-mainnet',
+  8453: 'base-mainnet',
+  42161: 'arb-mainnet',
+};
+
+// Public endpoints used when no Alchemy key is configured
+const PUBLIC_RPCS: Record<number, string> = {
+  1: 'https://eth-mainnet.g.alchemy.com/v2/demo',
+  10: 'https://mainnet.optimism.io',
+  137: 'https://polygon-rpc.com',
+  8453: 'https://mainnet.base.org',
+  42161: 'https://arb1.arbitrum.io/rpc',
+};
+
+// RPC URL for a chain. RPC_URL_<chainId> overrides everything (e.g. a local anvil node).
+export function getRpcUrl(chainId: number): string {
+  const override = process.env[`RPC_URL_${chainId}`];
+  if (override) return override;
+
+  const alchemyKey = process.env.ALCHEMY_API_KEY;
+  if (alchemyKey && ALCHEMY_NETWORKS[chainId]) {
+    return `https://${ALCHEMY_NETWORKS[chainId]}.g.alchemy.com/v2/${alchemyKey}`;
+  }
+
+  const publicRpc = PUBLIC_RPCS[chainId];
+  if (!publicRpc) {
+    throw new Error(`No RPC endpoint configured for chain ${chainId}`);
+  }
+  return publicRpc;
+}
+
+const providers = new Map<number, ethers.JsonRpcProvider>();
+
+// Shared provider per chain so services and price sources reuse connections
+export function getProvider(chainId: number): ethers.JsonRpcProvider {
+  let provider = providers.get(chainId);
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(getRpcUrl(chainId), chainId, { staticNetwork: true });
+    providers.set(chainId, provider);
+  }
+  return provider;
+}
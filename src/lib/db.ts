@@ -0,0 +1,15 @@
+import { PrismaClient } from '@prisma/client';
+
+// Reuse one client across hot reloads in development
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+export function isDatabaseConfigured(): boolean {
+  return !!process.env.DATABASE_URL;
+}
+
+export function getPrisma(): PrismaClient {
+  if (!globalForPrisma.prisma) {
+    globalForPrisma.prisma = new PrismaClient();
+  }
+  return globalForPrisma.prisma;
+}
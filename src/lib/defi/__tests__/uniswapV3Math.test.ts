@@ -0,0 +1,102 @@
+import {
+  MIN_TICK,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MAX_SQRT_RATIO,
+  Q96,
+  Q128,
+  getSqrtRatioAtTick,
+  getPositionAmounts,
+  getFeeGrowthInside,
+  getFeesEarned,
+} from '../uniswapV3Math';
+
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+describe('getSqrtRatioAtTick', () => {
+  it('matches TickMath at the tick bounds', () => {
+    expect(getSqrtRatioAtTick(MIN_TICK)).toBe(MIN_SQRT_RATIO);
+    expect(getSqrtRatioAtTick(MAX_TICK)).toBe(MAX_SQRT_RATIO);
+  });
+
+  it('returns Q96 at tick 0', () => {
+    expect(getSqrtRatioAtTick(0)).toBe(Q96);
+  });
+
+  it('rounds up like the contract', () => {
+    expect(getSqrtRatioAtTick(50)).toBe(79426470787362580746886972461n);
+    expect(getSqrtRatioAtTick(-60)).toBe(78990846045029531151608375686n);
+    expect(getSqrtRatioAtTick(60)).toBe(79466191966197645195421774833n);
+  });
+
+  it('rejects ticks outside the range', () => {
+    expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).toThrow();
+    expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow();
+    expect(() => getSqrtRatioAtTick(1.5)).toThrow();
+  });
+});
+
+describe('getPositionAmounts', () => {
+  // 1e18 liquidity over [-60, 60]
+  const liquidity = 10n ** 18n;
+
+  it('holds only token0 below the range', () => {
+    expect(getPositionAmounts(getSqrtRatioAtTick(-120), -60, 60, liquidity)).toEqual({
+      amount0: 5999709018652706n,
+      amount1: 0n,
+    });
+  });
+
+  it('holds both tokens in range', () => {
+    expect(getPositionAmounts(Q96, -60, 60, liquidity)).toEqual({
+      amount0: 2995354955910780n,
+      amount1: 2995354955910780n,
+    });
+  });
+
+  it('holds only token1 above the range', () => {
+    expect(getPositionAmounts(getSqrtRatioAtTick(120), -60, 60, liquidity)).toEqual({
+      amount0: 0n,
+      amount1: 5999709018652706n,
+    });
+  });
+
+  it('treats the upper bound as out of range', () => {
+    expect(getPositionAmounts(getSqrtRatioAtTick(60), -60, 60, liquidity).amount0).toBe(0n);
+  });
+});
+
+describe('getFeeGrowthInside', () => {
+  it('subtracts growth below and above when the price is in range', () => {
+    expect(getFeeGrowthInside(0, -60, 60, 100n, 30n, 20n)).toBe(50n);
+  });
+
+  it('uses the lower bound outside growth when the price is below the range', () => {
+    // below = global - outsideLower = 70, above = outsideUpper = 20
+    expect(getFeeGrowthInside(-120, -60, 60, 100n, 30n, 20n)).toBe(10n);
+  });
+
+  it('uses the upper bound outside growth when the price is above the range', () => {
+    // below = outsideLower = 30, above = global - outsideUpper = 10
+    expect(getFeeGrowthInside(120, -60, 60, 100n, 30n, 90n)).toBe(60n);
+  });
+
+  it('wraps around uint256 like the pool does', () => {
+    // Outside growth recorded before the global accumulator overflowed
+    expect(getFeeGrowthInside(0, -60, 60, 5n, MAX_UINT256 - 4n, 0n)).toBe(10n);
+  });
+});
+
+describe('getFeesEarned', () => {
+  it('scales fee growth by liquidity in Q128', () => {
+    expect(getFeesEarned(3n * Q128, Q128, 5n)).toBe(10n);
+  });
+
+  it('rounds down', () => {
+    expect(getFeesEarned(Q128 - 1n, 0n, 1n)).toBe(0n);
+  });
+
+  it('handles the accumulator wrapping past uint256', () => {
+    expect(getFeesEarned(Q128, MAX_UINT256 - Q128 + 1n, 3n)).toBe(6n);
+  });
+});
@@ -0,0 +1,483 @@
+import { ethers } from 'ethers';
+import { AavePosition, AaveReserve, DeFiPosition, LendingAccount, TokenBalance } from '@/types';
+import { getTokenKey } from '@/lib/tokens/registry';
+import { tokenMetadataService } from '@/lib/tokens/metadata';
+import { getProvider } from '@/lib/blockchain/providers';
+import { multicall } from '@/lib/blockchain/multicall';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import { toTokenAmount, amountValue } from '@/lib/utils';
+import { buildLendingAccount, LendingAccountPositions } from './lendingAccount';
+
+// PoolAddressesProvider per chain; the Pool, data provider and oracle are resolved through it
+export const AAVE_V3_ADDRESSES_PROVIDERS: Record<number, string> = {
+  1: '0x2f39d218133AFaB8F2B819B1066c7E434Ad94E9e',
+  10: '0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb',
+  137: '0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb',
+  8453: '0xe20fCBdBfFC4Dd138cE8b2E6FBb6CB49777ad64D',
+  42161: '0xa97684ead0e402dC232d5A977953DF7ECBaB3CDb',
+};
+
+export const AAVE_V3_CHAIN_IDS = Object.keys(AAVE_V3_ADDRESSES_PROVIDERS).map(Number);
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+const RAY = 10n ** 27n;
+
+// Aave V3 oracles quote USD with 8 decimals; account data uses the same base currency
+const BASE_CURRENCY_DECIMALS = 8;
+
+// Reserve lists and configurations change only through governance
+const RESERVES_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const ADDRESSES_PROVIDER_ABI = [
+  'function getPool() external view returns (address)',
+  'function getPoolDataProvider() external view returns (address)',
+  'function getPriceOracle() external view returns (address)',
+];
+
+const POOL_ABI = [
+  'function getReservesList() external view returns (address[])',
+  'function getUserAccountData(address user) external view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)',
+  'function getUserEMode(address user) external view returns (uint256)',
+  'function getEModeCategoryCollateralConfig(uint8 id) external view returns (tuple(uint16 ltv, uint16 liquidationThreshold, uint16 liquidationBonus))',
+  'function getEModeCategoryLabel(uint8 id) external view returns (string)',
+  'function getEModeCategoryData(uint8 id) external view returns (tuple(uint16 ltv, uint16 liquidationThreshold, uint16 liquidationBonus, address priceSource, string label))',
+  'function getEModeCategoryCollateralBitmap(uint8 id) external view returns (uint128)',
+];
+
+// Only the reserve ID is read; the layout is shared by v3.0 ReserveData and v3.2+ ReserveDataLegacy
+const POOL_INTERFACE = new ethers.Interface([
+  'function getReserveData(address asset) external view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))',
+]);
+
+const DATA_PROVIDER_INTERFACE = new ethers.Interface([
+  'function getReserveTokensAddresses(address asset) external view returns (address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress)',
+  'function getReserveConfigurationData(address asset) external view returns (uint256 decimals, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, uint256 reserveFactor, bool usageAsCollateralEnabled, bool borrowingEnabled, bool stableBorrowRateEnabled, bool isActive, bool isFrozen)',
+  'function getReserveData(address asset) external view returns (uint256 unbacked, uint256 accruedToTreasuryScaled, uint256 totalAToken, uint256 totalStableDebt, uint256 totalVariableDebt, uint256 liquidityRate, uint256 variableBorrowRate, uint256 stableBorrowRate, uint256 averageStableBorrowRate, uint256 liquidityIndex, uint256 variableBorrowIndex, uint40 lastUpdateTimestamp)',
+  'function getUserReserveData(address asset, address user) external view returns (uint256 currentATokenBalance, uint256 currentStableDebt, uint256 currentVariableDebt, uint256 principalStableDebt, uint256 scaledVariableDebt, uint256 stableBorrowRate, uint256 liquidityRate, uint40 stableRateLastUpdated, bool usageAsCollateralEnabled)',
+  // Removed in v3.2, where a category lists its collateral in a bitmap instead
+  'function getReserveEModeCategory(address asset) external view returns (uint256)',
+]);
+
+const ORACLE_ABI = [
+  'function getAssetsPrices(address[] assets) external view returns (uint256[])',
+];
+
+// aTokens point at the RewardsController that distributes their incentives
+const ATOKEN_ABI = [
+  'function getIncentivesController() external view returns (address)',
+];
+
+const REWARDS_CONTROLLER_ABI = [
+  'function getAllUserRewards(address[] assets, address user) external view returns (address[] rewardsList, uint256[] unclaimedAmounts)',
+];
+
+interface AaveContracts {
+  pool: ethers.Contract;
+  dataProvider: string;
+  oracle: ethers.Contract;
+}
+
+interface AaveReserveConfig {
+  id: number; // Reserve index, the bit position in e-mode collateral bitmaps
+  asset: string;
+  symbol: string;
+  name: string;
+  logo?: string;
+  decimals: number;
+  aToken: string;
+  variableDebtToken: string;
+  liquidationThreshold: number; // Fraction
+}
+
+interface UserReserve {
+  config: AaveReserveConfig;
+  supplied: bigint;
+  borrowed: bigint;
+  stableDebt: bigint;
+  stableBorrowRate: bigint;
+  isCollateral: boolean;
+}
+
+interface AaveV3Service {
+  getPositions(walletAddress: string): Promise<DeFiPosition[]>;
+  getAccountPositions(walletAddress: string): Promise<LendingAccountPositions>;
+}
+
+// Per-second compounding of a ray-denominated APR, as the Aave UI displays it
+function rayToApy(rate: bigint): number {
+  const apr = Number((rate * 10n ** 9n) / RAY) / 1e9;
+  return (Math.pow(1 + apr / SECONDS_PER_YEAR, SECONDS_PER_YEAR) - 1) * 100;
+}
+
+export class AaveV3Integration implements AaveV3Service {
+  readonly chainId: number;
+  private provider: ethers.Provider;
+  private addressesProvider: ethers.Contract;
+  private contracts: Promise<AaveContracts> | null = null;
+  private reservesCache: { reserves: AaveReserveConfig[]; fetchedAt: number } | null = null;
+
+  constructor(chainId: number, provider: ethers.Provider) {
+    const addressesProvider = AAVE_V3_ADDRESSES_PROVIDERS[chainId];
+    if (!addressesProvider) {
+      throw new Error(`Aave V3 is not deployed on chain ${chainId}`);
+    }
+    this.chainId = chainId;
+    this.provider = provider;
+    this.addressesProvider = new ethers.Contract(addressesProvider, ADDRESSES_PROVIDER_ABI, provider);
+  }
+
+  async getPositions(walletAddress: string): Promise<DeFiPosition[]> {
+    return (await this.getAccountPositions(walletAddress)).positions;
+  }
+
+  // Aave V3 keeps one cross-collateralized account per market, reported as a single position
+  async getAccountPositions(walletAddress: string): Promise<LendingAccountPositions> {
+    try {
+      const { pool, dataProvider, oracle } = await this.getContracts();
+
+      const accountData = await pool.getUserAccountData(walletAddress);
+      if (accountData.totalCollateralBase === 0n && accountData.totalDebtBase === 0n) {
+        return { positions: [], account: null };
+      }
+
+      const reserves = await this.getUserReserves(walletAddress, dataProvider);
+      if (reserves.length === 0) {
+        return { positions: [], account: null };
+      }
+
+      const assets = reserves.map(reserve => reserve.config.asset);
+      const [priceMantissas, rates, { eMode, eModeAssets }, rewards] = await Promise.all([
+        oracle.getAssetsPrices(assets) as Promise<bigint[]>,
+        this.getReserveRates(assets, dataProvider),
+        this.getEMode(walletAddress, pool, dataProvider, reserves),
+        this.getRewards(walletAddress, reserves),
+      ]);
+      const prices = priceMantissas.map(price => parseFloat(ethers.formatUnits(price, BASE_CURRENCY_DECIMALS)));
+
+      const supplied: TokenBalance[] = [];
+      const borrowed: TokenBalance[] = [];
+      const aaveReserves: AaveReserve[] = [];
+      let yearlySupplyEarnings = 0;
+      let yearlyBorrowCost = 0;
+
+      reserves.forEach((reserve, index) => {
+        const { config } = reserve;
+        const price = prices[index];
+        const supplyAPY = rayToApy(rates[index].liquidityRate);
+        // Stable debt (legacy) accrues at the user's own locked rate
+        const variableDebt = reserve.borrowed - reserve.stableDebt;
+        const borrowAPY = reserve.borrowed > 0n
+          ? (rayToApy(rates[index].variableBorrowRate) * Number(variableDebt) +
+            rayToApy(reserve.stableBorrowRate) * Number(reserve.stableDebt)) / Number(reserve.borrowed)
+          : rayToApy(rates[index].variableBorrowRate);
+
+        const toBalance = (raw: bigint): TokenBalance => ({
+          address: config.asset,
+          chainId: this.chainId,
+          symbol: config.symbol,
+          name: config.name,
+          balance: raw.toString(),
+          decimals: config.decimals,
+          price,
+          value: amountValue(toTokenAmount(raw, config.decimals), price),
+          logo: config.logo,
+        });
+
+        if (reserve.supplied > 0n) {
+          const balance = toBalance(reserve.supplied);
+          supplied.push(balance);
+          yearlySupplyEarnings += balance.value * supplyAPY / 100;
+        }
+        if (reserve.borrowed > 0n) {
+          const balance = toBalance(reserve.borrowed);
+          borrowed.push(balance);
+          yearlyBorrowCost += balance.value * borrowAPY / 100;
+        }
+
+        aaveReserves.push({
+          asset: config.asset,
+          symbol: config.symbol,
+          supplyAPY,
+          borrowAPY,
+          isCollateral: reserve.isCollateral,
+          // In e-mode the category threshold replaces the reserve's own, for the category's collateral only
+          liquidationThreshold: eMode && eModeAssets.has(config.asset)
+            ? eMode.liquidationThreshold
+            : config.liquidationThreshold,
+        });
+      });
+
+      const suppliedValue = supplied.reduce((sum, token) => sum + token.value, 0);
+      const borrowedValue = borrowed.reduce((sum, token) => sum + token.value, 0);
+      const netValue = suppliedValue - borrowedValue;
+      // Aave's net APY: yearly earnings less borrow cost, relative to net worth
+      const netAPY = netValue > 0 ? ((yearlySupplyEarnings - yearlyBorrowCost) / netValue) * 100 : 0;
+
+      const aavePosition: AavePosition = {
+        market: await pool.getAddress(),
+        supplied,
+        borrowed,
+        reserves: aaveReserves,
+        healthFactor: accountData.totalDebtBase > 0n
+          ? parseFloat(ethers.formatUnits(accountData.healthFactor, 18))
+          : null,
+        netAPY,
+        eMode,
+        rewards,
+      };
+
+      const position: DeFiPosition = {
+        id: `aave-v3-${this.chainId}`,
+        chainId: this.chainId,
+        protocol: 'aave',
+        type: 'lending',
+        tokens: supplied,
+        apy: netAPY,
+        value: netValue, // Signed, so an underwater account's debt reduces totals
+        claimable: rewards?.reduce((sum, reward) => sum + reward.value, 0) || 0,
+        metadata: aavePosition,
+      };
+
+      // Anchor the account to the Pool's own liquidation math (weighted liquidation threshold)
+      const { totalCollateralBase, totalDebtBase, currentLiquidationThreshold }: Record<string, bigint> = accountData;
+      const liquidity = parseFloat(ethers.formatUnits(
+        (totalCollateralBase * currentLiquidationThreshold) / 10000n - totalDebtBase,
+        BASE_CURRENCY_DECIMALS
+      ));
+
+      return { positions: [position], account: buildAaveAccount(position, liquidity) };
+    } catch (error) {
+      console.error(`Error fetching Aave V3 positions on chain ${this.chainId}:`, error);
+      return { positions: [], account: null };
+    }
+  }
+
+  private getContracts(): Promise<AaveContracts> {
+    if (!this.contracts) {
+      this.contracts = Promise.all([
+        this.addressesProvider.getPool(),
+        this.addressesProvider.getPoolDataProvider(),
+        this.addressesProvider.getPriceOracle(),
+      ]).then(([pool, dataProvider, oracle]) => ({
+        pool: new ethers.Contract(pool, POOL_ABI, this.provider),
+        dataProvider,
+        oracle: new ethers.Contract(oracle, ORACLE_ABI, this.provider),
+      }));
+      // Retry on the next call rather than caching a failed lookup
+      this.contracts.catch(() => {
+        this.contracts = null;
+      });
+    }
+    return this.contracts;
+  }
+
+  // Every listed reserve with its token addresses, metadata and liquidation threshold
+  private async getReserves(dataProvider: string): Promise<AaveReserveConfig[]> {
+    if (this.reservesCache && Date.now() - this.reservesCache.fetchedAt < RESERVES_CACHE_TTL_MS) {
+      return this.reservesCache.reserves;
+    }
+
+    const { pool } = await this.getContracts();
+    const [poolAddress, assets]: [string, string[]] = await Promise.all([pool.getAddress(), pool.getReservesList()]);
+    const results = await multicall(this.chainId, assets.flatMap(asset => [
+      { target: dataProvider, callData: DATA_PROVIDER_INTERFACE.encodeFunctionData('getReserveTokensAddresses', [asset]) },
+      { target: dataProvider, callData: DATA_PROVIDER_INTERFACE.encodeFunctionData('getReserveConfigurationData', [asset]) },
+      { target: poolAddress, callData: POOL_INTERFACE.encodeFunctionData('getReserveData', [asset]) },
+    ]));
+    const metadata = await tokenMetadataService.getMetadata(this.chainId, assets);
+
+    const reserves = assets.flatMap((asset, index) => {
+      const [tokensResult, configResult, dataResult] = results.slice(index * 3, index * 3 + 3);
+      const info = metadata.get(getTokenKey(this.chainId, asset));
+      if (!tokensResult.success || !configResult.success || !dataResult.success || !info) {
+        console.warn(`Skipping Aave V3 reserve ${asset} on chain ${this.chainId}: failed to read reserve details`);
+        return [];
+      }
+      const tokens = DATA_PROVIDER_INTERFACE.decodeFunctionResult('getReserveTokensAddresses', tokensResult.returnData);
+      const config = DATA_PROVIDER_INTERFACE.decodeFunctionResult('getReserveConfigurationData', configResult.returnData);
+      const data = POOL_INTERFACE.decodeFunctionResult('getReserveData', dataResult.returnData)[0];
+      return [{
+        id: Number(data.id),
+        asset,
+        symbol: info.symbol,
+        name: info.name,
+        logo: info.logo,
+        decimals: Number(config.decimals),
+        aToken: tokens.aTokenAddress as string,
+        variableDebtToken: tokens.variableDebtTokenAddress as string,
+        liquidationThreshold: Number(config.liquidationThreshold) / 10000,
+      }];
+    });
+
+    this.reservesCache = { reserves, fetchedAt: Date.now() };
+    return reserves;
+  }
+
+  // Reserves the wallet supplies to or borrows from
+  private async getUserReserves(walletAddress: string, dataProvider: string): Promise<UserReserve[]> {
+    const reserves = await this.getReserves(dataProvider);
+    const results = await multicall(this.chainId, reserves.map(reserve => ({
+      target: dataProvider,
+      callData: DATA_PROVIDER_INTERFACE.encodeFunctionData('getUserReserveData', [reserve.asset, walletAddress]),
+    })));
+
+    return reserves.flatMap((config, index) => {
+      if (!results[index].success) return [];
+      const data = DATA_PROVIDER_INTERFACE.decodeFunctionResult('getUserReserveData', results[index].returnData);
+      const borrowed = data.currentStableDebt + data.currentVariableDebt;
+      if (data.currentATokenBalance === 0n && borrowed === 0n) return [];
+      return [{
+        config,
+        supplied: data.currentATokenBalance,
+        borrowed,
+        stableDebt: data.currentStableDebt,
+        stableBorrowRate: data.stableBorrowRate,
+        isCollateral: data.usageAsCollateralEnabled && data.currentATokenBalance > 0n,
+      }];
+    });
+  }
+
+  private async getReserveRates(
+    assets: string[],
+    dataProvider: string
+  ): Promise<{ liquidityRate: bigint; variableBorrowRate: bigint }[]> {
+    const results = await multicall(this.chainId, assets.map(asset => ({
+      target: dataProvider,
+      callData: DATA_PROVIDER_INTERFACE.encodeFunctionData('getReserveData', [asset]),
+    })));
+    return results.map(result => {
+      if (!result.success) return { liquidityRate: 0n, variableBorrowRate: 0n };
+      const data = DATA_PROVIDER_INTERFACE.decodeFunctionResult('getReserveData', result.returnData);
+      return { liquidityRate: data.liquidityRate, variableBorrowRate: data.variableBorrowRate };
+    });
+  }
+
+  // The wallet's efficiency-mode category. Aave 3.2 split the category getters, so fall
+  // back to the older combined one on earlier deployments.
+  // The user's e-mode category and which of their reserves count as its collateral
+  private async getEMode(
+    walletAddress: string,
+    pool: ethers.Contract,
+    dataProvider: string,
+    reserves: UserReserve[]
+  ): Promise<{ eMode: AavePosition['eMode']; eModeAssets: Set<string> }> {
+    const none = { eMode: undefined, eModeAssets: new Set<string>() };
+    try {
+      const categoryId = Number(await pool.getUserEMode(walletAddress));
+      if (categoryId === 0) return none;
+
+      try {
+        const [config, label, bitmap]: [{ liquidationThreshold: bigint }, string, bigint] = await Promise.all([
+          pool.getEModeCategoryCollateralConfig(categoryId),
+          pool.getEModeCategoryLabel(categoryId),
+          pool.getEModeCategoryCollateralBitmap(categoryId),
+        ]);
+        return {
+          eMode: { categoryId, label, liquidationThreshold: Number(config.liquidationThreshold) / 10000 },
+          eModeAssets: new Set(reserves
+            .filter(reserve => ((bitmap >> BigInt(reserve.config.id)) & 1n) === 1n)
+            .map(reserve => reserve.config.asset)),
+        };
+      } catch {
+        // Before v3.2 each reserve belongs to at most one category
+        const [data, results] = await Promise.all([
+          pool.getEModeCategoryData(categoryId),
+          multicall(this.chainId, reserves.map(reserve => ({
+            target: dataProvider,
+            callData: DATA_PROVIDER_INTERFACE.encodeFunctionData('getReserveEModeCategory', [reserve.config.asset]),
+          }))),
+        ]);
+        return {
+          eMode: { categoryId, label: data.label, liquidationThreshold: Number(data.liquidationThreshold) / 10000 },
+          eModeAssets: new Set(reserves
+            .filter((_, index) => results[index].success && Number(
+              DATA_PROVIDER_INTERFACE.decodeFunctionResult('getReserveEModeCategory', results[index].returnData)[0]
+            ) === categoryId)
+            .map(reserve => reserve.config.asset)),
+        };
+      }
+    } catch (error) {
+      console.warn(`Failed to fetch Aave V3 e-mode on chain ${this.chainId}:`, error);
+      return none;
+    }
+  }
+
+  // Unclaimed incentives across the wallet's aTokens and debt tokens
+  private async getRewards(walletAddress: string, reserves: UserReserve[]): Promise<TokenBalance[] | undefined> {
+    try {
+      const aToken = new ethers.Contract(reserves[0].config.aToken, ATOKEN_ABI, this.provider);
+      const controllerAddress: string = await aToken.getIncentivesController();
+      if (controllerAddress === ethers.ZeroAddress) return undefined;
+
+      const controller = new ethers.Contract(controllerAddress, REWARDS_CONTROLLER_ABI, this.provider);
+      const incentivized = reserves.flatMap(reserve => [
+        ...(reserve.supplied > 0n ? [reserve.config.aToken] : []),
+        ...(reserve.borrowed > 0n ? [reserve.config.variableDebtToken] : []),
+      ]);
+      const [rewardsList, unclaimedAmounts]: [string[], bigint[]] =
+        await controller.getAllUserRewards(incentivized, walletAddress);
+
+      const unclaimed = rewardsList
+        .map((token, index) => ({ token, amount: unclaimedAmounts[index] }))
+        .filter(reward => reward.amount > 0n);
+      if (unclaimed.length === 0) return undefined;
+
+      const tokens = unclaimed.map(reward => reward.token);
+      const [metadata, prices] = await Promise.all([
+        tokenMetadataService.getMetadata(this.chainId, tokens),
+        priceAggregator.getPrices(tokens.map(address => ({ chainId: this.chainId, address }))),
+      ]);
+
+      return unclaimed.map(reward => {
+        const key = getTokenKey(this.chainId, reward.token);
+        const info = metadata.get(key);
+        const decimals = info?.decimals ?? 18;
+        const price = prices[key]?.price ?? 0;
+        return {
+          address: reward.token,
+          chainId: this.chainId,
+          symbol: info?.symbol || 'UNKNOWN',
+          name: info?.name || 'Unknown Token',
+          balance: reward.amount.toString(),
+          decimals,
+          logo: info?.logo,
+          price,
+          value: amountValue(toTokenAmount(reward.amount, decimals), price),
+        };
+      });
+    } catch (error) {
+      console.warn(`Failed to fetch Aave V3 rewards on chain ${this.chainId}:`, error);
+      return undefined;
+    }
+  }
+}
+
+// Account summary from an Aave position; liquidity is the Pool's headroom in USD
+export function buildAaveAccount(position: DeFiPosition, liquidity?: number): LendingAccount {
+  const metadata = position.metadata as AavePosition;
+  const balanceOf = (tokens: TokenBalance[], asset: string) =>
+    BigInt(tokens.find(token => token.address === asset)?.balance ?? 0);
+
+  return buildLendingAccount({
+    id: position.id,
+    chainId: position.chainId,
+    protocol: 'aave',
+    liquidity,
+    markets: metadata.reserves.map(reserve => {
+      const asset = [...metadata.supplied, ...metadata.borrowed].find(token => token.address === reserve.asset)!;
+      return {
+        market: reserve.asset,
+        asset,
+        supplied: balanceOf(metadata.supplied, reserve.asset),
+        borrowed: balanceOf(metadata.borrowed, reserve.asset),
+        collateralFactor: reserve.liquidationThreshold,
+        isCollateral: reserve.isCollateral,
+      };
+    }),
+  });
+}
+
+// Factory function
+export function createAaveV3Service(chainId: number, provider: ethers.Provider = getProvider(chainId)): AaveV3Integration {
+  return new AaveV3Integration(chainId, provider);
+}
@@ -1,24 +1,20 @@
 import { ethers } from 'ethers';
 import { DeFiPosition, AerodromePosition, TokenBalance } from '@/types';
+import { tokenRegistry, getTokenKey } from '@/lib/tokens/registry';
+import { tokenMetadataService } from '@/lib/tokens/metadata';
+import { getProvider } from '@/lib/blockchain/providers';
+import { multicall } from '@/lib/blockchain/multicall';
+import { chainlinkOracle } from '@/lib/prices/chainlink';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import { toTokenAmount, shareOfAmount, amountValue } from '@/lib/utils';
+import { AerodromePool, AerodromePoolIndex, BASE_CHAIN_ID } from './aerodromePools';
+import { SlipstreamIntegration } from './slipstream';
+import { VotingEscrowIntegration } from './veAero';
 
 // Aerodrome contract addresses on Base
-const AERODROME_ROUTER = '0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43';
-const AERODROME_VOTER = '0x16613524e02ad97eDfeF371bC883F2F5d6C480A5';
 const AERODROME_FACTORY = '0x420DD381b31aEf6683db6B902084cB0FFECe40Da';
 
-// Base network RPC with Alchemy support
-const getBaseRpc = () => {
-  const alchemyKey = process.env.ALCHEMY_API_KEY;
-  return alchemyKey 
-    ? `https://base-mainnet.g.alchemy.com/v2/${alchemyKey}`
-    : 'https://mainnet.base.org';
-};
-
-// Aerodrome Router ABI (simplified)
-const ROUTER_ABI = [
-  'function getAmountsOut(uint amountIn, tuple(address from, address to, bool stable)[] memory routes) external view returns (uint[] memory amounts)',
-  'function pairFor(address tokenA, address tokenB, bool stable) external view returns (address pair)',
-];
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
 
 // Aerodrome Pair ABI
 const PAIR_ABI = [
@@ -35,40 +31,58 @@ const GAUGE_ABI = [
   'function balanceOf(address) external view returns (uint256)',
   'function earned(address) external view returns (uint256)',
   'function rewardToken() external view returns (address)',
+  'function rewardRate() external view returns (uint256)',
+  'function totalSupply() external view returns (uint256)',
 ];
 
+// Pools and gauges share the ERC-20 balanceOf signature
+const BALANCE_INTERFACE = new ethers.Interface(['function balanceOf(address) external view returns (uint256)']);
+
+interface AerodromeHolding {
+  pool: AerodromePool;
+  walletBalance: bigint;
+  stakedBalance: bigint;
+}
+
 interface AerodromeService {
   getPositions(walletAddress: string): Promise<DeFiPosition[]>;
 }
 
 export class AerodromeIntegration implements AerodromeService {
   private provider: ethers.Provider;
-  private router: ethers.Contract;
+  private poolIndex = new AerodromePoolIndex(AERODROME_FACTORY);
+  private slipstream = new SlipstreamIntegration();
+  private votingEscrow = new VotingEscrowIntegration();
 
   constructor() {
-    this.provider = new ethers.JsonRpcProvider(getBaseRpc());
-    this.router = new ethers.Contract(AERODROME_ROUTER, ROUTER_ABI, this.provider);
+    this.provider = getProvider(BASE_CHAIN_ID);
   }
 
   async getPositions(walletAddress: string): Promise<DeFiPosition[]> {
     try {
       const positions: DeFiPosition[] = [];
 
-      // Get LP token balances (simplified approach)
-      // In production, we'd scan for all LP tokens or use Aerodrome's subgraph
-      const commonPairs = await this.getCommonPairs();
+      // Find every pool where the wallet holds LP, either directly or staked in the gauge
+      const pools = await this.poolIndex.getPools();
+      const holdings = await this.findHoldings(walletAddress, pools);
 
-      for (const pairInfo of commonPairs) {
+      for (const holding of holdings) {
         try {
-          const position = await this.getPositionDetails(walletAddress, pairInfo);
+          const position = await this.getPositionDetails(walletAddress, holding);
           if (position && position.value > 0.01) {
             positions.push(position);
           }
         } catch (error) {
-          console.warn(`Failed to fetch Aerodrome position for ${pairInfo.symbol}:`, error);
+          console.warn(`Failed to fetch Aerodrome position for ${holding.pool.address}:`, error);
         }
       }
 
+      // Slipstream concentrated-liquidity positions are held as NFTs
+      positions.push(...await this.slipstream.getPositions(walletAddress));
+
+      // veAERO locks and their voting rewards
+      positions.push(...await this.votingEscrow.getPositions(walletAddress));
+
       return positions;
     } catch (error) {
       console.error('Error fetching Aerodrome positions:', error);
@@ -76,16 +90,42 @@ export class AerodromeIntegration implements AerodromeService {
     }
   }
 
+  // One multicall pass over every pool and gauge for the wallet's LP balances
+  private async findHoldings(walletAddress: string, pools: AerodromePool[]): Promise<AerodromeHolding[]> {
+    const callData = BALANCE_INTERFACE.encodeFunctionData('balanceOf', [walletAddress]);
+    const gauged = pools.filter(pool => pool.gauge);
+
+    const results = await multicall(BASE_CHAIN_ID, [
+      ...pools.map(pool => ({ target: pool.address, callData })),
+      ...gauged.map(pool => ({ target: pool.gauge!, callData })),
+    ]);
+
+    const decodeBalance = (result: { success: boolean; returnData: string }): bigint => {
+      if (!result.success || result.returnData === '0x') return 0n;
+      return BALANCE_INTERFACE.decodeFunctionResult('balanceOf', result.returnData)[0];
+    };
+
+    const staked = new Map<string, bigint>();
+    gauged.forEach((pool, index) => {
+      staked.set(pool.address, decodeBalance(results[pools.length + index]));
+    });
+
+    return pools
+      .map((pool, index) => ({
+        pool,
+        walletBalance: decodeBalance(results[index]),
+        stakedBalance: staked.get(pool.address) ?? 0n,
+      }))
+      .filter(holding => holding.walletBalance > 0n || holding.stakedBalance > 0n);
+  }
+
   private async getPositionDetails(
-    walletAddress: string, 
-    pairInfo: any
+    walletAddress: string,
+    holding: AerodromeHolding
   ): Promise<DeFiPosition | null> {
     try {
-      const pair = new ethers.Contract(pairInfo.address, PAIR_ABI, this.provider);
-      
-      // Get LP token balance
-      const lpBalance = await pair.balanceOf(walletAddress);
-      if (lpBalance === 0n) return null;
+      const { pool, walletBalance, stakedBalance } = holding;
+      const pair = new ethers.Contract(pool.address, PAIR_ABI, this.provider);
 
       // Get pair details
       const [token0Address, token1Address, isStable, totalSupply, reserves] = await Promise.all([
@@ -96,63 +136,95 @@ export class AerodromeIntegration implements AerodromeService {
         pair.getReserves(),
       ]);
 
-      // Calculate user's share of the pool
-      const userShare = Number(lpBalance) / Number(totalSupply);
-      const token0Amount = (Number(reserves.reserve0) * userShare).toString();
-      const token1Amount = (Number(reserves.reserve1) * userShare).toString();
+      // Token metadata (registry first, on-chain for unknown tokens) and prices
+      const [metadata, prices] = await Promise.all([
+        tokenMetadataService.getMetadata(BASE_CHAIN_ID, [token0Address, token1Address]),
+        priceAggregator.getPrices([
+          { chainId: BASE_CHAIN_ID, address: token0Address },
+          { chainId: BASE_CHAIN_ID, address: token1Address },
+        ]),
+      ]);
+      const token0Info = metadata.get(getTokenKey(BASE_CHAIN_ID, token0Address));
+      const token1Info = metadata.get(getTokenKey(BASE_CHAIN_ID, token1Address));
+      const token0Decimals = token0Info?.decimals ?? 18;
+      const token1Decimals = token1Info?.decimals ?? 18;
+      const token0Price = prices[getTokenKey(BASE_CHAIN_ID, token0Address)]?.price ?? 0;
+      const token1Price = prices[getTokenKey(BASE_CHAIN_ID, token1Address)]?.price ?? 0;
+
+      // User's share of the pool reserves, in exact base units. LP staked in the
+      // gauge is still the user's liquidity, so it counts towards the share.
+      const lpBalance = walletBalance + stakedBalance;
+      const token0Amount = shareOfAmount(toTokenAmount(reserves.reserve0, token0Decimals), lpBalance, totalSupply);
+      const token1Amount = shareOfAmount(toTokenAmount(reserves.reserve1, token1Decimals), lpBalance, totalSupply);
 
-      // Create token balances (mock token data for development)
       const token0: TokenBalance = {
         address: token0Address,
-        symbol: pairInfo.token0Symbol || 'TOKEN0',
-        name: `Token 0 (${pairInfo.token0Symbol})`,
-        balance: token0Amount,
-        decimals: 18,
-        price: pairInfo.token0Price || 1,
-        value: (Number(token0Amount) / 1e18) * (pairInfo.token0Price || 1),
+        chainId: BASE_CHAIN_ID,
+        symbol: token0Info?.symbol || 'TOKEN0',
+        name: token0Info?.name || 'Token 0',
+        balance: token0Amount.raw.toString(),
+        decimals: token0Decimals,
+        price: token0Price,
+        value: amountValue(token0Amount, token0Price),
+        logo: token0Info?.logo,
       };
 
       const token1: TokenBalance = {
         address: token1Address,
-        symbol: pairInfo.token1Symbol || 'TOKEN1',
-        name: `Token 1 (${pairInfo.token1Symbol})`,
-        balance: token1Amount,
-        decimals: 18,
-        price: pairInfo.token1Price || 1,
-        value: (Number(token1Amount) / 1e18) * (pairInfo.token1Price || 1),
+        chainId: BASE_CHAIN_ID,
+        symbol: token1Info?.symbol || 'TOKEN1',
+        name: token1Info?.name || 'Token 1',
+        balance: token1Amount.raw.toString(),
+        decimals: token1Decimals,
+        price: token1Price,
+        value: amountValue(token1Amount, token1Price),
+        logo: token1Info?.logo,
       };
 
-      // Check for gauge staking
+      // Gauge staking rewards
+      const stakedShare = Number(stakedBalance) / Number(lpBalance);
       let gaugePosition;
-      if (pairInfo.gauge) {
-        const gauge = new ethers.Contract(pairInfo.gauge, GAUGE_ABI, this.provider);
-        const stakedBalance = await gauge.balanceOf(walletAddress);
-        const earnedRewards = await gauge.earned(walletAddress);
-        
-        if (stakedBalance > 0n) {
-          gaugePosition = {
-            address: pairInfo.gauge,
-            rewards: [{
-              address: '0x940181a94A35A4569E4529A3CDfB74e38FD98631', // AERO token
-              symbol: 'AERO',
-              name: 'Aerodrome',
-              balance: earnedRewards.toString(),
-              decimals: 18,
-              price: 0.5, // Mock price
-              value: (Number(earnedRewards) / 1e18) * 0.5,
-            }],
-            emissions: 25.5, // Mock APY
-          };
+      if (pool.gauge && stakedBalance > 0n) {
+        const gauge = new ethers.Contract(pool.gauge, GAUGE_ABI, this.provider);
+        const [earnedRewards, rewardRate, gaugeSupply]: bigint[] = await Promise.all([
+          gauge.earned(walletAddress),
+          gauge.rewardRate(),
+          gauge.totalSupply(),
+        ]);
+        const aero = tokenRegistry.getBySymbol(BASE_CHAIN_ID, 'AERO');
+        const aeroPrice = (await chainlinkOracle.getAssetPrice('AERO', BASE_CHAIN_ID))?.price ?? 0;
+
+        // Emissions APR: the staked LP's share of the gauge's AERO per year, against its value
+        let emissions = 0;
+        const stakedValue = (token0.value + token1.value) * stakedShare;
+        if (gaugeSupply > 0n && stakedValue > 0) {
+          const yearlyAero = (rewardRate * BigInt(SECONDS_PER_YEAR) * stakedBalance) / gaugeSupply;
+          emissions = (amountValue(toTokenAmount(yearlyAero, 18), aeroPrice) / stakedValue) * 100;
         }
+        gaugePosition = {
+          address: pool.gauge,
+          stakedBalance: stakedBalance.toString(),
+          rewards: [{
+            address: aero?.address || '0x940181a94A35A4569E4529A3CDfB74e38FD98631', // AERO token
+            symbol: 'AERO',
+            name: 'Aerodrome',
+            balance: earnedRewards.toString(),
+            decimals: 18,
+            logo: aero?.logo,
+            price: aeroPrice,
+            value: amountValue(toTokenAmount(earnedRewards, 18), aeroPrice),
+          }],
+          emissions,
+        };
       }
 
       const aerodromePosition: AerodromePosition = {
-        pairAddress: pairInfo.address,
+        pairAddress: pool.address,
         token0,
         token1,
         isStable,
         gauge: gaugePosition,
-        lpTokenBalance: lpBalance.toString(),
+        lpTokenBalance: walletBalance.toString(),
         totalSupply: totalSupply.toString(),
       };
 
@@ -160,11 +232,13 @@ export class AerodromeIntegration implements AerodromeService {
       const claimableRewards = gaugePosition?.rewards.reduce((sum, reward) => sum + reward.value, 0) || 0;
 
       return {
-        id: `aerodrome-${pairInfo.address}`,
+        id: `aerodrome-${pool.address}`,
+        chainId: BASE_CHAIN_ID,
         protocol: 'aerodrome',
         type: 'liquidity',
         tokens: [token0, token1],
-        apy: gaugePosition?.emissions || 15.0, // Base LP APY or gauge APY
+        // Only staked LP earns emissions; trading fees on unstaked LP aren't tracked
+        apy: (gaugePosition?.emissions ?? 0) * stakedShare,
         value: totalValue,
         claimable: claimableRewards,
         metadata: aerodromePosition,
@@ -174,34 +248,9 @@ export class AerodromeIntegration implements AerodromeService {
       return null;
     }
   }
-
-  private async getCommonPairs() {
-    // Mock common Aerodrome pairs on Base
-    return [
-      {
-        address: '0x6cDcb1C4A4D1C3C6d054b27AC5B77e89eAFb971d', // Mock ETH/USDC
-        symbol: 'ETH/USDC',
-        token0Symbol: 'WETH',
-        token1Symbol: 'USDC',
-        token0Price: 4500,
-        token1Price: 1,
-        gauge: '0x7d7F1765aCbaF847b9A1f7137FE8Ed4931FbfEbA', // Mock gauge
-      },
-      {
-        address: '0x9BA7d5C0F8B09E2f59b5ca3d5C8e5B4B3E5A5c5c', // Mock USDC/USDbC stable pair
-        symbol: 'USDC/USDbC',
-        token0Symbol: 'USDC',
-        token1Symbol: 'USDbC',
-        token0Price: 1,
-        token1Price: 1,
-        isStable: true,
-        gauge: '0x8BA7d5C0F8B09E2f59b5ca3d5C8e5B4B3E5A5c5c',
-      },
-    ];
-  }
 }
 
 // Factory function
 export function createAerodromeService(): AerodromeIntegration {
   return new AerodromeIntegration();
-}
\ No newline at end of file
+}
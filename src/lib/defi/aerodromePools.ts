@@ -0,0 +1,110 @@
+import { ethers } from 'ethers';
+import { getProvider } from '@/lib/blockchain/providers';
+import { multicall } from '@/lib/blockchain/multicall';
+
+export const BASE_CHAIN_ID = 8453;
+
+export const AERODROME_VOTER = '0x16613524e02ad97eDfeF371bC883F2F5d6C480A5';
+
+// Slipstream (concentrated liquidity) position NFTs
+export const SLIPSTREAM_NFT_MANAGER = '0x827922686190790b37229fd06084350E74485b72';
+
+export function getSlipstreamPositionId(tokenId: bigint | string): string {
+  return `aerodrome-slipstream-${tokenId}`;
+}
+
+// veAERO lock NFTs
+export const AERODROME_VOTING_ESCROW = '0xeBf418Fe2512e7E6bd9b87a8F0f294aCDC67e6B4';
+
+export function getVeAeroPositionId(tokenId: bigint | string): string {
+  return `aerodrome-ve-${tokenId}`;
+}
+
+// How long a pool index is reused before checking the factory for new pools
+const POOL_INDEX_TTL_MS = 60 * 60 * 1000;
+
+// Shared by the classic PoolFactory and the Slipstream CLFactory
+const FACTORY_INTERFACE = new ethers.Interface([
+  'function allPoolsLength() external view returns (uint256)',
+  'function allPools(uint256 index) external view returns (address)',
+]);
+
+const VOTER_INTERFACE = new ethers.Interface([
+  'function gauges(address pool) external view returns (address)',
+]);
+
+export interface AerodromePool {
+  address: string;
+  gauge?: string;
+}
+
+// Cached index of every pool a factory has created, with its gauge from the voter.
+// Concurrent callers share one refresh.
+export class AerodromePoolIndex {
+  private factory: string;
+  private pools: AerodromePool[] = [];
+  private indexedAt = 0;
+  private indexing: Promise<AerodromePool[]> | null = null;
+
+  constructor(factory: string) {
+    this.factory = factory;
+  }
+
+  async getPools(): Promise<AerodromePool[]> {
+    if (this.pools.length > 0 && Date.now() - this.indexedAt < POOL_INDEX_TTL_MS) {
+      return this.pools;
+    }
+    if (!this.indexing) {
+      this.indexing = this.refresh()
+        .catch(error => {
+          // Serve the stale index rather than nothing if the refresh fails
+          if (this.pools.length === 0) throw error;
+          console.warn(`Failed to refresh Aerodrome pool index for ${this.factory}, using cached pools:`, error);
+          return this.pools;
+        })
+        .finally(() => {
+          this.indexing = null;
+        });
+    }
+    return this.indexing;
+  }
+
+  private async refresh(): Promise<AerodromePool[]> {
+    const factory = new ethers.Contract(this.factory, FACTORY_INTERFACE, getProvider(BASE_CHAIN_ID));
+    const poolCount = Number(await factory.allPoolsLength());
+
+    // The factory's pool list is append-only, so only fetch pools created since the last refresh
+    const known = this.pools.length;
+    const newIndices = Array.from({ length: Math.max(poolCount - known, 0) }, (_, i) => known + i);
+    const addressResults = await multicall(BASE_CHAIN_ID, newIndices.map(index => ({
+      target: this.factory,
+      callData: FACTORY_INTERFACE.encodeFunctionData('allPools', [index]),
+    })));
+    const newPools: AerodromePool[] = [];
+    for (const result of addressResults) {
+      // A gap would shift every later index, so stop here and resume on the next refresh
+      if (!result.success) break;
+      newPools.push({ address: FACTORY_INTERFACE.decodeFunctionResult('allPools', result.returnData)[0] });
+    }
+
+    const pools = [...this.pools, ...newPools];
+
+    // Gauges can be created for a pool at any time, so recheck every pool without one
+    const ungauged = pools.filter(pool => !pool.gauge);
+    const gaugeResults = await multicall(BASE_CHAIN_ID, ungauged.map(pool => ({
+      target: AERODROME_VOTER,
+      callData: VOTER_INTERFACE.encodeFunctionData('gauges', [pool.address]),
+    })));
+    gaugeResults.forEach((result, index) => {
+      if (!result.success) return;
+      const gauge: string = VOTER_INTERFACE.decodeFunctionResult('gauges', result.returnData)[0];
+      if (gauge !== ethers.ZeroAddress) {
+        ungauged[index].gauge = gauge;
+      }
+    });
+
+    this.pools = pools;
+    this.indexedAt = Date.now();
+    return pools;
+  }
+}
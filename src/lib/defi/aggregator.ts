@@ -1,8 +1,22 @@
 import { ethers } from 'ethers';
-import { DeFiPosition } from '@/types';
-import { createUniswapV3Service } from './uniswapV3';
+import { DeFiPosition, LendingAccount } from '@/types';
+import { createUniswapV3Service, UniswapV3Integration } from './uniswapV3';
+import { UNISWAP_V3_CHAIN_IDS } from './uniswapV3Deployments';
 import { createAerodromeService } from './aerodrome';
-import { createMoonwellService } from './moonwell';
+import { createMoonwellService, buildMoonwellAccount, MoonwellIntegration } from './moonwell';
+import { createAaveV3Service, buildAaveAccount, AaveV3Integration, AAVE_V3_CHAIN_IDS } from './aaveV3';
+import { createCompoundV3Service, CompoundV3Integration, COMPOUND_V3_CHAIN_IDS } from './compoundV3';
+import { createLiquidStakingService, LiquidStakingIntegration } from './liquidStaking';
+import { createCurveService, CurveIntegration } from './curve';
+import { createERC4626Service, ERC4626Integration } from './erc4626';
+import { LendingAccountPositions } from './lendingAccount';
+import { getProvider } from '@/lib/blockchain/providers';
+
+export interface DeFiPortfolio {
+  positions: DeFiPosition[];
+  // Account-level health for lending protocols with open positions
+  lendingAccounts: LendingAccount[];
+}
 
 export interface DeFiAggregator {
   getAllPositions(walletAddress: string): Promise<DeFiPosition[]>;
@@ -11,36 +25,57 @@ export interface DeFiAggregator {
 }
 
 export class DeFiPositionAggregator implements DeFiAggregator {
-  private provider: ethers.Provider;
-  private uniswapV3Service: any;
+  private uniswapV3Services: UniswapV3Integration[];
+  private aaveV3Services: AaveV3Integration[];
+  private compoundV3Services: CompoundV3Integration[];
   private aerodromeService: any;
-  private moonwellService: any;
+  private moonwellService: MoonwellIntegration;
+  private liquidStakingService: LiquidStakingIntegration;
+  private curveService: CurveIntegration;
+  private erc4626Service: ERC4626Integration;
 
   constructor(rpcUrl?: string) {
-    // Use Alchemy RPC with API key if available
-    const alchemyKey = process.env.ALCHEMY_API_KEY;
-    const defaultRpc = alchemyKey 
-      ? `https://eth-mainnet.g.alchemy.com/v2/${alchemyKey}`
-      : 'https://eth-mainnet.g.alchemy.com/v2/demo';
-    
-    this.provider = new ethers.JsonRpcProvider(rpcUrl || defaultRpc);
-    this.uniswapV3Service = createUniswapV3Service(this.provider);
+    // One Uniswap V3 integration per deployment. Shared providers (Alchemy when
+    // configured), except mainnet uses rpcUrl when one is given.
+    this.uniswapV3Services = UNISWAP_V3_CHAIN_IDS.map(chainId =>
+      createUniswapV3Service(chainId, chainId === 1 && rpcUrl ? new ethers.JsonRpcProvider(rpcUrl) : getProvider(chainId))
+    );
+    this.aaveV3Services = AAVE_V3_CHAIN_IDS.map(chainId => createAaveV3Service(chainId));
+    this.compoundV3Services = COMPOUND_V3_CHAIN_IDS.map(chainId => createCompoundV3Service(chainId));
     this.aerodromeService = createAerodromeService();
     this.moonwellService = createMoonwellService();
+    this.liquidStakingService = createLiquidStakingService();
+    this.curveService = createCurveService();
+    this.erc4626Service = createERC4626Service();
   }
 
   async getAllPositions(walletAddress: string): Promise<DeFiPosition[]> {
+    return (await this.getPortfolio(walletAddress)).positions;
+  }
+
+  async getPortfolio(walletAddress: string): Promise<DeFiPortfolio> {
     try {
       const allPositions: DeFiPosition[] = [];
+      const lendingAccounts: LendingAccount[] = [];
 
       // Fetch Uniswap V3 positions
       try {
-        const uniswapPositions = await this.uniswapV3Service.getPositions(walletAddress);
+        const uniswapPositions = await this.getUniswapV3Positions(walletAddress);
         allPositions.push(...uniswapPositions);
       } catch (error) {
         console.warn('Failed to fetch Uniswap V3 positions:', error);
       }
 
+      // Fetch Aave V3 positions and account health on every deployment
+      const aave = await this.getAaveV3AccountPositions(walletAddress);
+      allPositions.push(...aave.flatMap(result => result.positions));
+      lendingAccounts.push(...aave.flatMap(result => result.account ? [result.account] : []));
+
+      // Fetch Compound V3 positions, one isolated account per Comet market
+      const compound = await this.getCompoundV3AccountPositions(walletAddress);
+      allPositions.push(...compound.flatMap(result => result.positions));
+      lendingAccounts.push(...compound.flatMap(result => result.account ? [result.account] : []));
+
       // Fetch Aerodrome positions (Base network)
       try {
         const aerodromePositions = await this.aerodromeService.getPositions(walletAddress);
@@ -51,53 +86,118 @@ export class DeFiPositionAggregator implements DeFiAggregator {
 
       // Fetch Moonwell positions (Base network)
       try {
-        const moonwellPositions = await this.moonwellService.getPositions(walletAddress);
-        allPositions.push(...moonwellPositions);
+        const moonwell = await this.moonwellService.getAccountPositions(walletAddress);
+        allPositions.push(...moonwell.positions);
+        if (moonwell.account) lendingAccounts.push(moonwell.account);
       } catch (error) {
         console.warn('Failed to fetch Moonwell positions:', error);
       }
 
-      return allPositions;
+      // Fetch liquid staking tokens on every chain and pending Lido withdrawals
+      try {
+        const stakingPositions = await this.liquidStakingService.getPositions(walletAddress);
+        allPositions.push(...stakingPositions);
+      } catch (error) {
+        console.warn('Failed to fetch liquid staking positions:', error);
+      }
+
+      // Fetch Curve LP and gauge positions (Ethereum)
+      try {
+        const curvePositions = await this.curveService.getPositions(walletAddress);
+        allPositions.push(...curvePositions);
+      } catch (error) {
+        console.warn('Failed to fetch Curve positions:', error);
+      }
+
+      // Fetch ERC-4626 vault shares found among the wallet's tokens on every chain
+      try {
+        const vaultPositions = await this.erc4626Service.getPositions(walletAddress);
+        allPositions.push(...vaultPositions);
+      } catch (error) {
+        console.warn('Failed to fetch ERC-4626 vault positions:', error);
+      }
+
+      return { positions: allPositions, lendingAccounts };
     } catch (error) {
       console.error('Error aggregating DeFi positions:', error);
-      return [];
+      return { positions: [], lendingAccounts: [] };
     }
   }
 
   async getPositionsByProtocol(walletAddress: string, protocol: string): Promise<DeFiPosition[]> {
     switch (protocol) {
       case 'uniswap-v3':
-        return await this.uniswapV3Service.getPositions(walletAddress);
+        return await this.getUniswapV3Positions(walletAddress);
       case 'aerodrome':
         return await this.aerodromeService.getPositions(walletAddress);
       case 'moonwell':
         return await this.moonwellService.getPositions(walletAddress);
+      case 'lido':
+      case 'rocket-pool':
+      case 'coinbase':
+        return (await this.liquidStakingService.getPositions(walletAddress))
+          .filter(position => position.protocol === protocol);
+      case 'curve':
+        return await this.curveService.getPositions(walletAddress);
+      case 'erc4626':
+        return await this.erc4626Service.getPositions(walletAddress);
       case 'aave':
-        // return await this.getAavePositions(walletAddress);
-        return [];
+        return (await this.getAaveV3AccountPositions(walletAddress)).flatMap(result => result.positions);
       case 'compound':
-        // return await this.getCompoundPositions(walletAddress);
-        return [];
+        return (await this.getCompoundV3AccountPositions(walletAddress)).flatMap(result => result.positions);
       default:
         return [];
     }
   }
 
+  // Every chain's deployment is queried in parallel; a failing chain yields no positions
+  private async getUniswapV3Positions(walletAddress: string): Promise<DeFiPosition[]> {
+    const positionsByChain = await Promise.all(
+      this.uniswapV3Services.map(service => service.getPositions(walletAddress))
+    );
+    return positionsByChain.flat();
+  }
+
+  // Each Aave V3 deployment is queried in parallel and handles its own failures
+  private async getAaveV3AccountPositions(walletAddress: string): Promise<LendingAccountPositions[]> {
+    return Promise.all(this.aaveV3Services.map(service => service.getAccountPositions(walletAddress)));
+  }
+
+  // Each chain's Comet markets are queried in parallel with the other chains
+  private async getCompoundV3AccountPositions(walletAddress: string): Promise<LendingAccountPositions[]> {
+    const resultsByChain = await Promise.all(
+      this.compoundV3Services.map(service => service.getAccountPositions(walletAddress))
+    );
+    return resultsByChain.flat();
+  }
+
   async getTotalDeFiValue(walletAddress: string): Promise<number> {
     const positions = await this.getAllPositions(walletAddress);
     return positions.reduce((total, position) => total + position.value, 0);
   }
 
+  // Mock positions with lending accounts derived from the mock lending markets
+  async getMockPortfolio(walletAddress: string): Promise<DeFiPortfolio> {
+    const positions = await this.getMockPositions(walletAddress);
+    const moonwellPositions = positions.filter(position => position.protocol === 'moonwell');
+    const lendingAccounts = [
+      ...positions.filter(position => position.protocol === 'aave').map(position => buildAaveAccount(position)),
+      ...(moonwellPositions.length > 0 ? [buildMoonwellAccount(moonwellPositions)] : []),
+    ];
+    return { positions, lendingAccounts };
+  }
+
   // Mock data for development/testing
   async getMockPositions(walletAddress: string): Promise<DeFiPosition[]> {
     return [
       {
-        id: 'uniswap-v3-12345',
+        id: 'uniswap-v3-1-12345',
+        chainId: 1,
         protocol: 'uniswap-v3',
         type: 'liquidity',
         tokens: [
           {
-            address: '0xA0b86a33E6441b57c8AE6d9c0d1b9f7d9D8c9b8e',
+            address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
             symbol: 'USDC',
             name: 'USD Coin',
             balance: '1000000000',
@@ -122,7 +222,7 @@ export class DeFiPositionAggregator implements DeFiAggregator {
           tokenId: '12345',
           pool: '0x8ad599c3A0ff1De082011EFDDc58f1908eb6e6D8',
           token0: {
-            address: '0xA0b86a33E6441b57c8AE6d9c0d1b9f7d9D8c9b8e',
+            address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
             symbol: 'USDC',
             name: 'USD Coin',
             balance: '1000000000',
@@ -151,26 +251,78 @@ export class DeFiPositionAggregator implements DeFiAggregator {
         }
       },
       {
-        id: 'aave-eth-lending',
+        id: 'aave-v3-1',
+        chainId: 1,
         protocol: 'aave',
         type: 'lending',
         tokens: [
           {
-            address: '0x0000000000000000000000000000000000000000',
-            symbol: 'ETH',
-            name: 'Ethereum',
+            address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+            symbol: 'WETH',
+            name: 'Wrapped Ether',
             balance: '2000000000000000000',
             decimals: 18,
             price: 4500,
             value: 9000,
           }
         ],
-        apy: 4.2,
-        value: 9000,
+        apy: 1.4,
+        value: 6000,
         claimable: 5.25,
+        metadata: {
+          market: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2',
+          supplied: [{
+            address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+            symbol: 'WETH',
+            name: 'Wrapped Ether',
+            balance: '2000000000000000000',
+            decimals: 18,
+            price: 4500,
+            value: 9000,
+          }],
+          borrowed: [{
+            address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+            symbol: 'USDC',
+            name: 'USD Coin',
+            balance: '3000000000',
+            decimals: 6,
+            price: 1,
+            value: 3000,
+          }],
+          reserves: [
+            {
+              asset: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+              symbol: 'WETH',
+              supplyAPY: 2.1,
+              borrowAPY: 2.8,
+              isCollateral: true,
+              liquidationThreshold: 0.83,
+            },
+            {
+              asset: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+              symbol: 'USDC',
+              supplyAPY: 4.5,
+              borrowAPY: 5.5,
+              isCollateral: false,
+              liquidationThreshold: 0.78,
+            },
+          ],
+          healthFactor: 2.49,
+          netAPY: 1.4,
+          rewards: [{
+            address: '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9',
+            symbol: 'AAVE',
+            name: 'Aave',
+            balance: '25000000000000000',
+            decimals: 18,
+            price: 210,
+            value: 5.25,
+          }],
+        }
       },
       {
-        id: 'lido-staking',
+        id: 'lido-1-steth',
+        chainId: 1,
         protocol: 'lido',
         type: 'staking',
         tokens: [
@@ -187,9 +339,15 @@ export class DeFiPositionAggregator implements DeFiAggregator {
         apy: 3.8,
         value: 22400,
         claimable: 0,
+        metadata: {
+          stakedAmount: '5000000000000000000',
+          rewards: '0',
+          exchangeRate: 1,
+        },
       },
       {
         id: 'aerodrome-eth-usdc',
+        chainId: 8453,
         protocol: 'aerodrome',
         type: 'liquidity',
         tokens: [
@@ -238,6 +396,7 @@ export class DeFiPositionAggregator implements DeFiAggregator {
           isStable: false,
           gauge: {
             address: '0x7d7F1765aCbaF847b9A1f7137FE8Ed4931FbfEbA',
+            stakedBalance: '100000000000000000000',
             rewards: [{
               address: '0x940181a94A35A4569E4529A3CDfB74e38FD98631',
               symbol: 'AERO',
@@ -249,12 +408,13 @@ export class DeFiPositionAggregator implements DeFiAggregator {
             }],
             emissions: 28.5,
           },
-          lpTokenBalance: '100000000000000000000',
+          lpTokenBalance: '0',
           totalSupply: '10000000000000000000000',
         }
       },
       {
         id: 'moonwell-usdc-supply',
+        chainId: 8453,
         protocol: 'moonwell',
         type: 'lending',
         tokens: [
@@ -287,7 +447,7 @@ export class DeFiPositionAggregator implements DeFiAggregator {
           collateralFactor: 0.90,
           isCollateral: true,
           rewardsEarned: [{
-            address: '0xFF8adeC2221f9f4D8dfbAFa6B9a297d17603493D',
+            address: '0xA88594D404727625A9437C3f886C7643872296AE',
             symbol: 'WELL',
             name: 'Moonwell',
             balance: '175000000000000000000',
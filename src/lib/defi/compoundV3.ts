@@ -0,0 +1,362 @@
+import { ethers } from 'ethers';
+import { CompoundV3Collateral, CompoundV3Position, DeFiPosition, LendingAccount, TokenBalance } from '@/types';
+import { getTokenKey } from '@/lib/tokens/registry';
+import { tokenMetadataService } from '@/lib/tokens/metadata';
+import { getProvider } from '@/lib/blockchain/providers';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import { toTokenAmount, amountValue } from '@/lib/utils';
+import { buildLendingAccount, LendingAccountPositions } from './lendingAccount';
+
+export interface CompoundV3Deployment {
+  rewards: string; // CometRewards
+  markets: string[]; // Comet proxies
+}
+
+export const COMPOUND_V3_DEPLOYMENTS: Record<number, CompoundV3Deployment> = {
+  1: {
+    rewards: '0x1b0e765f6224c21223aea2af16c1c46e38885a40',
+    markets: [
+      '0xc3d688b66703497daa19211eedff47f25384cdc3', // cUSDCv3
+      '0xa17581a9e3356d9a858b789d68b4d866e593ae94', // cWETHv3
+      '0x3afdc9bca9213a35503b1a7ecb7a9d6c1e4d26f6', // cUSDTv3
+    ],
+  },
+  10: {
+    rewards: '0x443ea0340cb75a160f31a440722dec7b5bc3c2e9',
+    markets: [
+      '0x2e44e174f7d53f0212823acc11c01a11d58c5bcb', // cUSDCv3
+      '0xe36a30d249f7761327fd973001a32010b521b6fd', // cWETHv3
+    ],
+  },
+  137: {
+    rewards: '0x45939657d1ca34a8fa39a924b71d28fe8431e581',
+    markets: [
+      '0xf25212e676d1f7f89cd72ffee66158f541246445', // cUSDCv3
+    ],
+  },
+  8453: {
+    rewards: '0x123964802e6ababbe1bc9547d72ef1b69b00a6b1',
+    markets: [
+      '0xb125e6687d4313864e53df431d5425969c15eb2f', // cUSDCv3
+      '0x9c4ec768c28520b50860ea7a15bd7213a9ff58bf', // cUSDbCv3
+      '0x46e6b214b524310239732d51387075e0e70970bf', // cWETHv3
+    ],
+  },
+  42161: {
+    rewards: '0x88730d254a2f7e6ac8388c3198afd694ba9f7fae',
+    markets: [
+      '0x9c4ec768c28520b50860ea7a15bd7213a9ff58bf', // cUSDCv3
+      '0xa5edbdd9646f8dff606d7448e414884c7d905dca', // cUSDC.ev3 (bridged USDC)
+      '0x6f7d514bbd4aff3bcd1140b7344b32f063dee486', // cWETHv3
+    ],
+  },
+};
+
+export const COMPOUND_V3_CHAIN_IDS = Object.keys(COMPOUND_V3_DEPLOYMENTS).map(Number);
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// Collateral factors and rates are scaled by 1e18
+const FACTOR_SCALE = 10n ** 18n;
+
+// Comet price feeds report 8 decimals, in the market's numeraire (USD, or ETH for WETH markets)
+const PRICE_FEED_DECIMALS = 8;
+
+// Market configurations change only through governance
+const MARKETS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const COMET_ABI = [
+  'function baseToken() external view returns (address)',
+  'function baseTokenPriceFeed() external view returns (address)',
+  'function numAssets() external view returns (uint8)',
+  'function getAssetInfo(uint8 i) external view returns (tuple(uint8 offset, address asset, address priceFeed, uint64 scale, uint64 borrowCollateralFactor, uint64 liquidateCollateralFactor, uint64 liquidationFactor, uint128 supplyCap))',
+  'function balanceOf(address account) external view returns (uint256)',
+  'function borrowBalanceOf(address account) external view returns (uint256)',
+  'function collateralBalanceOf(address account, address asset) external view returns (uint128)',
+  'function isLiquidatable(address account) external view returns (bool)',
+  'function getUtilization() external view returns (uint256)',
+  'function getSupplyRate(uint256 utilization) external view returns (uint64)',
+  'function getBorrowRate(uint256 utilization) external view returns (uint64)',
+  'function getPrice(address priceFeed) external view returns (uint256)',
+];
+
+// getRewardOwed accrues before returning, so it is read with staticCall
+const REWARDS_ABI = [
+  'function getRewardOwed(address comet, address account) external returns (tuple(address token, uint256 owed))',
+];
+
+interface CometAsset {
+  address: string;
+  priceFeed: string;
+  borrowCollateralFactor: number;
+  liquidationThreshold: number;
+}
+
+interface CometMarket {
+  address: string;
+  baseToken: string;
+  baseTokenPriceFeed: string;
+  assets: CometAsset[];
+}
+
+interface CompoundV3Service {
+  getPositions(walletAddress: string): Promise<DeFiPosition[]>;
+  getAccountPositions(walletAddress: string): Promise<LendingAccountPositions[]>;
+}
+
+// Per-second rate scaled by 1e18 to an annual percentage
+function rateToApr(rate: bigint): number {
+  return Number(rate * BigInt(SECONDS_PER_YEAR) * 10000n / FACTOR_SCALE) / 100;
+}
+
+function factorToNumber(factor: bigint): number {
+  return Number(factor * 10000n / FACTOR_SCALE) / 10000;
+}
+
+export class CompoundV3Integration implements CompoundV3Service {
+  readonly chainId: number;
+  private deployment: CompoundV3Deployment;
+  private provider: ethers.Provider;
+  private marketsCache: { markets: CometMarket[]; fetchedAt: number } | null = null;
+
+  constructor(chainId: number, provider: ethers.Provider) {
+    const deployment = COMPOUND_V3_DEPLOYMENTS[chainId];
+    if (!deployment) {
+      throw new Error(`Compound V3 is not deployed on chain ${chainId}`);
+    }
+    this.chainId = chainId;
+    this.deployment = deployment;
+    this.provider = provider;
+  }
+
+  async getPositions(walletAddress: string): Promise<DeFiPosition[]> {
+    return (await this.getAccountPositions(walletAddress)).flatMap(result => result.positions);
+  }
+
+  // Every Comet market is a separate account, so each yields its own position and health
+  async getAccountPositions(walletAddress: string): Promise<LendingAccountPositions[]> {
+    try {
+      const markets = await this.getMarkets();
+      const results: LendingAccountPositions[] = [];
+
+      for (const market of markets) {
+        try {
+          const result = await this.getMarketPosition(walletAddress, market);
+          if (result) results.push(result);
+        } catch (error) {
+          console.warn(`Failed to fetch Compound V3 position for ${market.address} on chain ${this.chainId}:`, error);
+        }
+      }
+
+      return results;
+    } catch (error) {
+      console.error(`Error fetching Compound V3 positions on chain ${this.chainId}:`, error);
+      return [];
+    }
+  }
+
+  private async getMarketPosition(walletAddress: string, market: CometMarket): Promise<LendingAccountPositions | null> {
+    const comet = new ethers.Contract(market.address, COMET_ABI, this.provider);
+
+    const [supplied, borrowed, collateralBalances]: [bigint, bigint, bigint[]] = await Promise.all([
+      comet.balanceOf(walletAddress),
+      comet.borrowBalanceOf(walletAddress),
+      Promise.all(market.assets.map(asset => comet.collateralBalanceOf(walletAddress, asset.address))),
+    ]);
+
+    const heldAssets = market.assets
+      .map((asset, index) => ({ asset, balance: collateralBalances[index] }))
+      .filter(held => held.balance > 0n);
+    if (supplied === 0n && borrowed === 0n && heldAssets.length === 0) {
+      return null;
+    }
+
+    const utilization: bigint = await comet.getUtilization();
+    const [supplyRate, borrowRate, isLiquidatable, basePrice, collateralPrices] = await Promise.all([
+      comet.getSupplyRate(utilization),
+      comet.getBorrowRate(utilization),
+      comet.isLiquidatable(walletAddress),
+      comet.getPrice(market.baseTokenPriceFeed),
+      Promise.all(heldAssets.map(held => comet.getPrice(held.asset.priceFeed))),
+    ]);
+
+    const tokenAddresses = [market.baseToken, ...heldAssets.map(held => held.asset.address)];
+    const [metadata, marketPrices] = await Promise.all([
+      tokenMetadataService.getMetadata(this.chainId, tokenAddresses),
+      priceAggregator.getPrices([{ chainId: this.chainId, address: market.baseToken }]),
+    ]);
+
+    // Comet prices are in the market's numeraire; rescale through the base token's USD
+    // price. Without one, assume a USD numeraire (true for stablecoin markets).
+    const cometBasePrice = parseFloat(ethers.formatUnits(basePrice, PRICE_FEED_DECIMALS));
+    const baseUsdPrice = marketPrices[getTokenKey(this.chainId, market.baseToken)]?.price;
+    const toUsd = baseUsdPrice && cometBasePrice > 0 ? baseUsdPrice / cometBasePrice : 1;
+
+    const toBalance = (address: string, raw: bigint, cometPrice: bigint): TokenBalance => {
+      const info = metadata.get(getTokenKey(this.chainId, address));
+      const decimals = info?.decimals ?? 18;
+      const price = parseFloat(ethers.formatUnits(cometPrice, PRICE_FEED_DECIMALS)) * toUsd;
+      return {
+        address,
+        chainId: this.chainId,
+        symbol: info?.symbol || 'UNKNOWN',
+        name: info?.name || 'Unknown Token',
+        balance: raw.toString(),
+        decimals,
+        price,
+        value: amountValue(toTokenAmount(raw, decimals), price),
+        logo: info?.logo,
+      };
+    };
+
+    const asset = toBalance(market.baseToken, supplied, basePrice);
+    const borrowedValue = amountValue(toTokenAmount(borrowed, asset.decimals), asset.price);
+    const collateral: CompoundV3Collateral[] = heldAssets.map((held, index) => ({
+      asset: toBalance(held.asset.address, held.balance, collateralPrices[index]),
+      borrowCollateralFactor: held.asset.borrowCollateralFactor,
+      liquidationThreshold: held.asset.liquidationThreshold,
+    }));
+    const collateralValue = collateral.reduce((sum, item) => sum + item.asset.value, 0);
+
+    const supplyAPR = rateToApr(supplyRate);
+    const borrowAPR = rateToApr(borrowRate);
+    const rewardsEarned = await this.getRewardsEarned(walletAddress, market.address);
+
+    const compoundPosition: CompoundV3Position = {
+      market: market.address,
+      asset,
+      supplied: supplied > 0n ? supplied.toString() : undefined,
+      borrowed: borrowed > 0n ? borrowed.toString() : undefined,
+      supplyAPR,
+      borrowAPR,
+      collateral,
+      isLiquidatable,
+      rewardsEarned,
+    };
+
+    // Collateral earns nothing, so net APY is base interest relative to net worth
+    const netValue = asset.value + collateralValue - borrowedValue;
+    const yearlyInterest = asset.value * supplyAPR / 100 - borrowedValue * borrowAPR / 100;
+    const netAPY = netValue > 0 ? (yearlyInterest / netValue) * 100 : 0;
+
+    const position: DeFiPosition = {
+      id: `compound-v3-${this.chainId}-${market.address}`,
+      chainId: this.chainId,
+      protocol: 'compound',
+      type: 'lending',
+      tokens: [...(supplied > 0n ? [asset] : []), ...collateral.map(item => item.asset)],
+      apy: netAPY,
+      value: netValue, // Signed, so an underwater account's debt reduces totals
+      claimable: rewardsEarned?.reduce((sum, reward) => sum + reward.value, 0) || 0,
+      metadata: compoundPosition,
+    };
+
+    return { positions: [position], account: buildCompoundV3Account(position) };
+  }
+
+  // Base token, price feed and collateral assets for every configured market
+  private async getMarkets(): Promise<CometMarket[]> {
+    if (this.marketsCache && Date.now() - this.marketsCache.fetchedAt < MARKETS_CACHE_TTL_MS) {
+      return this.marketsCache.markets;
+    }
+
+    const markets: CometMarket[] = [];
+    for (const address of this.deployment.markets) {
+      try {
+        const comet = new ethers.Contract(address, COMET_ABI, this.provider);
+        const [baseToken, baseTokenPriceFeed, numAssets] = await Promise.all([
+          comet.baseToken(),
+          comet.baseTokenPriceFeed(),
+          comet.numAssets(),
+        ]);
+        const assetInfos = await Promise.all(
+          Array.from({ length: Number(numAssets) }, (_, index) => comet.getAssetInfo(index))
+        );
+        markets.push({
+          address,
+          baseToken,
+          baseTokenPriceFeed,
+          assets: assetInfos.map(info => ({
+            address: info.asset,
+            priceFeed: info.priceFeed,
+            borrowCollateralFactor: factorToNumber(info.borrowCollateralFactor),
+            liquidationThreshold: factorToNumber(info.liquidateCollateralFactor),
+          })),
+        });
+      } catch (error) {
+        console.warn(`Skipping Compound V3 market ${address} on chain ${this.chainId}:`, error);
+      }
+    }
+
+    this.marketsCache = { markets, fetchedAt: Date.now() };
+    return markets;
+  }
+
+  // COMP (or the market's configured reward token) owed by CometRewards
+  private async getRewardsEarned(walletAddress: string, comet: string): Promise<TokenBalance[] | undefined> {
+    try {
+      const rewards = new ethers.Contract(this.deployment.rewards, REWARDS_ABI, this.provider);
+      const { token, owed }: { token: string; owed: bigint } =
+        await rewards.getRewardOwed.staticCall(comet, walletAddress);
+      if (owed === 0n) return undefined;
+
+      const key = getTokenKey(this.chainId, token);
+      const [metadata, prices] = await Promise.all([
+        tokenMetadataService.getMetadata(this.chainId, [token]),
+        priceAggregator.getPrices([{ chainId: this.chainId, address: token }]),
+      ]);
+      const info = metadata.get(key);
+      const decimals = info?.decimals ?? 18;
+      const price = prices[key]?.price ?? 0;
+
+      return [{
+        address: token,
+        chainId: this.chainId,
+        symbol: info?.symbol || 'COMP',
+        name: info?.name || 'Compound',
+        balance: owed.toString(),
+        decimals,
+        logo: info?.logo,
+        price,
+        value: amountValue(toTokenAmount(owed, decimals), price),
+      }];
+    } catch (error) {
+      console.warn(`Failed to fetch Compound V3 rewards for ${comet} on chain ${this.chainId}:`, error);
+      return undefined;
+    }
+  }
+}
+
+// Account summary for one Comet market. Only collateral assets back borrowing; a base
+// supply can't coexist with a borrow.
+export function buildCompoundV3Account(position: DeFiPosition): LendingAccount {
+  const metadata = position.metadata as CompoundV3Position;
+  return buildLendingAccount({
+    id: position.id,
+    chainId: position.chainId,
+    protocol: 'compound',
+    markets: [
+      {
+        market: metadata.asset.address,
+        asset: metadata.asset,
+        supplied: BigInt(metadata.supplied ?? 0),
+        borrowed: BigInt(metadata.borrowed ?? 0),
+        collateralFactor: 0,
+        isCollateral: false,
+      },
+      ...metadata.collateral.map(item => ({
+        market: item.asset.address,
+        asset: item.asset,
+        supplied: BigInt(item.asset.balance),
+        borrowed: 0n,
+        collateralFactor: item.liquidationThreshold,
+        isCollateral: true,
+      })),
+    ],
+  });
+}
+
+// Factory function
+export function createCompoundV3Service(chainId: number, provider: ethers.Provider = getProvider(chainId)): CompoundV3Integration {
+  return new CompoundV3Integration(chainId, provider);
+}
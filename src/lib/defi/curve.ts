@@ -0,0 +1,460 @@
+import { ethers } from 'ethers';
+import { CurvePosition, DeFiPosition, TokenBalance } from '@/types';
+import { getTokenKey, NATIVE_TOKEN_ADDRESS } from '@/lib/tokens/registry';
+import { tokenMetadataService } from '@/lib/tokens/metadata';
+import { getProvider } from '@/lib/blockchain/providers';
+import { multicall, MulticallResult } from '@/lib/blockchain/multicall';
+import { balanceService } from '@/lib/balances/service';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import { toTokenAmount, shareOfAmount, amountValue, amountToNumber, mulDiv } from '@/lib/utils';
+import {
+  CURVE_CHAIN_ID,
+  CURVE_META_REGISTRY,
+  META_REGISTRY_INTERFACE,
+  CurvePool,
+  curvePoolIndex,
+  decodeResult,
+} from './curvePools';
+
+export const CRV_TOKEN = '0xD533a949740bb3306d119CC777fa900bA034cd52';
+
+// Curve pools use this placeholder for native ETH
+const CURVE_ETH_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+// Base vAPY is the virtual price's growth over a trailing window (needs an archive node)
+const APY_WINDOW_DAYS = 7;
+const MAINNET_BLOCK_TIME_SECONDS = 12;
+const APY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const VIRTUAL_PRICE_SCALE = 10n ** 18n;
+
+// gamma() only exists on crypto pools; stored_rates() distinguishes stableswap-ng
+// from older self-tokenized factory pools
+const POOL_INTERFACE = new ethers.Interface([
+  'function get_virtual_price() external view returns (uint256)',
+  'function gamma() external view returns (uint256)',
+  'function stored_rates() external view returns (uint256[])',
+]);
+
+const LP_TOKEN_INTERFACE = new ethers.Interface([
+  'function balanceOf(address) external view returns (uint256)',
+  'function totalSupply() external view returns (uint256)',
+]);
+
+// claimable_tokens is non-view (it checkpoints the gauge) but returns the CRV a
+// mint would pay out when simulated
+const GAUGE_INTERFACE = new ethers.Interface([
+  'function claimable_tokens(address user) external returns (uint256)',
+  'function reward_count() external view returns (uint256)',
+  'function reward_tokens(uint256 index) external view returns (address)',
+  'function claimable_reward(address user, address token) external view returns (uint256)',
+]);
+
+// Gauges support at most 8 extra reward tokens
+const MAX_GAUGE_REWARDS = 8;
+
+interface CurveHolding {
+  pool: CurvePool;
+  walletBalance: bigint;
+  stakedBalance: bigint;
+}
+
+interface CurvePoolState {
+  name: string;
+  poolType: CurvePosition['poolType'];
+  coins: string[];
+  balances: bigint[];
+  decimals: number[];
+  virtualPrice: bigint;
+  totalSupply: bigint;
+}
+
+interface CurveService {
+  getPositions(walletAddress: string): Promise<DeFiPosition[]>;
+}
+
+// Native ETH is tracked under the registry's native address
+function toTokenAddress(coin: string): string {
+  return coin.toLowerCase() === CURVE_ETH_ADDRESS ? NATIVE_TOKEN_ADDRESS : coin;
+}
+
+export class CurveIntegration implements CurveService {
+  private poolIndex = curvePoolIndex;
+  private apyCache = new Map<string, { apy: number; fetchedAt: number }>();
+
+  async getPositions(walletAddress: string): Promise<DeFiPosition[]> {
+    let holdings: CurveHolding[];
+    try {
+      // Find every pool where the wallet holds LP, either directly or staked in the gauge
+      holdings = await this.findHoldings(walletAddress, await this.poolIndex.getPools());
+    } catch (error) {
+      console.error('Error fetching Curve positions:', error);
+      return [];
+    }
+    if (holdings.length === 0) {
+      return [];
+    }
+
+    // Wallet LP is left out of balance pages, so a pool that can't be valued is
+    // still listed, at 0
+    try {
+      return await this.getValuedPositions(walletAddress, holdings);
+    } catch (error) {
+      console.error('Error valuing Curve positions:', error);
+      return holdings.map(holding => this.getUnvaluedPosition(holding));
+    }
+  }
+
+  private async getValuedPositions(walletAddress: string, holdings: CurveHolding[]): Promise<DeFiPosition[]> {
+    const [states, rewards] = await Promise.all([
+      this.getPoolStates(holdings.map(holding => holding.pool)),
+      this.getGaugeRewards(walletAddress, holdings.filter(holding => holding.stakedBalance > 0n)),
+    ]);
+    const apys = await this.getBaseApys(holdings
+      .filter(holding => states.has(holding.pool.address))
+      .map(holding => ({ pool: holding.pool.address, virtualPrice: states.get(holding.pool.address)!.virtualPrice })));
+
+    // Token metadata (registry first, on-chain for unknown tokens) and prices for
+    // every coin and reward token in one pass
+    const tokenAddresses = [...new Set([
+      ...[...states.values()].flatMap(state => state.coins.map(toTokenAddress)),
+      ...[...rewards.values()].flatMap(poolRewards => poolRewards.map(reward => reward.token)),
+    ].map(address => address.toLowerCase()))];
+    const [metadata, prices] = await Promise.all([
+      tokenMetadataService.getMetadata(CURVE_CHAIN_ID, tokenAddresses),
+      priceAggregator.getPrices(tokenAddresses.map(address => ({ chainId: CURVE_CHAIN_ID, address }))),
+    ]);
+
+    const positions: DeFiPosition[] = [];
+    for (const holding of holdings) {
+      const state = states.get(holding.pool.address);
+      if (!state) {
+        positions.push(this.getUnvaluedPosition(holding));
+        continue;
+      }
+
+      const tokens = state.coins.map((coin, index) => {
+        const address = toTokenAddress(coin);
+        const key = getTokenKey(CURVE_CHAIN_ID, address);
+        const info = metadata.get(key);
+        const price = prices[key]?.price ?? 0;
+        // LP staked in the gauge is still the user's liquidity, so it counts towards the share
+        const amount = shareOfAmount(
+          toTokenAmount(state.balances[index], state.decimals[index]),
+          holding.walletBalance + holding.stakedBalance,
+          state.totalSupply
+        );
+        const token: TokenBalance = {
+          address,
+          chainId: CURVE_CHAIN_ID,
+          symbol: info?.symbol || `COIN${index}`,
+          name: info?.name || `Coin ${index}`,
+          balance: amount.raw.toString(),
+          decimals: state.decimals[index],
+          price,
+          value: amountValue(amount, price),
+          logo: info?.logo,
+        };
+        return token;
+      });
+
+      const gaugeRewards = (rewards.get(holding.pool.address) ?? []).map(reward => {
+        const key = getTokenKey(CURVE_CHAIN_ID, reward.token);
+        const info = metadata.get(key);
+        const decimals = info?.decimals ?? 18;
+        const price = prices[key]?.price ?? 0;
+        const token: TokenBalance = {
+          address: reward.token,
+          chainId: CURVE_CHAIN_ID,
+          symbol: info?.symbol || 'UNKNOWN',
+          name: info?.name || 'Unknown Token',
+          balance: reward.amount.toString(),
+          decimals,
+          price,
+          value: amountValue(toTokenAmount(reward.amount, decimals), price),
+          logo: info?.logo,
+        };
+        return token;
+      });
+
+      const curvePosition: CurvePosition = {
+        pool: holding.pool.address,
+        name: state.name,
+        poolType: state.poolType,
+        lpToken: holding.pool.lpToken,
+        lpTokenBalance: holding.walletBalance.toString(),
+        totalSupply: state.totalSupply.toString(),
+        virtualPrice: amountToNumber(toTokenAmount(state.virtualPrice, 18)),
+        gauge: holding.pool.gauge && holding.stakedBalance > 0n
+          ? { address: holding.pool.gauge, stakedBalance: holding.stakedBalance.toString(), rewards: gaugeRewards }
+          : undefined,
+      };
+
+      const value = this.getPositionValue(holding, state, tokens);
+
+      positions.push({
+        id: `curve-${holding.pool.address}`,
+        chainId: CURVE_CHAIN_ID,
+        protocol: 'curve',
+        type: 'liquidity',
+        tokens,
+        apy: apys.get(holding.pool.address) ?? 0,
+        value,
+        claimable: gaugeRewards.reduce((sum, reward) => sum + reward.value, 0),
+        metadata: curvePosition,
+      });
+    }
+
+    return positions;
+  }
+
+  private getUnvaluedPosition(holding: CurveHolding): DeFiPosition {
+    const curvePosition: CurvePosition = {
+      pool: holding.pool.address,
+      name: 'Curve Pool',
+      lpToken: holding.pool.lpToken,
+      lpTokenBalance: holding.walletBalance.toString(),
+      totalSupply: '0',
+      virtualPrice: 0,
+      gauge: holding.pool.gauge && holding.stakedBalance > 0n
+        ? { address: holding.pool.gauge, stakedBalance: holding.stakedBalance.toString(), rewards: [] }
+        : undefined,
+    };
+
+    return {
+      id: `curve-${holding.pool.address}`,
+      chainId: CURVE_CHAIN_ID,
+      protocol: 'curve',
+      type: 'liquidity',
+      tokens: [],
+      apy: 0,
+      value: 0,
+      claimable: 0,
+      metadata: curvePosition,
+    };
+  }
+
+  // Coin balances give the value whenever every coin is priced. Otherwise stable pools
+  // fall back to the virtual price in their cheapest priced coin, and crypto pools
+  // (which hold equal value in each coin) scale up the coins that are priced.
+  private getPositionValue(holding: CurveHolding, state: CurvePoolState, tokens: TokenBalance[]): number {
+    const priced = tokens.filter(token => token.price > 0);
+    const pricedValue = priced.reduce((sum, token) => sum + token.value, 0);
+    if (priced.length === tokens.length || priced.length === 0) {
+      return pricedValue;
+    }
+
+    if (state.poolType === 'stable' || state.poolType === 'stable-ng') {
+      const lpBalance = holding.walletBalance + holding.stakedBalance;
+      const underlying = mulDiv(lpBalance, state.virtualPrice, VIRTUAL_PRICE_SCALE);
+      return amountValue(toTokenAmount(underlying, 18), Math.min(...priced.map(token => token.price)));
+    }
+    return (pricedValue / priced.length) * tokens.length;
+  }
+
+  // One multicall pass over every LP token and gauge for the wallet's balances. If
+  // that fails, the wallet LP found by the balance backend is used, without staked LP.
+  private async findHoldings(walletAddress: string, pools: CurvePool[]): Promise<CurveHolding[]> {
+    const callData = LP_TOKEN_INTERFACE.encodeFunctionData('balanceOf', [walletAddress]);
+    const gauged = pools.filter(pool => pool.gauge);
+
+    let results: MulticallResult[];
+    try {
+      results = await multicall(CURVE_CHAIN_ID, [
+        ...pools.map(pool => ({ target: pool.lpToken, callData })),
+        ...gauged.map(pool => ({ target: pool.gauge!, callData })),
+      ]);
+    } catch (error) {
+      console.warn('Failed to scan Curve LP balances, using wallet holdings only:', error);
+      const poolsByLpToken = new Map(pools.map(pool => [getTokenKey(CURVE_CHAIN_ID, pool.lpToken), pool]));
+      const lpHoldings = await balanceService.getCurveLpHoldings(walletAddress);
+      return lpHoldings.flatMap(holding => {
+        const pool = poolsByLpToken.get(getTokenKey(CURVE_CHAIN_ID, holding.address));
+        return pool ? [{ pool, walletBalance: BigInt(holding.balance), stakedBalance: 0n }] : [];
+      });
+    }
+
+    const decodeBalance = (result: MulticallResult): bigint =>
+      decodeResult(LP_TOKEN_INTERFACE, 'balanceOf', result)?.[0] ?? 0n;
+
+    const staked = new Map<string, bigint>();
+    gauged.forEach((pool, index) => {
+      staked.set(pool.address, decodeBalance(results[pools.length + index]));
+    });
+
+    return pools
+      .map((pool, index) => ({
+        pool,
+        walletBalance: decodeBalance(results[index]),
+        stakedBalance: staked.get(pool.address) ?? 0n,
+      }))
+      .filter(holding => holding.walletBalance > 0n || holding.stakedBalance > 0n);
+  }
+
+  // Coins, balances and virtual price for each pool. The registry pads coin arrays to
+  // eight entries, so they are trimmed to the pool's coin count.
+  private async getPoolStates(pools: CurvePool[]): Promise<Map<string, CurvePoolState>> {
+    const registryCall = (method: string, pool: CurvePool) => ({
+      target: CURVE_META_REGISTRY,
+      callData: META_REGISTRY_INTERFACE.encodeFunctionData(method, [pool.address]),
+    });
+    const CALLS_PER_POOL = 9;
+    const results = await multicall(CURVE_CHAIN_ID, pools.flatMap(pool => [
+      registryCall('get_pool_name', pool),
+      registryCall('get_n_coins', pool),
+      registryCall('get_coins', pool),
+      registryCall('get_balances', pool),
+      registryCall('get_decimals', pool),
+      { target: pool.address, callData: POOL_INTERFACE.encodeFunctionData('get_virtual_price') },
+      { target: pool.address, callData: POOL_INTERFACE.encodeFunctionData('gamma') },
+      { target: pool.address, callData: POOL_INTERFACE.encodeFunctionData('stored_rates') },
+      { target: pool.lpToken, callData: LP_TOKEN_INTERFACE.encodeFunctionData('totalSupply') },
+    ]));
+
+    const states = new Map<string, CurvePoolState>();
+    pools.forEach((pool, index) => {
+      const [name, nCoins, coins, balances, decimals, virtualPrice, gamma, storedRates, totalSupply] =
+        results.slice(index * CALLS_PER_POOL, (index + 1) * CALLS_PER_POOL);
+
+      const coinCount = Number(decodeResult(META_REGISTRY_INTERFACE, 'get_n_coins', nCoins)?.[0] ?? 0);
+      const coinList = decodeResult(META_REGISTRY_INTERFACE, 'get_coins', coins)?.[0];
+      const balanceList = decodeResult(META_REGISTRY_INTERFACE, 'get_balances', balances)?.[0];
+      const decimalList = decodeResult(META_REGISTRY_INTERFACE, 'get_decimals', decimals)?.[0];
+      const supply: bigint | undefined = decodeResult(LP_TOKEN_INTERFACE, 'totalSupply', totalSupply)?.[0];
+      if (coinCount === 0 || !coinList || !balanceList || !decimalList || !supply) {
+        console.warn(`Skipping Curve pool ${pool.address}: registry data unavailable`);
+        return;
+      }
+
+      // NG pools are their own LP token; older factory pools can be too, so the
+      // interface decides
+      const isCrypto = gamma.success && gamma.returnData !== '0x';
+      const isSelfTokenized = pool.lpToken.toLowerCase() === pool.address.toLowerCase();
+      let poolType: CurvePosition['poolType'];
+      if (isCrypto) {
+        poolType = isSelfTokenized ? 'crypto-ng' : 'crypto';
+      } else {
+        poolType = isSelfTokenized && storedRates.success && storedRates.returnData !== '0x' ? 'stable-ng' : 'stable';
+      }
+
+      states.set(pool.address, {
+        name: decodeResult(META_REGISTRY_INTERFACE, 'get_pool_name', name)?.[0] || 'Curve Pool',
+        poolType,
+        coins: Array.from(coinList as string[]).slice(0, coinCount),
+        balances: Array.from(balanceList as bigint[]).slice(0, coinCount),
+        decimals: Array.from(decimalList as bigint[]).slice(0, coinCount).map(Number),
+        virtualPrice: decodeResult(POOL_INTERFACE, 'get_virtual_price', virtualPrice)?.[0] ?? 0n,
+        totalSupply: supply,
+      });
+    });
+
+    return states;
+  }
+
+  // Unclaimed CRV plus any extra reward tokens for LP staked in each gauge. Older
+  // gauges without extra rewards simply fail the reward_count call.
+  private async getGaugeRewards(
+    walletAddress: string,
+    holdings: CurveHolding[]
+  ): Promise<Map<string, { token: string; amount: bigint }[]>> {
+    const rewards = new Map<string, { token: string; amount: bigint }[]>();
+    const gauged = holdings.filter(holding => holding.pool.gauge);
+    if (gauged.length === 0) return rewards;
+
+    try {
+      const baseResults = await multicall(CURVE_CHAIN_ID, gauged.flatMap(holding => [
+        { target: holding.pool.gauge!, callData: GAUGE_INTERFACE.encodeFunctionData('claimable_tokens', [walletAddress]) },
+        { target: holding.pool.gauge!, callData: GAUGE_INTERFACE.encodeFunctionData('reward_count') },
+      ]));
+
+      const rewardSlots = gauged.flatMap((holding, index) => {
+        const crv: bigint = decodeResult(GAUGE_INTERFACE, 'claimable_tokens', baseResults[index * 2])?.[0] ?? 0n;
+        rewards.set(holding.pool.address, crv > 0n ? [{ token: CRV_TOKEN, amount: crv }] : []);
+
+        const count = Number(decodeResult(GAUGE_INTERFACE, 'reward_count', baseResults[index * 2 + 1])?.[0] ?? 0);
+        return Array.from({ length: Math.min(count, MAX_GAUGE_REWARDS) }, (_, slot) => ({ holding, slot }));
+      });
+      if (rewardSlots.length === 0) return rewards;
+
+      const tokenResults = await multicall(CURVE_CHAIN_ID, rewardSlots.map(({ holding, slot }) => ({
+        target: holding.pool.gauge!,
+        callData: GAUGE_INTERFACE.encodeFunctionData('reward_tokens', [slot]),
+      })));
+      const rewardTokens = rewardSlots
+        .map(({ holding }, index) => ({
+          holding,
+          token: decodeResult(GAUGE_INTERFACE, 'reward_tokens', tokenResults[index])?.[0] as string | undefined,
+        }))
+        .filter((reward): reward is { holding: CurveHolding; token: string } =>
+          !!reward.token && reward.token !== ethers.ZeroAddress);
+
+      const claimableResults = await multicall(CURVE_CHAIN_ID, rewardTokens.map(({ holding, token }) => ({
+        target: holding.pool.gauge!,
+        callData: GAUGE_INTERFACE.encodeFunctionData('claimable_reward', [walletAddress, token]),
+      })));
+      rewardTokens.forEach(({ holding, token }, index) => {
+        const amount: bigint = decodeResult(GAUGE_INTERFACE, 'claimable_reward', claimableResults[index])?.[0] ?? 0n;
+        if (amount === 0n) return;
+
+        // CRV can also be distributed as an extra reward; merge it with the minted CRV
+        const poolRewards = rewards.get(holding.pool.address)!;
+        const existing = poolRewards.find(reward => reward.token.toLowerCase() === token.toLowerCase());
+        if (existing) {
+          existing.amount += amount;
+        } else {
+          poolRewards.push({ token, amount });
+        }
+      });
+    } catch (error) {
+      console.warn('Failed to fetch Curve gauge rewards:', error);
+    }
+
+    return rewards;
+  }
+
+  // Base vAPY from trading fees: the virtual price's compounded growth over the
+  // trailing window, in percent
+  private async getBaseApys(pools: { pool: string; virtualPrice: bigint }[]): Promise<Map<string, number>> {
+    const apys = new Map<string, number>();
+    const stale = pools.filter(({ pool }) => {
+      const cached = this.apyCache.get(pool);
+      if (cached && Date.now() - cached.fetchedAt < APY_CACHE_TTL_MS) {
+        apys.set(pool, cached.apy);
+        return false;
+      }
+      return true;
+    });
+    if (stale.length === 0) return apys;
+
+    try {
+      const provider = getProvider(CURVE_CHAIN_ID);
+      const blockNumber = await provider.getBlockNumber();
+      const pastBlock = blockNumber - Math.round((APY_WINDOW_DAYS * 24 * 60 * 60) / MAINNET_BLOCK_TIME_SECONDS);
+
+      await Promise.all(stale.map(async ({ pool, virtualPrice }) => {
+        let apy = 0;
+        try {
+          const contract = new ethers.Contract(pool, POOL_INTERFACE, provider);
+          const pastVirtualPrice: bigint = await contract.get_virtual_price({ blockTag: pastBlock });
+          if (pastVirtualPrice > 0n && virtualPrice > pastVirtualPrice) {
+            const ratio = Number((virtualPrice * 10n ** 12n) / pastVirtualPrice) / 1e12;
+            apy = (Math.pow(ratio, 365 / APY_WINDOW_DAYS) - 1) * 100;
+          }
+        } catch {
+          // Pools younger than the window (or nodes without archive state) report no base APY
+        }
+        this.apyCache.set(pool, { apy, fetchedAt: Date.now() });
+        apys.set(pool, apy);
+      }));
+    } catch (error) {
+      console.warn('Failed to compute Curve base APYs:', error);
+    }
+
+    return apys;
+  }
+}
+
+// Factory function
+export function createCurveService(): CurveIntegration {
+  return new CurveIntegration();
+}
@@ -0,0 +1,124 @@
+import { ethers } from 'ethers';
+import { getTokenKey } from '@/lib/tokens/registry';
+import { getProvider } from '@/lib/blockchain/providers';
+import { multicall, MulticallResult } from '@/lib/blockchain/multicall';
+
+// The MetaRegistry aggregates every Curve registry and factory (stable, crypto, NG) on Ethereum
+export const CURVE_CHAIN_ID = 1;
+export const CURVE_META_REGISTRY = '0xF98B45FA17DE75FB1aD0e7aFD971b0ca00e379fC';
+
+// How long the pool index is reused before checking the MetaRegistry for new pools
+const POOL_INDEX_TTL_MS = 60 * 60 * 1000;
+
+export const META_REGISTRY_INTERFACE = new ethers.Interface([
+  'function pool_count() external view returns (uint256)',
+  'function pool_list(uint256 index) external view returns (address)',
+  'function get_lp_token(address pool) external view returns (address)',
+  'function get_gauge(address pool) external view returns (address)',
+  'function get_pool_name(address pool) external view returns (string)',
+  'function get_n_coins(address pool) external view returns (uint256)',
+  'function get_coins(address pool) external view returns (address[8])',
+  'function get_balances(address pool) external view returns (uint256[8])',
+  'function get_decimals(address pool) external view returns (uint256[8])',
+]);
+
+export interface CurvePool {
+  address: string;
+  lpToken: string;
+  gauge?: string;
+}
+
+export function decodeResult(iface: ethers.Interface, method: string, result?: MulticallResult): ethers.Result | null {
+  if (!result?.success || result.returnData === '0x') return null;
+  try {
+    return iface.decodeFunctionResult(method, result.returnData);
+  } catch {
+    return null;
+  }
+}
+
+// Cached index of every pool in the MetaRegistry with its LP token and gauge.
+// Concurrent callers share one refresh.
+export class CurvePoolIndex {
+  private pools: CurvePool[] = [];
+  private indexedAt = 0;
+  private indexing: Promise<CurvePool[]> | null = null;
+
+  async getPools(): Promise<CurvePool[]> {
+    if (this.pools.length > 0 && Date.now() - this.indexedAt < POOL_INDEX_TTL_MS) {
+      return this.pools;
+    }
+    if (!this.indexing) {
+      this.indexing = this.refresh()
+        .catch(error => {
+          // Serve the stale index rather than nothing if the refresh fails
+          if (this.pools.length === 0) throw error;
+          console.warn('Failed to refresh Curve pool index, using cached pools:', error);
+          return this.pools;
+        })
+        .finally(() => {
+          this.indexing = null;
+        });
+    }
+    return this.indexing;
+  }
+
+  private async refresh(): Promise<CurvePool[]> {
+    const registry = new ethers.Contract(CURVE_META_REGISTRY, META_REGISTRY_INTERFACE, getProvider(CURVE_CHAIN_ID));
+    const poolCount = Number(await registry.pool_count());
+
+    // The MetaRegistry concatenates its handlers' lists, so indices shift as any
+    // registry grows. Re-list every pool but only resolve pools not seen before.
+    const addressResults = await multicall(CURVE_CHAIN_ID, Array.from({ length: poolCount }, (_, index) => ({
+      target: CURVE_META_REGISTRY,
+      callData: META_REGISTRY_INTERFACE.encodeFunctionData('pool_list', [index]),
+    })));
+    const known = new Map(this.pools.map(pool => [pool.address.toLowerCase(), pool]));
+    const listed: string[] = addressResults
+      .map(result => decodeResult(META_REGISTRY_INTERFACE, 'pool_list', result)?.[0] as string | undefined)
+      .filter((address): address is string => !!address && address !== ethers.ZeroAddress);
+
+    const newAddresses = listed.filter(address => !known.has(address.toLowerCase()));
+    const lpResults = await multicall(CURVE_CHAIN_ID, newAddresses.map(address => ({
+      target: CURVE_META_REGISTRY,
+      callData: META_REGISTRY_INTERFACE.encodeFunctionData('get_lp_token', [address]),
+    })));
+    newAddresses.forEach((address, index) => {
+      const lpToken: string | undefined = decodeResult(META_REGISTRY_INTERFACE, 'get_lp_token', lpResults[index])?.[0];
+      if (lpToken && lpToken !== ethers.ZeroAddress) {
+        known.set(address.toLowerCase(), { address, lpToken });
+      }
+    });
+
+    const pools = listed
+      .map(address => known.get(address.toLowerCase()))
+      .filter((pool): pool is CurvePool => !!pool);
+
+    // Gauges can be added to a pool at any time, so recheck every pool without one
+    const ungauged = pools.filter(pool => !pool.gauge);
+    const gaugeResults = await multicall(CURVE_CHAIN_ID, ungauged.map(pool => ({
+      target: CURVE_META_REGISTRY,
+      callData: META_REGISTRY_INTERFACE.encodeFunctionData('get_gauge', [pool.address]),
+    })));
+    gaugeResults.forEach((result, index) => {
+      const gauge: string | undefined = decodeResult(META_REGISTRY_INTERFACE, 'get_gauge', result)?.[0];
+      if (gauge && gauge !== ethers.ZeroAddress) {
+        ungauged[index].gauge = gauge;
+      }
+    });
+
+    this.pools = pools;
+    this.indexedAt = Date.now();
+    return pools;
+  }
+}
+
+// Shared by the Curve integration and balance pages, which leave held LP tokens out
+export const curvePoolIndex = new CurvePoolIndex();
+
+// Token keys of every indexed pool's LP token. Held LP tokens are valued as Curve
+// positions rather than token balances.
+export async function getCurveLpTokenKeys(): Promise<Set<string>> {
+  const pools = await curvePoolIndex.getPools();
+  return new Set(pools.map(pool => getTokenKey(CURVE_CHAIN_ID, pool.lpToken)));
+}
@@ -0,0 +1,195 @@
+import { ethers } from 'ethers';
+import { DeFiPosition, TokenBalance, VaultPosition } from '@/types';
+import { getTokenKey } from '@/lib/tokens/registry';
+import { tokenMetadataService } from '@/lib/tokens/metadata';
+import { ERC4626_INTERFACE } from '@/lib/tokens/vaults';
+import { getProvider } from '@/lib/blockchain/providers';
+import { multicall, MulticallResult } from '@/lib/blockchain/multicall';
+import { balanceService, BALANCE_CHAIN_IDS } from '@/lib/balances/service';
+import { VaultHolding } from '@/lib/balances/types';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import { toTokenAmount, amountValue, amountToNumber } from '@/lib/utils';
+
+// Share price samples, longest window first. Vaults younger than a window fall
+// through to the next one. Needs an archive node.
+const APY_SAMPLE_DAYS = [30, 7, 1];
+const APY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Average block times, used to pick sample blocks; the APY uses the sampled
+// block's actual timestamp
+const BLOCK_TIME_SECONDS: Record<number, number> = {
+  1: 12,
+  10: 2,
+  137: 2,
+  8453: 2,
+  42161: 0.25,
+};
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// Amounts are null when the vault reverted on convertToAssets
+interface VaultState {
+  holding: VaultHolding;
+  assets: bigint | null; // Underlying redeemable for the held shares
+  assetsPerShare: bigint | null; // Underlying per whole share
+}
+
+interface VaultService {
+  getPositions(walletAddress: string): Promise<DeFiPosition[]>;
+}
+
+export function getVaultPositionId(chainId: number, vault: string): string {
+  return `erc4626-${chainId}-${vault.toLowerCase()}`;
+}
+
+export class ERC4626Integration implements VaultService {
+  private apyCache = new Map<string, { apy: number; fetchedAt: number }>();
+
+  async getPositions(walletAddress: string): Promise<DeFiPosition[]> {
+    try {
+      const holdings = await balanceService.getVaultHoldings(BALANCE_CHAIN_IDS, walletAddress);
+      if (holdings.length === 0) {
+        return [];
+      }
+
+      const chainIds = [...new Set(holdings.map(holding => holding.chainId))];
+      const positionsByChain = await Promise.all(chainIds.map(async chainId => {
+        try {
+          return await this.getChainPositions(chainId, holdings.filter(holding => holding.chainId === chainId));
+        } catch (error) {
+          console.warn(`Failed to fetch ERC-4626 vault positions on chain ${chainId}:`, error);
+          return [];
+        }
+      }));
+
+      return positionsByChain.flat();
+    } catch (error) {
+      console.error('Error fetching ERC-4626 vault positions:', error);
+      return [];
+    }
+  }
+
+  // Every detected vault becomes a position. One that can't be valued (reverting
+  // convertToAssets, unpriced asset) is reported at 0 rather than dropped, since its
+  // shares are already left out of the token list.
+  private async getChainPositions(chainId: number, holdings: VaultHolding[]): Promise<DeFiPosition[]> {
+    const addresses = [...new Set(holdings.flatMap(holding => [holding.address, holding.asset]))];
+    const metadata = await tokenMetadataService.getMetadata(chainId, addresses);
+
+    // Shares are converted at the vault's own rate, for the held balance and for one whole share
+    const oneShare = (holding: VaultHolding) =>
+      10n ** BigInt(metadata.get(getTokenKey(chainId, holding.address))?.decimals ?? 18);
+    const results = await multicall(chainId, holdings.flatMap(holding => [
+      { target: holding.address, callData: ERC4626_INTERFACE.encodeFunctionData('convertToAssets', [BigInt(holding.balance)]) },
+      { target: holding.address, callData: ERC4626_INTERFACE.encodeFunctionData('convertToAssets', [oneShare(holding)]) },
+    ]));
+    const decodeAssets = (result: MulticallResult): bigint | null => {
+      if (!result.success || result.returnData === '0x') return null;
+      return ERC4626_INTERFACE.decodeFunctionResult('convertToAssets', result.returnData)[0];
+    };
+
+    const states: VaultState[] = holdings.map((holding, index) => ({
+      holding,
+      assets: decodeAssets(results[index * 2]),
+      assetsPerShare: decodeAssets(results[index * 2 + 1]),
+    }));
+
+    const [prices, apys] = await Promise.all([
+      priceAggregator.getPrices(states.map(state => ({ chainId, address: state.holding.asset }))),
+      Promise.all(states.map(state => state.assetsPerShare === null
+        ? 0
+        : this.getApy(chainId, state.holding.address, oneShare(state.holding), state.assetsPerShare))),
+    ]);
+
+    return states.map((state, index) => {
+      const { holding } = state;
+      const shareInfo = metadata.get(getTokenKey(chainId, holding.address));
+      const assetInfo = metadata.get(getTokenKey(chainId, holding.asset));
+      const assetDecimals = assetInfo?.decimals ?? 18;
+
+      const price = prices[getTokenKey(chainId, holding.asset)]?.price ?? 0;
+      const value = state.assets === null ? 0 : amountValue(toTokenAmount(state.assets, assetDecimals), price);
+
+      const token: TokenBalance = {
+        address: holding.asset,
+        chainId,
+        symbol: assetInfo?.symbol || 'UNKNOWN',
+        name: assetInfo?.name || 'Unknown Token',
+        balance: (state.assets ?? 0n).toString(),
+        decimals: assetDecimals,
+        price,
+        value,
+        logo: assetInfo?.logo,
+      };
+
+      const vaultPosition: VaultPosition = {
+        vault: holding.address,
+        symbol: shareInfo?.symbol || 'UNKNOWN',
+        name: shareInfo?.name || 'Unknown Vault',
+        shares: BigInt(holding.balance).toString(),
+        shareDecimals: shareInfo?.decimals ?? 18,
+        sharePrice: state.assetsPerShare === null ? 0 : amountToNumber(toTokenAmount(state.assetsPerShare, assetDecimals)),
+      };
+
+      const position: DeFiPosition = {
+        id: getVaultPositionId(chainId, holding.address),
+        chainId,
+        protocol: 'erc4626',
+        type: 'farming',
+        tokens: [token],
+        apy: apys[index],
+        value,
+        claimable: 0, // Yield compounds into the share price
+        metadata: vaultPosition,
+      };
+      return position;
+    });
+  }
+
+  // Annualized share price growth since the longest sample window the vault has
+  // existed for, in percent. 0 when no sample can be read.
+  private async getApy(chainId: number, vault: string, oneShare: bigint, assetsPerShare: bigint): Promise<number> {
+    const key = getTokenKey(chainId, vault);
+    const cached = this.apyCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < APY_CACHE_TTL_MS) {
+      return cached.apy;
+    }
+
+    let apy = 0;
+    try {
+      const provider = getProvider(chainId);
+      const contract = new ethers.Contract(vault, ERC4626_INTERFACE, provider);
+      const latest = await provider.getBlock('latest');
+      const blockTime = BLOCK_TIME_SECONDS[chainId] ?? 12;
+
+      for (const days of APY_SAMPLE_DAYS) {
+        const blockTag = latest!.number - Math.round((days * 24 * 60 * 60) / blockTime);
+        if (blockTag <= 0) continue;
+        try {
+          const [pastAssetsPerShare, block]: [bigint, ethers.Block | null] = await Promise.all([
+            contract.convertToAssets(oneShare, { blockTag }),
+            provider.getBlock(blockTag),
+          ]);
+          const elapsed = latest!.timestamp - (block?.timestamp ?? 0);
+          if (pastAssetsPerShare === 0n || !block || elapsed <= 0) continue;
+
+          const ratio = Number((assetsPerShare * 10n ** 12n) / pastAssetsPerShare) / 1e12;
+          apy = Math.max((Math.pow(ratio, SECONDS_PER_YEAR / elapsed) - 1) * 100, 0);
+          break;
+        } catch {
+          // The vault didn't exist yet at this block; try a shorter window
+        }
+      }
+    } catch (error) {
+      console.warn(`Failed to estimate APY for vault ${vault} on chain ${chainId}:`, error);
+    }
+
+    this.apyCache.set(key, { apy, fetchedAt: Date.now() });
+    return apy;
+  }
+}
+
+// Factory function
+export function createERC4626Service(): ERC4626Integration {
+  return new ERC4626Integration();
+}
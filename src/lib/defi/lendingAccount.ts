@@ -0,0 +1,87 @@
+import { DeFiPosition, LendingAccount, LendingCollateral, TokenBalance } from '@/types';
+import { toTokenAmount, amountValue, amountToNumber } from '@/lib/utils';
+
+// An integration's positions together with the account they add up to
+export interface LendingAccountPositions {
+  positions: DeFiPosition[];
+  account: LendingAccount | null; // null when the wallet has no positions
+}
+
+// One market's balances for an account, in the asset's raw base units
+export interface LendingMarketBalance {
+  market: string;
+  asset: TokenBalance; // price and decimals are used; balance is ignored
+  supplied: bigint;
+  borrowed: bigint;
+  collateralFactor: number;
+  isCollateral: boolean;
+}
+
+export interface LendingAccountInput {
+  id: string;
+  chainId: number;
+  protocol: DeFiPosition['protocol'];
+  markets: LendingMarketBalance[];
+  // Protocol-reported headroom, borrow limit minus debt (negative for a shortfall), e.g.
+  // from Comptroller.getAccountLiquidity. Preferred over the collateral-factor sum when
+  // given, since it reflects the protocol's own math.
+  liquidity?: number;
+}
+
+// Health factor, capacity used and per-collateral liquidation prices for an account
+export function buildLendingAccount(input: LendingAccountInput): LendingAccount {
+  const valued = input.markets.map(market => {
+    const suppliedAmount = toTokenAmount(market.supplied, market.asset.decimals);
+    const borrowedAmount = toTokenAmount(market.borrowed, market.asset.decimals);
+    return {
+      ...market,
+      suppliedAmount,
+      borrowedAmount,
+      suppliedValue: amountValue(suppliedAmount, market.asset.price),
+      borrowedValue: amountValue(borrowedAmount, market.asset.price),
+    };
+  });
+
+  const collateralMarkets = valued.filter(market => market.isCollateral && market.supplied > 0n);
+  const totalCollateral = collateralMarkets.reduce((sum, market) => sum + market.suppliedValue, 0);
+  const totalBorrowed = valued.reduce((sum, market) => sum + market.borrowedValue, 0);
+  const borrowLimit = input.liquidity !== undefined
+    ? totalBorrowed + input.liquidity
+    : collateralMarkets.reduce((sum, market) => sum + market.suppliedValue * market.collateralFactor, 0);
+
+  const collateral: LendingCollateral[] = collateralMarkets.map(market => {
+    // Solve borrowLimit(p) = totalBorrowed(p) for this asset's price p, where both
+    // sides move with p if the asset is supplied and borrowed at once
+    const supplied = amountToNumber(market.suppliedAmount);
+    const borrowed = amountToNumber(market.borrowedAmount);
+    const otherLimit = borrowLimit - market.suppliedValue * market.collateralFactor;
+    const otherBorrowed = totalBorrowed - market.borrowedValue;
+    const sensitivity = supplied * market.collateralFactor - borrowed;
+    const liquidationPrice = totalBorrowed > 0 && sensitivity > 0
+      ? (otherBorrowed - otherLimit) / sensitivity
+      : null;
+
+    return {
+      market: market.market,
+      asset: {
+        ...market.asset,
+        balance: market.supplied.toString(),
+        value: market.suppliedValue,
+      },
+      collateralFactor: market.collateralFactor,
+      liquidationPrice: liquidationPrice !== null && liquidationPrice > 0 ? liquidationPrice : null,
+    };
+  });
+
+  return {
+    id: input.id,
+    chainId: input.chainId,
+    protocol: input.protocol,
+    totalCollateral,
+    totalBorrowed,
+    borrowLimit,
+    healthFactor: totalBorrowed > 0 ? borrowLimit / totalBorrowed : null,
+    borrowCapacityUsed: borrowLimit > 0 ? (totalBorrowed / borrowLimit) * 100 : totalBorrowed > 0 ? 100 : 0,
+    collateral,
+  };
+}
@@ -0,0 +1,261 @@
+import { ethers } from 'ethers';
+import { DeFiPosition, StakingPosition, TokenBalance } from '@/types';
+import { getTokenKey, NATIVE_TOKEN_ADDRESS } from '@/lib/tokens/registry';
+import { getProvider } from '@/lib/blockchain/providers';
+import { balanceService } from '@/lib/balances/service';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import {
+  LIQUID_STAKING_CHAIN_IDS,
+  LiquidStakingToken,
+  RateSource,
+  getLiquidStakingToken,
+} from '@/lib/tokens/liquidStaking';
+import { toTokenAmount, amountValue, mulDiv } from '@/lib/utils';
+
+// Lido withdrawal requests are ERC-721s held by the requester
+export const LIDO_WITHDRAWAL_QUEUE = '0x889edC2eDab5f40e902b864aD4d7AdE8E412F9B1';
+
+export function getLidoWithdrawalPositionId(requestId: bigint | string): string {
+  return `lido-withdrawal-${requestId}`;
+}
+
+// Bridged tokens carry no exchange rate of their own, so every chain uses mainnet's
+const RATE_CONTRACTS: Record<Exclude<RateSource, 'stETH'>, { address: string; method: string }> = {
+  wstETH: { address: '0x7f39c581f595b53c5cb19bd0b3f8da6c935e2ca0', method: 'stEthPerToken' },
+  rETH: { address: '0xae78736cd615f374d3085123a210448e74fc6393', method: 'getExchangeRate' },
+  cbETH: { address: '0xbe9895146f7af43049ca1c1ae358b0541ea49704', method: 'exchangeRate' },
+};
+
+const RATE_SCALE = 10n ** 18n;
+
+// Staking APR is the exchange rate's growth over a trailing window (needs an archive node)
+const APR_WINDOW_DAYS = 7;
+const MAINNET_BLOCK_TIME_SECONDS = 12;
+const APR_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Lido doesn't publish a finalization time on-chain; requests typically finalize within days
+const LIDO_WITHDRAWAL_ESTIMATE_SECONDS = 5 * 24 * 60 * 60;
+
+const WITHDRAWAL_QUEUE_ABI = [
+  'function getWithdrawalRequests(address owner) external view returns (uint256[])',
+  'function getWithdrawalStatus(uint256[] requestIds) external view returns (tuple(uint256 amountOfStETH, uint256 amountOfShares, address owner, uint256 timestamp, bool isFinalized, bool isClaimed)[])',
+];
+
+interface LiquidStakingHolding {
+  chainId: number;
+  token: LiquidStakingToken;
+  address: string;
+  balance: bigint;
+}
+
+interface LiquidStakingService {
+  getPositions(walletAddress: string): Promise<DeFiPosition[]>;
+}
+
+export class LiquidStakingIntegration implements LiquidStakingService {
+  private aprCache: { aprs: Record<RateSource, number>; fetchedAt: number } | null = null;
+
+  async getPositions(walletAddress: string): Promise<DeFiPosition[]> {
+    try {
+      const [holdings, withdrawals] = await Promise.all([
+        this.getHoldings(walletAddress),
+        this.getWithdrawalRequests(walletAddress),
+      ]);
+      if (holdings.length === 0 && withdrawals.length === 0) {
+        return [];
+      }
+
+      const [rates, aprs, ethPrice] = await Promise.all([
+        this.getRates(),
+        this.getAprs(),
+        this.getEthPrice(),
+      ]);
+
+      // Balance pages leave these tokens out, so one without a rate is still listed, at 0
+      const positions = holdings.map(holding => {
+        const rate = rates[holding.token.rateSource] ?? 0n;
+        const underlying = mulDiv(holding.balance, rate, RATE_SCALE);
+        const value = amountValue(toTokenAmount(underlying, 18), ethPrice);
+
+        const token: TokenBalance = {
+          address: holding.address,
+          chainId: holding.chainId,
+          symbol: holding.token.symbol,
+          name: holding.token.name,
+          balance: holding.balance.toString(),
+          decimals: 18,
+          price: amountValue(toTokenAmount(rate, 18), ethPrice),
+          value,
+        };
+
+        const stakingPosition: StakingPosition = {
+          stakedAmount: underlying.toString(),
+          rewards: '0', // Rewards accrue into the exchange rate (or stETH balance)
+          exchangeRate: Number(rate * 1000000n / RATE_SCALE) / 1e6,
+        };
+
+        const position: DeFiPosition = {
+          id: `${holding.token.protocol}-${holding.chainId}-${holding.token.symbol.toLowerCase()}`,
+          chainId: holding.chainId,
+          protocol: holding.token.protocol,
+          type: 'staking',
+          tokens: [token],
+          apy: aprs[holding.token.rateSource],
+          value,
+          claimable: 0,
+          metadata: stakingPosition,
+        };
+        return position;
+      });
+
+      const now = Math.floor(Date.now() / 1000);
+      const unstaking = withdrawals.map(request => {
+        const value = amountValue(toTokenAmount(request.amountOfStETH, 18), ethPrice);
+        const claimable = request.isFinalized;
+
+        const stakingPosition: StakingPosition = {
+          stakedAmount: request.amountOfStETH.toString(),
+          rewards: '0', // Withdrawal requests stop earning once queued
+          unstakingPeriod: claimable
+            ? 0
+            : Math.max(request.timestamp + LIDO_WITHDRAWAL_ESTIMATE_SECONDS - now, 0),
+          withdrawal: {
+            requestId: request.requestId.toString(),
+            requestedAt: request.timestamp,
+            status: claimable ? 'claimable' : 'pending',
+          },
+        };
+
+        const position: DeFiPosition = {
+          id: getLidoWithdrawalPositionId(request.requestId),
+          chainId: 1,
+          protocol: 'lido',
+          type: 'staking',
+          tokens: [{
+            address: NATIVE_TOKEN_ADDRESS,
+            chainId: 1,
+            symbol: 'ETH',
+            name: 'Ethereum',
+            balance: request.amountOfStETH.toString(),
+            decimals: 18,
+            price: ethPrice,
+            value,
+          }],
+          apy: 0,
+          value,
+          claimable: claimable ? value : 0,
+          metadata: stakingPosition,
+        };
+        return position;
+      });
+
+      return [...positions, ...unstaking];
+    } catch (error) {
+      console.error('Error fetching liquid staking positions:', error);
+      return [];
+    }
+  }
+
+  // The same holdings balance pages leave out, so every one gets a position
+  private async getHoldings(walletAddress: string): Promise<LiquidStakingHolding[]> {
+    const holdings = await balanceService.getLiquidStakingHoldings(LIQUID_STAKING_CHAIN_IDS, walletAddress);
+    return holdings.flatMap(holding => {
+      const token = getLiquidStakingToken(holding.chainId, holding.address);
+      return token ? [{ chainId: holding.chainId, token, address: holding.address, balance: BigInt(holding.balance) }] : [];
+    });
+  }
+
+  // ETH per token, scaled by 1e18. stETH rebases, so it is always 1:1. A rate that
+  // can't be read is null, without affecting the others.
+  private async getRates(blockTag?: number): Promise<Record<RateSource, bigint | null>> {
+    const provider = getProvider(1);
+    const overrides = blockTag !== undefined ? { blockTag } : {};
+    const [wstETH, rETH, cbETH] = await Promise.all(
+      (['wstETH', 'rETH', 'cbETH'] as const).map(async source => {
+        const { address, method } = RATE_CONTRACTS[source];
+        const contract = new ethers.Contract(address, [`function ${method}() external view returns (uint256)`], provider);
+        try {
+          return await (contract.getFunction(method)(overrides) as Promise<bigint>);
+        } catch (error) {
+          console.warn(`Failed to read ${source} exchange rate:`, error);
+          return null;
+        }
+      })
+    );
+    return { stETH: RATE_SCALE, wstETH, rETH, cbETH };
+  }
+
+  // Annualized exchange-rate growth over the trailing window, in percent. stETH earns
+  // the same rewards as wstETH, through rebases instead of the rate.
+  private async getAprs(): Promise<Record<RateSource, number>> {
+    if (this.aprCache && Date.now() - this.aprCache.fetchedAt < APR_CACHE_TTL_MS) {
+      return this.aprCache.aprs;
+    }
+
+    try {
+      const blockNumber = await getProvider(1).getBlockNumber();
+      const pastBlock = blockNumber - Math.round((APR_WINDOW_DAYS * 24 * 60 * 60) / MAINNET_BLOCK_TIME_SECONDS);
+      const [current, past] = await Promise.all([this.getRates(), this.getRates(pastBlock)]);
+
+      const growth = (source: RateSource) => {
+        const [now, then] = [current[source], past[source]];
+        if (now === null || then === null || then === 0n) return 0;
+        const ratio = Number((now * 10n ** 12n) / then) / 1e12;
+        return Math.max((ratio - 1) * (365 / APR_WINDOW_DAYS) * 100, 0);
+      };
+      const aprs = {
+        stETH: growth('wstETH'),
+        wstETH: growth('wstETH'),
+        rETH: growth('rETH'),
+        cbETH: growth('cbETH'),
+      };
+
+      // Retry missing rates on the next request instead of caching a 0 APR
+      if (Object.values(current).every(rate => rate !== null) && Object.values(past).every(rate => rate !== null)) {
+        this.aprCache = { aprs, fetchedAt: Date.now() };
+      }
+      return aprs;
+    } catch (error) {
+      console.warn('Failed to compute liquid staking APRs (archive node required):', error);
+      return { stETH: 0, wstETH: 0, rETH: 0, cbETH: 0 };
+    }
+  }
+
+  // Unclaimed Lido withdrawal requests owned by the wallet
+  private async getWithdrawalRequests(walletAddress: string) {
+    try {
+      const queue = new ethers.Contract(LIDO_WITHDRAWAL_QUEUE, WITHDRAWAL_QUEUE_ABI, getProvider(1));
+      const requestIds: bigint[] = await queue.getWithdrawalRequests(walletAddress);
+      if (requestIds.length === 0) return [];
+
+      const statuses = await queue.getWithdrawalStatus(requestIds);
+      return requestIds
+        .map((requestId, index) => ({
+          requestId,
+          amountOfStETH: statuses[index].amountOfStETH as bigint,
+          timestamp: Number(statuses[index].timestamp),
+          isFinalized: statuses[index].isFinalized as boolean,
+          isClaimed: statuses[index].isClaimed as boolean,
+        }))
+        .filter(request => !request.isClaimed);
+    } catch (error) {
+      console.warn('Failed to fetch Lido withdrawal requests:', error);
+      return [];
+    }
+  }
+
+  private async getEthPrice(): Promise<number> {
+    try {
+      const prices = await priceAggregator.getPrices([{ chainId: 1, address: NATIVE_TOKEN_ADDRESS }]);
+      return prices[getTokenKey(1, NATIVE_TOKEN_ADDRESS)]?.price ?? 0;
+    } catch (error) {
+      console.warn('Failed to fetch ETH price for liquid staking positions:', error);
+      return 0;
+    }
+  }
+}
+
+// Factory function
+export function createLiquidStakingService(): LiquidStakingIntegration {
+  return new LiquidStakingIntegration();
+}
@@ -0,0 +1,6 @@
+// /api/defi serves mock positions in development and when no Alchemy key is set.
+// Balance pages only leave out holdings the DeFi adapters cover while those adapters
+// are the ones reporting positions.
+export function usesMockDeFiData(): boolean {
+  return process.env.NODE_ENV === 'development' || !process.env.ALCHEMY_API_KEY;
+}
@@ -1,16 +1,20 @@
 import { ethers } from 'ethers';
-import { DeFiPosition, MoonwellPosition, TokenBalance } from '@/types';
+import { DeFiPosition, LendingAccount, MoonwellPosition, TokenBalance } from '@/types';
+import { getTokenKey } from '@/lib/tokens/registry';
+import { tokenMetadataService } from '@/lib/tokens/metadata';
+import { getProvider } from '@/lib/blockchain/providers';
+import { multicall } from '@/lib/blockchain/multicall';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import { toTokenAmount, mulDiv, amountValue } from '@/lib/utils';
+import { buildLendingAccount, LendingAccountPositions } from './lendingAccount';
+
+const BASE_CHAIN_ID = 8453;
 
 // Moonwell contract addresses on Base
 const MOONWELL_COMPTROLLER = '0xfBb21d0380beE3312B33c4353c8936a0F13EF26C';
 
-// Base network RPC with Alchemy support
-const getBaseRpc = () => {
-  const alchemyKey = process.env.ALCHEMY_API_KEY;
-  return alchemyKey 
-    ? `https://base-mainnet.g.alchemy.com/v2/${alchemyKey}`
-    : 'https://mainnet.base.org';
-};
+// Mantissas (collateral factors, exchange rates) are scaled by 1e18
+const MANTISSA = 10n ** 18n;
 
 // Moonwell mToken ABI (simplified)
 const MTOKEN_ABI = [
@@ -24,43 +28,84 @@ const MTOKEN_ABI = [
   'function decimals() external view returns (uint8)',
 ];
 
+const MTOKEN_INTERFACE = new ethers.Interface(MTOKEN_ABI);
+
 // Moonwell Comptroller ABI
 const COMPTROLLER_ABI = [
   'function getAllMarkets() external view returns (address[] memory)',
   'function getAccountLiquidity(address) external view returns (uint256, uint256, uint256)',
-  'function markets(address) external view returns (bool isListed, uint256 collateralFactorMantissa, bool isComped)',
+  'function getAssetsIn(address account) external view returns (address[] memory)',
+  'function markets(address) external view returns (bool isListed, uint256 collateralFactorMantissa)',
+  'function oracle() external view returns (address)',
+  'function rewardDistributor() external view returns (address)',
 ];
 
-// Well token (rewards) ABI
-const WELL_TOKEN_ABI = [
-  'function balanceOf(address) external view returns (uint256)',
-  'function symbol() external view returns (string)',
-  'function decimals() external view returns (uint8)',
+const COMPTROLLER_INTERFACE = new ethers.Interface(COMPTROLLER_ABI);
+
+// Moonwell price oracle; prices are scaled by 1e(36 - underlying decimals)
+const ORACLE_INTERFACE = new ethers.Interface([
+  'function getUnderlyingPrice(address mToken) external view returns (uint256)',
+]);
+
+// MultiRewardDistributor: per-market rewards accrued across every emission token
+const REWARD_DISTRIBUTOR_ABI = [
+  'function getOutstandingRewardsForUser(address mToken, address user) external view returns (tuple(address emissionToken, uint256 totalAmount, uint256 supplySide, uint256 borrowSide)[])',
 ];
 
+// The market list and collateral factors change only through governance
+const MARKETS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+interface MoonwellMarket {
+  address: string;
+  symbol: string;
+  underlying: string;
+  underlyingSymbol: string;
+  underlyingName: string;
+  underlyingLogo?: string;
+  decimals: number;
+  collateralFactor: number;
+}
+
 interface MoonwellService {
   getPositions(walletAddress: string): Promise<DeFiPosition[]>;
+  getAccountPositions(walletAddress: string): Promise<LendingAccountPositions>;
 }
 
 export class MoonwellIntegration implements MoonwellService {
   private provider: ethers.Provider;
   private comptroller: ethers.Contract;
+  private marketsCache: { markets: MoonwellMarket[]; fetchedAt: number } | null = null;
 
   constructor() {
-    this.provider = new ethers.JsonRpcProvider(getBaseRpc());
+    this.provider = getProvider(BASE_CHAIN_ID);
     this.comptroller = new ethers.Contract(MOONWELL_COMPTROLLER, COMPTROLLER_ABI, this.provider);
   }
 
   async getPositions(walletAddress: string): Promise<DeFiPosition[]> {
+    return (await this.getAccountPositions(walletAddress)).positions;
+  }
+
+  // Per-market positions plus the account-level health they add up to
+  async getAccountPositions(walletAddress: string): Promise<LendingAccountPositions> {
     try {
       const positions: DeFiPosition[] = [];
 
-      // Get all Moonwell markets (mTokens)
+      // Get all Moonwell markets (mTokens), their oracle prices and the wallet's collateral
       const markets = await this.getMoonwellMarkets();
+      const [prices, assetsIn, rewardDistributor] = await Promise.all([
+        this.getOraclePrices(markets),
+        this.comptroller.getAssetsIn(walletAddress) as Promise<string[]>,
+        this.comptroller.rewardDistributor() as Promise<string>,
+      ]);
+      const collateralMarkets = new Set(assetsIn.map(address => address.toLowerCase()));
 
       for (const market of markets) {
         try {
-          const position = await this.getMarketPosition(walletAddress, market);
+          const position = await this.getMarketPosition(walletAddress, market, {
+            price: prices.get(market.address) ?? 0,
+            isCollateral: collateralMarkets.has(market.address.toLowerCase()),
+            rewardDistributor,
+          });
           if (position && (position.value > 0.01 || (position.metadata as MoonwellPosition)?.borrowed)) {
             positions.push(position);
           }
@@ -69,16 +114,34 @@ export class MoonwellIntegration implements MoonwellService {
         }
       }
 
-      return positions;
+      return { positions, account: await this.getAccount(walletAddress, positions) };
     } catch (error) {
       console.error('Error fetching Moonwell positions:', error);
-      return [];
+      return { positions: [], account: null };
     }
   }
 
+  // Health factor and liquidation prices, anchored to the comptroller's own liquidity check
+  private async getAccount(walletAddress: string, positions: DeFiPosition[]): Promise<LendingAccount | null> {
+    if (positions.length === 0) return null;
+
+    let liquidity: number | undefined;
+    try {
+      const [error, excess, shortfall] = await this.comptroller.getAccountLiquidity(walletAddress);
+      if (error === 0n) {
+        liquidity = parseFloat(ethers.formatUnits(excess - shortfall, 18));
+      }
+    } catch (error) {
+      console.warn('Failed to fetch Moonwell account liquidity, using collateral factors:', error);
+    }
+
+    return buildMoonwellAccount(positions, liquidity);
+  }
+
   private async getMarketPosition(
-    walletAddress: string, 
-    market: any
+    walletAddress: string,
+    market: MoonwellMarket,
+    account: { price: number; isCollateral: boolean; rewardDistributor: string }
   ): Promise<DeFiPosition | null> {
     try {
       const mToken = new ethers.Contract(market.address, MTOKEN_ABI, this.provider);
@@ -98,11 +161,14 @@ export class MoonwellIntegration implements MoonwellService {
         mToken.borrowRatePerTimestamp(),
       ]);
 
-      // Calculate underlying token amounts
-      const suppliedUnderlying = (Number(mTokenBalance) * Number(exchangeRate)) / 1e18;
-      const borrowedUnderlying = Number(borrowBalance) / Math.pow(10, market.decimals);
+      // Underlying amounts in base units; the exchange rate is scaled by 1e18
+      const decimals = market.decimals;
+      const suppliedUnderlying = toTokenAmount(mulDiv(mTokenBalance, exchangeRate, MANTISSA), decimals);
+      const borrowedUnderlying = toTokenAmount(borrowBalance, decimals);
+      const hasSupply = suppliedUnderlying.raw > 0n;
+      const hasBorrow = borrowedUnderlying.raw > 0n;
 
-      if (suppliedUnderlying === 0 && borrowedUnderlying === 0) {
+      if (!hasSupply && !hasBorrow) {
         return null;
       }
 
@@ -111,44 +177,48 @@ export class MoonwellIntegration implements MoonwellService {
       const supplyAPY = (Number(supplyRate) * SECONDS_PER_YEAR) / 1e18 * 100;
       const borrowAPY = (Number(borrowRate) * SECONDS_PER_YEAR) / 1e18 * 100;
 
-      // Create asset token balance
+      // Priced by the protocol oracle, the same price the comptroller uses for account liquidity
+      const price = account.price;
+
+      // Calculate net position value
+      const suppliedValue = amountValue(suppliedUnderlying, price);
+      const borrowedValue = amountValue(borrowedUnderlying, price);
+      const netValue = suppliedValue - borrowedValue;
+
       const asset: TokenBalance = {
         address: market.underlying,
+        chainId: BASE_CHAIN_ID,
         symbol: market.underlyingSymbol,
         name: market.underlyingName,
-        balance: suppliedUnderlying.toString(),
-        decimals: market.decimals,
-        price: market.price || 1,
-        value: suppliedUnderlying * (market.price || 1),
+        balance: suppliedUnderlying.raw.toString(),
+        decimals,
+        logo: market.underlyingLogo,
+        price,
+        value: suppliedValue,
       };
 
-      // Calculate net position value
-      const suppliedValue = suppliedUnderlying * (market.price || 1);
-      const borrowedValue = borrowedUnderlying * (market.price || 1);
-      const netValue = suppliedValue - borrowedValue;
-
       const moonwellPosition: MoonwellPosition = {
         market: market.address,
         asset,
-        supplied: suppliedUnderlying > 0 ? suppliedUnderlying.toString() : undefined,
-        borrowed: borrowedUnderlying > 0 ? borrowedUnderlying.toString() : undefined,
+        supplied: hasSupply ? suppliedUnderlying.raw.toString() : undefined,
+        borrowed: hasBorrow ? borrowedUnderlying.raw.toString() : undefined,
         supplyAPY,
-        borrowAPY: borrowedUnderlying > 0 ? borrowAPY : undefined,
-        collateralFactor: market.collateralFactor || 0.75,
-        isCollateral: suppliedUnderlying > 0,
-        rewardsEarned: await this.getRewardsEarned(walletAddress),
+        borrowAPY: hasBorrow ? borrowAPY : undefined,
+        collateralFactor: market.collateralFactor,
+        isCollateral: hasSupply && account.isCollateral,
+        rewardsEarned: await this.getRewardsEarned(walletAddress, market.address, account.rewardDistributor),
       };
 
       // Calculate net APY based on position
       let netAPY = 0;
-      if (suppliedUnderlying > 0 && borrowedUnderlying === 0) {
+      if (hasSupply && !hasBorrow) {
         netAPY = supplyAPY; // Pure supply position
-      } else if (suppliedUnderlying > 0 && borrowedUnderlying > 0) {
+      } else if (hasSupply && hasBorrow) {
         // Leveraged position
         const supplyWeight = suppliedValue / (suppliedValue + borrowedValue);
         const borrowWeight = borrowedValue / (suppliedValue + borrowedValue);
         netAPY = (supplyAPY * supplyWeight) - (borrowAPY * borrowWeight);
-      } else if (borrowedUnderlying > 0) {
+      } else if (hasBorrow) {
         netAPY = -borrowAPY; // Pure borrow position (negative APY)
       }
 
@@ -158,11 +228,12 @@ export class MoonwellIntegration implements MoonwellService {
 
       return {
         id: `moonwell-${market.address}`,
+        chainId: BASE_CHAIN_ID,
         protocol: 'moonwell',
         type: 'lending',
         tokens: [asset],
         apy: netAPY,
-        value: Math.max(netValue, 0), // Don't show negative values for borrowed positions
+        value: netValue, // Signed: borrow-only markets are debt that totals must subtract
         claimable: claimableRewards,
         metadata: moonwellPosition,
       };
@@ -172,57 +243,113 @@ export class MoonwellIntegration implements MoonwellService {
     }
   }
 
-  private async getMoonwellMarkets() {
-    // Mock Moonwell markets on Base
-    // In production, fetch from comptroller.getAllMarkets()
-    return [
-      {
-        address: '0x628ff693426583D9a7FB391E54366292F509D457', // mETH
-        symbol: 'mETH',
-        underlying: '0x4200000000000000000000000000000000000006', // WETH
-        underlyingSymbol: 'ETH',
-        underlyingName: 'Ethereum',
-        decimals: 18,
-        price: 4500,
-        collateralFactor: 0.825,
-      },
-      {
-        address: '0xEdc817A28E8B93B03976FBd4a3dDBc9f7D176c22', // mUSDC
-        symbol: 'mUSDC',
-        underlying: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC
-        underlyingSymbol: 'USDC',
-        underlyingName: 'USD Coin',
-        decimals: 6,
-        price: 1,
-        collateralFactor: 0.90,
-      },
-      {
-        address: '0x3bf93770f2d4a794c3d9EBEfBAeBAE2a8f09A5E5', // mUSDbC
-        symbol: 'mUSDbC',
-        underlying: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', // USDbC
-        underlyingSymbol: 'USDbC',
-        underlyingName: 'USD Base Coin',
-        decimals: 6,
-        price: 1,
-        collateralFactor: 0.85,
-      },
-    ];
+  // Listed markets with their underlying token metadata and collateral factors
+  private async getMoonwellMarkets(): Promise<MoonwellMarket[]> {
+    if (this.marketsCache && Date.now() - this.marketsCache.fetchedAt < MARKETS_CACHE_TTL_MS) {
+      return this.marketsCache.markets;
+    }
+
+    const addresses: string[] = await this.comptroller.getAllMarkets();
+    const results = await multicall(BASE_CHAIN_ID, addresses.flatMap(address => [
+      { target: address, callData: MTOKEN_INTERFACE.encodeFunctionData('underlying') },
+      { target: address, callData: MTOKEN_INTERFACE.encodeFunctionData('symbol') },
+      { target: MOONWELL_COMPTROLLER, callData: COMPTROLLER_INTERFACE.encodeFunctionData('markets', [address]) },
+    ]));
+
+    const listed = addresses.flatMap((address, index) => {
+      const [underlyingResult, symbolResult, marketResult] = results.slice(index * 3, index * 3 + 3);
+      if (!underlyingResult.success || !symbolResult.success || !marketResult.success) {
+        console.warn(`Skipping Moonwell market ${address}: failed to read market details`);
+        return [];
+      }
+      const [isListed, collateralFactorMantissa] = COMPTROLLER_INTERFACE.decodeFunctionResult('markets', marketResult.returnData);
+      if (!isListed) return [];
+      return [{
+        address,
+        symbol: MTOKEN_INTERFACE.decodeFunctionResult('symbol', symbolResult.returnData)[0] as string,
+        underlying: MTOKEN_INTERFACE.decodeFunctionResult('underlying', underlyingResult.returnData)[0] as string,
+        collateralFactor: Number(collateralFactorMantissa * 10000n / MANTISSA) / 10000,
+      }];
+    });
+
+    // Underlying metadata from the registry, or on-chain for tokens it doesn't know
+    const metadata = await tokenMetadataService.getMetadata(BASE_CHAIN_ID, listed.map(market => market.underlying));
+    const markets = listed.flatMap(market => {
+      const underlying = metadata.get(getTokenKey(BASE_CHAIN_ID, market.underlying));
+      if (!underlying) {
+        console.warn(`Skipping Moonwell market ${market.symbol}: unknown underlying ${market.underlying}`);
+        return [];
+      }
+      return [{
+        ...market,
+        underlyingSymbol: underlying.symbol,
+        underlyingName: underlying.name,
+        underlyingLogo: underlying.logo,
+        decimals: underlying.decimals,
+      }];
+    });
+
+    this.marketsCache = { markets, fetchedAt: Date.now() };
+    return markets;
   }
 
-  private async getRewardsEarned(walletAddress: string): Promise<TokenBalance[] | undefined> {
+  // USD price per whole underlying token from the comptroller's oracle, keyed by mToken
+  private async getOraclePrices(markets: MoonwellMarket[]): Promise<Map<string, number>> {
+    const oracle: string = await this.comptroller.oracle();
+    const results = await multicall(BASE_CHAIN_ID, markets.map(market => ({
+      target: oracle,
+      callData: ORACLE_INTERFACE.encodeFunctionData('getUnderlyingPrice', [market.address]),
+    })));
+
+    const prices = new Map<string, number>();
+    results.forEach((result, index) => {
+      const market = markets[index];
+      if (!result.success) {
+        console.warn(`Moonwell oracle has no price for ${market.symbol}`);
+        return;
+      }
+      const mantissa: bigint = ORACLE_INTERFACE.decodeFunctionResult('getUnderlyingPrice', result.returnData)[0];
+      prices.set(market.address, parseFloat(ethers.formatUnits(mantissa, 36 - market.decimals)));
+    });
+    return prices;
+  }
+
+  // Rewards accrued in one market across every emission token (WELL, USDC, ...)
+  private async getRewardsEarned(
+    walletAddress: string,
+    mToken: string,
+    rewardDistributor: string
+  ): Promise<TokenBalance[] | undefined> {
     try {
-      // Mock WELL token rewards
-      const wellToken = {
-        address: '0xFF8adeC2221f9f4D8dfbAFa6B9a297d17603493D', // WELL token on Base
-        symbol: 'WELL',
-        name: 'Moonwell',
-        balance: '1500000000000000000', // 1.5 WELL
-        decimals: 18,
-        price: 0.05, // Mock price
-        value: 1.5 * 0.05,
-      };
+      const distributor = new ethers.Contract(rewardDistributor, REWARD_DISTRIBUTOR_ABI, this.provider);
+      const outstanding: { emissionToken: string; totalAmount: bigint }[] =
+        await distributor.getOutstandingRewardsForUser(mToken, walletAddress);
+      const rewards = outstanding.filter(reward => reward.totalAmount > 0n);
+      if (rewards.length === 0) return undefined;
 
-      return [wellToken];
+      const tokens = rewards.map(reward => reward.emissionToken);
+      const [metadata, prices] = await Promise.all([
+        tokenMetadataService.getMetadata(BASE_CHAIN_ID, tokens),
+        priceAggregator.getPrices(tokens.map(address => ({ chainId: BASE_CHAIN_ID, address }))),
+      ]);
+
+      return rewards.map(reward => {
+        const key = getTokenKey(BASE_CHAIN_ID, reward.emissionToken);
+        const info = metadata.get(key);
+        const decimals = info?.decimals ?? 18;
+        const price = prices[key]?.price ?? 0;
+        return {
+          address: reward.emissionToken,
+          chainId: BASE_CHAIN_ID,
+          symbol: info?.symbol || 'UNKNOWN',
+          name: info?.name || 'Unknown Token',
+          balance: reward.totalAmount.toString(),
+          decimals,
+          logo: info?.logo,
+          price,
+          value: amountValue(toTokenAmount(reward.totalAmount, decimals), price),
+        };
+      });
     } catch (error) {
       console.warn('Failed to fetch Moonwell rewards:', error);
       return undefined;
@@ -230,6 +357,27 @@ export class MoonwellIntegration implements MoonwellService {
   }
 }
 
+// Account summary from Moonwell positions; liquidity is the comptroller's headroom in USD
+export function buildMoonwellAccount(positions: DeFiPosition[], liquidity?: number): LendingAccount {
+  return buildLendingAccount({
+    id: `moonwell-${BASE_CHAIN_ID}`,
+    chainId: BASE_CHAIN_ID,
+    protocol: 'moonwell',
+    liquidity,
+    markets: positions.map(position => {
+      const metadata = position.metadata as MoonwellPosition;
+      return {
+        market: metadata.market,
+        asset: metadata.asset,
+        supplied: BigInt(metadata.supplied ?? 0),
+        borrowed: BigInt(metadata.borrowed ?? 0),
+        collateralFactor: metadata.collateralFactor,
+        isCollateral: metadata.isCollateral,
+      };
+    }),
+  });
+}
+
 // Factory function
 export function createMoonwellService(): MoonwellIntegration {
   return new MoonwellIntegration();
@@ -0,0 +1,288 @@
+import { ethers } from 'ethers';
+import { DeFiPosition, SlipstreamPosition, TokenBalance } from '@/types';
+import { tokenRegistry, getTokenKey } from '@/lib/tokens/registry';
+import { tokenMetadataService } from '@/lib/tokens/metadata';
+import { getProvider } from '@/lib/blockchain/providers';
+import { multicall } from '@/lib/blockchain/multicall';
+import { chainlinkOracle } from '@/lib/prices/chainlink';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import { toTokenAmount, amountValue } from '@/lib/utils';
+import { AerodromePoolIndex, BASE_CHAIN_ID, SLIPSTREAM_NFT_MANAGER, getSlipstreamPositionId } from './aerodromePools';
+import { getPositionAmounts, getFeeGrowthInside, getFeesEarned } from './uniswapV3Math';
+
+// Slipstream CLFactory on Base
+const SLIPSTREAM_FACTORY = '0x5e7BB104d84c7CB9B682AaC2F3d509f5F406809A';
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+// Slipstream NonfungiblePositionManager: pools are keyed by tick spacing rather than fee
+const NFT_MANAGER_ABI = [
+  'function balanceOf(address owner) external view returns (uint256)',
+  'function tokenOfOwnerByIndex(address owner, uint256 index) external view returns (uint256)',
+  'function positions(uint256 tokenId) external view returns (uint96 nonce, address operator, address token0, address token1, int24 tickSpacing, int24 tickLower, int24 tickUpper, uint128 liquidity, uint256 feeGrowthInside0LastX128, uint256 feeGrowthInside1LastX128, uint128 tokensOwed0, uint128 tokensOwed1)',
+];
+
+const FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, int24 tickSpacing) external view returns (address)',
+];
+
+// CLPool ABI (simplified)
+const POOL_ABI = [
+  'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, bool unlocked)',
+  'function feeGrowthGlobal0X128() external view returns (uint256)',
+  'function feeGrowthGlobal1X128() external view returns (uint256)',
+  'function stakedLiquidity() external view returns (uint128)',
+  'function ticks(int24 tick) external view returns (uint128 liquidityGross, int128 liquidityNet, int128 stakedLiquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, uint256 rewardGrowthOutsideX128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
+];
+
+// CLGauge ABI: staked NFTs are held by the gauge and tracked per depositor
+const GAUGE_ABI = [
+  'function earned(address account, uint256 tokenId) external view returns (uint256)',
+  'function rewardRate() external view returns (uint256)',
+];
+
+const GAUGE_INTERFACE = new ethers.Interface([
+  'function stakedValues(address depositor) external view returns (uint256[])',
+]);
+
+interface SlipstreamHolding {
+  tokenId: bigint;
+  gauge?: string;
+}
+
+export class SlipstreamIntegration {
+  private provider: ethers.Provider;
+  private nftManager: ethers.Contract;
+  private factory: ethers.Contract;
+  private poolIndex = new AerodromePoolIndex(SLIPSTREAM_FACTORY);
+
+  constructor() {
+    this.provider = getProvider(BASE_CHAIN_ID);
+    this.nftManager = new ethers.Contract(SLIPSTREAM_NFT_MANAGER, NFT_MANAGER_ABI, this.provider);
+    this.factory = new ethers.Contract(SLIPSTREAM_FACTORY, FACTORY_ABI, this.provider);
+  }
+
+  async getPositions(walletAddress: string): Promise<DeFiPosition[]> {
+    try {
+      const holdings = [
+        ...await this.getWalletHoldings(walletAddress),
+        ...await this.getStakedHoldings(walletAddress),
+      ];
+
+      const positions: DeFiPosition[] = [];
+      for (const holding of holdings) {
+        try {
+          const position = await this.getPositionDetails(walletAddress, holding);
+          if (position && position.value > 0.01) {
+            positions.push(position);
+          }
+        } catch (error) {
+          console.warn(`Failed to fetch Slipstream position ${holding.tokenId}:`, error);
+        }
+      }
+
+      return positions;
+    } catch (error) {
+      console.error('Error fetching Slipstream positions:', error);
+      return [];
+    }
+  }
+
+  // Position NFTs held directly by the wallet
+  private async getWalletHoldings(walletAddress: string): Promise<SlipstreamHolding[]> {
+    const count = Number(await this.nftManager.balanceOf(walletAddress));
+    const tokenIds = await Promise.all(
+      Array.from({ length: count }, (_, index) => this.nftManager.tokenOfOwnerByIndex(walletAddress, index))
+    );
+    return tokenIds.map(tokenId => ({ tokenId }));
+  }
+
+  // Position NFTs deposited in CL gauges are owned by the gauge, so ask every gauge
+  // which token IDs the wallet has staked
+  private async getStakedHoldings(walletAddress: string): Promise<SlipstreamHolding[]> {
+    const gauges = (await this.poolIndex.getPools())
+      .map(pool => pool.gauge)
+      .filter((gauge): gauge is string => !!gauge);
+
+    const callData = GAUGE_INTERFACE.encodeFunctionData('stakedValues', [walletAddress]);
+    const results = await multicall(BASE_CHAIN_ID, gauges.map(gauge => ({ target: gauge, callData })));
+
+    return results.flatMap((result, index) => {
+      if (!result.success || result.returnData === '0x') return [];
+      const tokenIds: bigint[] = GAUGE_INTERFACE.decodeFunctionResult('stakedValues', result.returnData)[0];
+      return tokenIds.map(tokenId => ({ tokenId, gauge: gauges[index] }));
+    });
+  }
+
+  private async getPositionDetails(walletAddress: string, holding: SlipstreamHolding): Promise<DeFiPosition | null> {
+    try {
+      const { tokenId } = holding;
+      const positionData = await this.nftManager.positions(tokenId);
+
+      if (positionData.liquidity === 0n) {
+        return null; // Empty position
+      }
+
+      const poolAddress: string = await this.factory.getPool(
+        positionData.token0,
+        positionData.token1,
+        positionData.tickSpacing
+      );
+      const pool = new ethers.Contract(poolAddress, POOL_ABI, this.provider);
+      const tickLower = Number(positionData.tickLower);
+      const tickUpper = Number(positionData.tickUpper);
+
+      const [slot0, feeGrowthGlobal0, feeGrowthGlobal1, lower, upper] = await Promise.all([
+        pool.slot0(),
+        pool.feeGrowthGlobal0X128(),
+        pool.feeGrowthGlobal1X128(),
+        pool.ticks(tickLower),
+        pool.ticks(tickUpper),
+      ]);
+      const tickCurrent = Number(slot0.tick);
+
+      // Exact token amounts for the position at the current pool price
+      const { amount0, amount1 } = getPositionAmounts(slot0.sqrtPriceX96, tickLower, tickUpper, positionData.liquidity);
+
+      // Token metadata (registry first, on-chain for unknown tokens) and prices
+      const [metadata, prices] = await Promise.all([
+        tokenMetadataService.getMetadata(BASE_CHAIN_ID, [positionData.token0, positionData.token1]),
+        priceAggregator.getPrices([
+          { chainId: BASE_CHAIN_ID, address: positionData.token0 },
+          { chainId: BASE_CHAIN_ID, address: positionData.token1 },
+        ]),
+      ]);
+      const token0Info = metadata.get(getTokenKey(BASE_CHAIN_ID, positionData.token0));
+      const token1Info = metadata.get(getTokenKey(BASE_CHAIN_ID, positionData.token1));
+      const token0Decimals = token0Info?.decimals ?? 18;
+      const token1Decimals = token1Info?.decimals ?? 18;
+      const token0Price = prices[getTokenKey(BASE_CHAIN_ID, positionData.token0)]?.price ?? 0;
+      const token1Price = prices[getTokenKey(BASE_CHAIN_ID, positionData.token1)]?.price ?? 0;
+
+      const token0: TokenBalance = {
+        address: positionData.token0,
+        chainId: BASE_CHAIN_ID,
+        symbol: token0Info?.symbol || 'TOKEN0',
+        name: token0Info?.name || 'Token 0',
+        balance: amount0.toString(),
+        decimals: token0Decimals,
+        price: token0Price,
+        value: amountValue(toTokenAmount(amount0, token0Decimals), token0Price),
+        logo: token0Info?.logo,
+      };
+
+      const token1: TokenBalance = {
+        address: positionData.token1,
+        chainId: BASE_CHAIN_ID,
+        symbol: token1Info?.symbol || 'TOKEN1',
+        name: token1Info?.name || 'Token 1',
+        balance: amount1.toString(),
+        decimals: token1Decimals,
+        price: token1Price,
+        value: amountValue(toTokenAmount(amount1, token1Decimals), token1Price),
+        logo: token1Info?.logo,
+      };
+
+      const inRange = tickCurrent >= tickLower && tickCurrent < tickUpper;
+      const totalValue = token0.value + token1.value;
+
+      // Unstaked positions accrue trading fees; staked liquidity's fees go to voters,
+      // so only fees credited before staking remain
+      let fees0 = positionData.tokensOwed0;
+      let fees1 = positionData.tokensOwed1;
+      if (!holding.gauge) {
+        const feeGrowthInside0 = getFeeGrowthInside(
+          tickCurrent, tickLower, tickUpper, feeGrowthGlobal0, lower.feeGrowthOutside0X128, upper.feeGrowthOutside0X128
+        );
+        const feeGrowthInside1 = getFeeGrowthInside(
+          tickCurrent, tickLower, tickUpper, feeGrowthGlobal1, lower.feeGrowthOutside1X128, upper.feeGrowthOutside1X128
+        );
+        fees0 += getFeesEarned(feeGrowthInside0, positionData.feeGrowthInside0LastX128, positionData.liquidity);
+        fees1 += getFeesEarned(feeGrowthInside1, positionData.feeGrowthInside1LastX128, positionData.liquidity);
+      }
+      const feesValue = amountValue(toTokenAmount(fees0, token0Decimals), token0Price) +
+        amountValue(toTokenAmount(fees1, token1Decimals), token1Price);
+
+      const gaugePosition = holding.gauge
+        ? await this.getGaugePosition(walletAddress, holding.gauge, tokenId, pool, positionData.liquidity, inRange, totalValue)
+        : undefined;
+
+      const slipstreamPosition: SlipstreamPosition = {
+        tokenId: tokenId.toString(),
+        pool: poolAddress,
+        token0,
+        token1,
+        tickSpacing: Number(positionData.tickSpacing),
+        tickLower,
+        tickUpper,
+        liquidity: positionData.liquidity.toString(),
+        uncollectedFees: {
+          token0: fees0.toString(),
+          token1: fees1.toString(),
+        },
+        inRange,
+        gauge: gaugePosition,
+      };
+
+      const rewardsValue = gaugePosition?.rewards.reduce((sum, reward) => sum + reward.value, 0) || 0;
+
+      return {
+        id: getSlipstreamPositionId(tokenId),
+        chainId: BASE_CHAIN_ID,
+        protocol: 'aerodrome',
+        type: 'liquidity',
+        tokens: [token0, token1],
+        apy: gaugePosition?.emissions ?? 0, // Emissions APR while staked; fee APR not tracked
+        value: totalValue,
+        claimable: feesValue + rewardsValue,
+        metadata: slipstreamPosition,
+      };
+    } catch (error) {
+      console.error('Error getting Slipstream position details:', error);
+      return null;
+    }
+  }
+
+  // AERO earned by a staked position, and the emissions APR its liquidity currently
+  // receives (the gauge streams rewards pro rata to in-range staked liquidity)
+  private async getGaugePosition(
+    walletAddress: string,
+    gaugeAddress: string,
+    tokenId: bigint,
+    pool: ethers.Contract,
+    liquidity: bigint,
+    inRange: boolean,
+    positionValue: number
+  ) {
+    const gauge = new ethers.Contract(gaugeAddress, GAUGE_ABI, this.provider);
+    const [earned, rewardRate, stakedLiquidity] = await Promise.all([
+      gauge.earned(walletAddress, tokenId),
+      gauge.rewardRate(),
+      pool.stakedLiquidity(),
+    ]);
+
+    const aero = tokenRegistry.getBySymbol(BASE_CHAIN_ID, 'AERO');
+    const aeroPrice = (await chainlinkOracle.getAssetPrice('AERO', BASE_CHAIN_ID))?.price ?? 0;
+
+    let emissions = 0;
+    if (inRange && stakedLiquidity > 0n && positionValue > 0) {
+      const yearlyAero = (rewardRate * BigInt(SECONDS_PER_YEAR) * liquidity) / stakedLiquidity;
+      emissions = (amountValue(toTokenAmount(yearlyAero, 18), aeroPrice) / positionValue) * 100;
+    }
+
+    return {
+      address: gaugeAddress,
+      rewards: [{
+        address: aero?.address || '0x940181a94A35A4569E4529A3CDfB74e38FD98631', // AERO token
+        symbol: 'AERO',
+        name: 'Aerodrome',
+        balance: earned.toString(),
+        decimals: 18,
+        logo: aero?.logo,
+        price: aeroPrice,
+        value: amountValue(toTokenAmount(earned, 18), aeroPrice),
+      }],
+      emissions,
+    };
+  }
+}
@@ -1,9 +1,12 @@
 import { ethers } from 'ethers';
 import { DeFiPosition, UniswapV3Position, TokenBalance } from '@/types';
-
-// Uniswap V3 contract addresses
-const UNISWAP_V3_FACTORY = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
-const UNISWAP_V3_NFT_MANAGER = '0xC36442b4a4522E871399CD717aBDD847Ab11FE88';
+import { getTokenKey } from '@/lib/tokens/registry';
+import { getProvider } from '@/lib/blockchain/providers';
+import { tokenMetadataService } from '@/lib/tokens/metadata';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import { toTokenAmount, amountValue } from '@/lib/utils';
+import { getPositionAmounts, sqrtPriceX96ToPrice, getFeeGrowthInside, getFeesEarned } from './uniswapV3Math';
+import { UNISWAP_V3_DEPLOYMENTS, UniswapV3Deployment, getUniswapV3PositionId } from './uniswapV3Deployments';
 
 // Uniswap V3 NFT Manager ABI (simplified)
 const NFT_MANAGER_ABI = [
@@ -18,19 +21,42 @@ const POOL_ABI = [
   'function token0() external view returns (address)',
   'function token1() external view returns (address)',
   'function fee() external view returns (uint24)',
+  'function feeGrowthGlobal0X128() external view returns (uint256)',
+  'function feeGrowthGlobal1X128() external view returns (uint256)',
+  'function ticks(int24 tick) external view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)',
 ];
 
+// Trailing windows for the fee APR estimate, longest first. A range whose ticks
+// weren't initialized when a window started falls through to the next one.
+const FEE_APR_WINDOW_DAYS = [7, 1];
+
+interface FeeGrowthInside {
+  feeGrowthInside0X128: bigint;
+  feeGrowthInside1X128: bigint;
+  // Both bounds had liquidity referencing them. An uninitialized tick reports
+  // feeGrowthOutside = 0, which makes the growth inside meaningless.
+  initialized: boolean;
+}
+
 interface UniswapV3Service {
   getPositions(walletAddress: string, provider: ethers.Provider): Promise<DeFiPosition[]>;
 }
 
 export class UniswapV3Integration implements UniswapV3Service {
+  readonly chainId: number;
+  private deployment: UniswapV3Deployment;
   private provider: ethers.Provider;
   private nftManager: ethers.Contract;
 
-  constructor(provider: ethers.Provider) {
+  constructor(chainId: number, provider: ethers.Provider) {
+    const deployment = UNISWAP_V3_DEPLOYMENTS[chainId];
+    if (!deployment) {
+      throw new Error(`Uniswap V3 is not deployed on chain ${chainId}`);
+    }
+    this.chainId = chainId;
+    this.deployment = deployment;
     this.provider = provider;
-    this.nftManager = new ethers.Contract(UNISWAP_V3_NFT_MANAGER, NFT_MANAGER_ABI, provider);
+    this.nftManager = new ethers.Contract(deployment.positionManager, NFT_MANAGER_ABI, provider);
   }
 
   async getPositions(walletAddress: string): Promise<DeFiPosition[]> {
@@ -59,7 +85,7 @@ export class UniswapV3Integration implements UniswapV3Service {
 
       return positions;
     } catch (error) {
-      console.error('Error fetching Uniswap V3 positions:', error);
+      console.error(`Error fetching Uniswap V3 positions on chain ${this.chainId}:`, error);
       return [];
     }
   }
@@ -82,47 +108,67 @@ export class UniswapV3Integration implements UniswapV3Service {
 
       const pool = new ethers.Contract(poolAddress, POOL_ABI, this.provider);
       const slot0 = await pool.slot0();
+      const feeGrowth = await this.getFeeGrowthInside(pool, Number(positionData.tickLower), Number(positionData.tickUpper));
 
-      // Calculate position value (simplified)
-      const token0Balance = await this.calculateTokenAmount(
-        positionData.liquidity,
-        positionData.tickLower,
-        positionData.tickUpper,
-        slot0.tick,
-        true
-      );
+      // Exact token amounts for the position at the current pool price
+      const tickLower = Number(positionData.tickLower);
+      const tickUpper = Number(positionData.tickUpper);
+      const { amount0, amount1 } = getPositionAmounts(slot0.sqrtPriceX96, tickLower, tickUpper, positionData.liquidity);
 
-      const token1Balance = await this.calculateTokenAmount(
-        positionData.liquidity,
-        positionData.tickLower,
-        positionData.tickUpper,
-        slot0.tick,
-        false
-      );
+      // Token metadata (registry first, on-chain for unknown tokens) and prices
+      const [metadata, prices] = await Promise.all([
+        tokenMetadataService.getMetadata(this.chainId, [positionData.token0, positionData.token1]),
+        priceAggregator.getPrices([
+          { chainId: this.chainId, address: positionData.token0 },
+          { chainId: this.chainId, address: positionData.token1 },
+        ]),
+      ]);
+      const token0Info = metadata.get(getTokenKey(this.chainId, positionData.token0));
+      const token1Info = metadata.get(getTokenKey(this.chainId, positionData.token1));
+      const token0Decimals = token0Info?.decimals ?? 18;
+      const token1Decimals = token1Info?.decimals ?? 18;
+
+      // When only one side has a quote, derive the other from the pool price
+      const poolPrice = sqrtPriceX96ToPrice(slot0.sqrtPriceX96, token0Decimals, token1Decimals);
+      let token0Price = prices[getTokenKey(this.chainId, positionData.token0)]?.price ?? 0;
+      let token1Price = prices[getTokenKey(this.chainId, positionData.token1)]?.price ?? 0;
+      if (!token0Price && token1Price) token0Price = token1Price * poolPrice;
+      if (!token1Price && token0Price && poolPrice > 0) token1Price = token0Price / poolPrice;
 
-      // Create mock token balances (in production, fetch real token metadata)
       const token0: TokenBalance = {
         address: positionData.token0,
-        symbol: 'TOKEN0', // Would fetch from contract or API
-        name: 'Token 0',
-        balance: token0Balance.toString(),
-        decimals: 18,
-        price: 1, // Would fetch real price
-        value: Number(ethers.formatEther(token0Balance)),
+        chainId: this.chainId,
+        symbol: token0Info?.symbol || 'TOKEN0',
+        name: token0Info?.name || 'Token 0',
+        balance: amount0.toString(),
+        decimals: token0Decimals,
+        price: token0Price,
+        value: amountValue(toTokenAmount(amount0, token0Decimals), token0Price),
+        logo: token0Info?.logo,
       };
 
       const token1: TokenBalance = {
         address: positionData.token1,
-        symbol: 'TOKEN1', // Would fetch from contract or API
-        name: 'Token 1',
-        balance: token1Balance.toString(),
-        decimals: 18,
-        price: 1, // Would fetch real price
-        value: Number(ethers.formatEther(token1Balance)),
+        chainId: this.chainId,
+        symbol: token1Info?.symbol || 'TOKEN1',
+        name: token1Info?.name || 'Token 1',
+        balance: amount1.toString(),
+        decimals: token1Decimals,
+        price: token1Price,
+        value: amountValue(toTokenAmount(amount1, token1Decimals), token1Price),
+        logo: token1Info?.logo,
       };
 
+      // Fees owed = already credited tokensOwed plus growth since the position was last poked
+      const fees0 = positionData.tokensOwed0 +
+        getFeesEarned(feeGrowth.feeGrowthInside0X128, positionData.feeGrowthInside0LastX128, positionData.liquidity);
+      const fees1 = positionData.tokensOwed1 +
+        getFeesEarned(feeGrowth.feeGrowthInside1X128, positionData.feeGrowthInside1LastX128, positionData.liquidity);
+      const claimable = amountValue(toTokenAmount(fees0, token0Decimals), token0Price) +
+        amountValue(toTokenAmount(fees1, token1Decimals), token1Price);
+
       // Check if position is in range
-      const inRange = slot0.tick >= positionData.tickLower && slot0.tick < positionData.tickUpper;
+      const inRange = Number(slot0.tick) >= tickLower && Number(slot0.tick) < tickUpper;
 
       const uniswapPosition: UniswapV3Position = {
         tokenId: tokenId.toString(),
@@ -130,26 +176,28 @@ export class UniswapV3Integration implements UniswapV3Service {
         token0,
         token1,
         fee: Number(positionData.fee),
-        tickLower: Number(positionData.tickLower),
-        tickUpper: Number(positionData.tickUpper),
+        tickLower,
+        tickUpper,
         liquidity: positionData.liquidity.toString(),
         uncollectedFees: {
-          token0: positionData.tokensOwed0.toString(),
-          token1: positionData.tokensOwed1.toString(),
+          token0: fees0.toString(),
+          token1: fees1.toString(),
         },
         inRange,
       };
 
       const totalValue = token0.value + token1.value;
+      const apr = await this.getFeeApr(pool, positionData, feeGrowth, token0, token1, totalValue);
 
       return {
-        id: `uniswap-v3-${tokenId}`,
+        id: getUniswapV3PositionId(this.chainId, tokenId),
+        chainId: this.chainId,
         protocol: 'uniswap-v3',
         type: 'liquidity',
         tokens: [token0, token1],
-        apy: inRange ? 15.5 : 0, // Mock APY, would calculate based on fees
+        apy: apr, // Fee APR over the trailing window; no compounding assumed
         value: totalValue,
-        claimable: Number(ethers.formatEther(positionData.tokensOwed0 + positionData.tokensOwed1)),
+        claimable,
         metadata: uniswapPosition,
       };
     } catch (error) {
@@ -158,33 +206,96 @@ export class UniswapV3Integration implements UniswapV3Service {
     }
   }
 
-  private async computePoolAddress(token0: string, token1: string, fee: number): string {
-    // Simplified pool address computation
-    // In production, use the actual Uniswap V3 factory contract
+  private async getFeeGrowthInside(
+    pool: ethers.Contract,
+    tickLower: number,
+    tickUpper: number,
+    blockTag?: number
+  ): Promise<FeeGrowthInside> {
+    const overrides = blockTag !== undefined ? { blockTag } : {};
+    const [slot0, feeGrowthGlobal0, feeGrowthGlobal1, lower, upper] = await Promise.all([
+      pool.slot0(overrides),
+      pool.feeGrowthGlobal0X128(overrides),
+      pool.feeGrowthGlobal1X128(overrides),
+      pool.ticks(tickLower, overrides),
+      pool.ticks(tickUpper, overrides),
+    ]);
+    const tickCurrent = Number(slot0.tick);
+
+    return {
+      feeGrowthInside0X128: getFeeGrowthInside(
+        tickCurrent, tickLower, tickUpper, feeGrowthGlobal0, lower.feeGrowthOutside0X128, upper.feeGrowthOutside0X128
+      ),
+      feeGrowthInside1X128: getFeeGrowthInside(
+        tickCurrent, tickLower, tickUpper, feeGrowthGlobal1, lower.feeGrowthOutside1X128, upper.feeGrowthOutside1X128
+      ),
+      initialized: lower.initialized && upper.initialized,
+    };
+  }
+
+  // Annualised fees the position's current liquidity earned over the trailing window,
+  // relative to its current value. Uses the range's fee growth, so a position opened
+  // mid-window is credited as if it had been there throughout, provided its ticks were
+  // already initialized; otherwise a shorter window is tried, then 0. Needs historical
+  // state (an archive node); without it APR is reported as 0.
+  private async getFeeApr(
+    pool: ethers.Contract,
+    positionData: { tickLower: bigint; tickUpper: bigint; liquidity: bigint },
+    current: FeeGrowthInside,
+    token0: TokenBalance,
+    token1: TokenBalance,
+    positionValue: number
+  ): Promise<number> {
+    if (positionValue <= 0) return 0;
+
+    try {
+      const blockNumber = await this.provider.getBlockNumber();
+
+      for (const days of FEE_APR_WINDOW_DAYS) {
+        const past = await this.getFeeGrowthInside(
+          pool,
+          Number(positionData.tickLower),
+          Number(positionData.tickUpper),
+          blockNumber - Math.round((days * 24 * 60 * 60) / this.deployment.blockTimeSeconds)
+        );
+
+        // Growth inside only accumulates, so a past value above the current one would
+        // wrap to ~2^256 rather than describe fees earned
+        if (!past.initialized ||
+            past.feeGrowthInside0X128 > current.feeGrowthInside0X128 ||
+            past.feeGrowthInside1X128 > current.feeGrowthInside1X128) {
+          continue;
+        }
+
+        const earned0 = getFeesEarned(current.feeGrowthInside0X128, past.feeGrowthInside0X128, positionData.liquidity);
+        const earned1 = getFeesEarned(current.feeGrowthInside1X128, past.feeGrowthInside1X128, positionData.liquidity);
+        const earnedValue = amountValue(toTokenAmount(earned0, token0.decimals), token0.price) +
+          amountValue(toTokenAmount(earned1, token1.decimals), token1.price);
+
+        return (earnedValue / positionValue) * (365 / days) * 100;
+      }
+      return 0;
+    } catch (error) {
+      console.warn('Failed to compute Uniswap V3 fee APR:', error);
+      return 0;
+    }
+  }
+
+  private async computePoolAddress(token0: string, token1: string, fee: number): Promise<string> {
     const factory = new ethers.Contract(
-      UNISWAP_V3_FACTORY,
+      this.deployment.factory,
       ['function getPool(address, address, uint24) external view returns (address)'],
       this.provider
     );
     
     return await factory.getPool(token0, token1, fee);
   }
-
-  private async calculateTokenAmount(
-    liquidity: bigint,
-    tickLower: number,
-    tickUpper: number,
-    currentTick: number,
-    isToken0: boolean
-  ): Promise<bigint> {
-    // Simplified liquidity calculation
-    // In production, use the actual Uniswap V3 math library
-    const liquidityAmount = liquidity / BigInt(1000); // Simplified
-    return isToken0 ? liquidityAmount : liquidityAmount / BigInt(2);
-  }
 }
 
-// Export a factory function to create the service
-export function createUniswapV3Service(provider: ethers.Provider): UniswapV3Integration {
-  return new UniswapV3Integration(provider);
+// Export a factory function to create the service for one chain's deployment
+export function createUniswapV3Service(
+  chainId: number,
+  provider: ethers.Provider = getProvider(chainId)
+): UniswapV3Integration {
+  return new UniswapV3Integration(chainId, provider);
 }
\ No newline at end of file
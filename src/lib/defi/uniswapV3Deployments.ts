@@ -0,0 +1,31 @@
+// Uniswap V3 deployments by chain. Kept free of imports so both the DeFi integration
+// and the DEX price provider can share it without a circular dependency.
+
+export interface UniswapV3Deployment {
+  factory: string;
+  positionManager: string;
+  // Average block time, used to look back a fixed duration for fee APR
+  blockTimeSeconds: number;
+}
+
+const CANONICAL_FACTORY = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
+const CANONICAL_POSITION_MANAGER = '0xC36442b4a4522E871399CD717aBDD847Ab11FE88';
+
+export const UNISWAP_V3_DEPLOYMENTS: Record<number, UniswapV3Deployment> = {
+  1: { factory: CANONICAL_FACTORY, positionManager: CANONICAL_POSITION_MANAGER, blockTimeSeconds: 12 },
+  10: { factory: CANONICAL_FACTORY, positionManager: CANONICAL_POSITION_MANAGER, blockTimeSeconds: 2 },
+  137: { factory: CANONICAL_FACTORY, positionManager: CANONICAL_POSITION_MANAGER, blockTimeSeconds: 2 },
+  8453: {
+    factory: '0x33128a8fC17869897dcE68Ed026d694621f6FDfD',
+    positionManager: '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1',
+    blockTimeSeconds: 2,
+  },
+  42161: { factory: CANONICAL_FACTORY, positionManager: CANONICAL_POSITION_MANAGER, blockTimeSeconds: 0.25 },
+};
+
+export const UNISWAP_V3_CHAIN_IDS = Object.keys(UNISWAP_V3_DEPLOYMENTS).map(Number);
+
+// ID of the DeFi position backed by a position NFT, shared with the NFT view
+export function getUniswapV3PositionId(chainId: number, tokenId: bigint | string): string {
+  return `uniswap-v3-${chainId}-${tokenId}`;
+}
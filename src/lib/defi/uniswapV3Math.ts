@@ -0,0 +1,151 @@
+// Uniswap V3 tick and liquidity math, ported from the core TickMath and periphery
+// LiquidityAmounts libraries. Everything stays in bigint so results match the
+// contracts to the wei.
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+
+// sqrt(1.0001^MIN_TICK) and sqrt(1.0001^MAX_TICK) as Q64.96
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+export const Q96 = 1n << 96n;
+export const Q128 = 1n << 128n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+const UINT256_MODULUS = 1n << 256n;
+
+// 2^128 / sqrt(1.0001)^(2^i) for each bit of the tick, in Q128.128
+const TICK_RATIO_FACTORS: Array<[number, bigint]> = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+// sqrt(1.0001^tick) * 2^96, rounded up exactly as TickMath.getSqrtRatioAtTick does
+export function getSqrtRatioAtTick(tick: number): bigint {
+  if (!Number.isInteger(tick) || tick < MIN_TICK || tick > MAX_TICK) {
+    throw new Error(`Tick ${tick} out of range`);
+  }
+
+  const absTick = Math.abs(tick);
+  let ratio = (absTick & 0x1) !== 0
+    ? 0xfffcb933bd6fad37aa2d162d1a594001n
+    : 0x100000000000000000000000000000000n;
+
+  for (const [bit, factor] of TICK_RATIO_FACTORS) {
+    if ((absTick & bit) !== 0) {
+      ratio = (ratio * factor) >> 128n;
+    }
+  }
+
+  if (tick > 0) {
+    ratio = MAX_UINT256 / ratio;
+  }
+
+  // Q128.128 -> Q64.96, rounding up so the ratio is never understated
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+function sortRatios(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint): [bigint, bigint] {
+  return sqrtRatioAX96 > sqrtRatioBX96 ? [sqrtRatioBX96, sqrtRatioAX96] : [sqrtRatioAX96, sqrtRatioBX96];
+}
+
+// Token0 held by `liquidity` between two sqrt prices (rounds down)
+export function getAmount0ForLiquidity(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint): bigint {
+  const [lower, upper] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+  if (lower === 0n) {
+    throw new Error('sqrt ratio must be positive');
+  }
+  return ((liquidity << 96n) * (upper - lower)) / upper / lower;
+}
+
+// Token1 held by `liquidity` between two sqrt prices (rounds down)
+export function getAmount1ForLiquidity(sqrtRatioAX96: bigint, sqrtRatioBX96: bigint, liquidity: bigint): bigint {
+  const [lower, upper] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+  return (liquidity * (upper - lower)) / Q96;
+}
+
+// Token amounts a position holds at the current pool price. Below the range the
+// position is entirely token0, above it entirely token1, and in range a mix.
+export function getAmountsForLiquidity(
+  sqrtPriceX96: bigint,
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint
+): { amount0: bigint; amount1: bigint } {
+  const [lower, upper] = sortRatios(sqrtRatioAX96, sqrtRatioBX96);
+
+  if (sqrtPriceX96 <= lower) {
+    return { amount0: getAmount0ForLiquidity(lower, upper, liquidity), amount1: 0n };
+  }
+  if (sqrtPriceX96 < upper) {
+    return {
+      amount0: getAmount0ForLiquidity(sqrtPriceX96, upper, liquidity),
+      amount1: getAmount1ForLiquidity(lower, sqrtPriceX96, liquidity),
+    };
+  }
+  return { amount0: 0n, amount1: getAmount1ForLiquidity(lower, upper, liquidity) };
+}
+
+// Convenience wrapper taking the position's tick bounds
+export function getPositionAmounts(
+  sqrtPriceX96: bigint,
+  tickLower: number,
+  tickUpper: number,
+  liquidity: bigint
+): { amount0: bigint; amount1: bigint } {
+  return getAmountsForLiquidity(sqrtPriceX96, getSqrtRatioAtTick(tickLower), getSqrtRatioAtTick(tickUpper), liquidity);
+}
+
+// Fee growth accumulators are uint256 and rely on overflow, so differences wrap
+function subUint256(a: bigint, b: bigint): bigint {
+  return ((a - b) % UINT256_MODULUS + UINT256_MODULUS) % UINT256_MODULUS;
+}
+
+// Fees per unit of liquidity earned inside [tickLower, tickUpper), as Pool._getFeeGrowthInside
+// computes it from the global accumulator and each bound's feeGrowthOutside
+export function getFeeGrowthInside(
+  tickCurrent: number,
+  tickLower: number,
+  tickUpper: number,
+  feeGrowthGlobalX128: bigint,
+  feeGrowthOutsideLowerX128: bigint,
+  feeGrowthOutsideUpperX128: bigint
+): bigint {
+  const feeGrowthBelow = tickCurrent >= tickLower
+    ? feeGrowthOutsideLowerX128
+    : subUint256(feeGrowthGlobalX128, feeGrowthOutsideLowerX128);
+  const feeGrowthAbove = tickCurrent < tickUpper
+    ? feeGrowthOutsideUpperX128
+    : subUint256(feeGrowthGlobalX128, feeGrowthOutsideUpperX128);
+  return subUint256(subUint256(feeGrowthGlobalX128, feeGrowthBelow), feeGrowthAbove);
+}
+
+// Fees accrued to `liquidity` between two fee growth snapshots (rounds down)
+export function getFeesEarned(feeGrowthInsideX128: bigint, feeGrowthInsideLastX128: bigint, liquidity: bigint): bigint {
+  return (subUint256(feeGrowthInsideX128, feeGrowthInsideLastX128) * liquidity) / Q128;
+}
+
+// Human price of token0 in token1 units, adjusted for decimals. Lossy; for valuation only.
+export function sqrtPriceX96ToPrice(sqrtPriceX96: bigint, decimals0: number, decimals1: number): number {
+  // Scale before dividing so low-priced pairs keep their significant digits
+  const scale = 10n ** 18n;
+  const priceX18 = (sqrtPriceX96 * sqrtPriceX96 * scale) / (Q96 * Q96);
+  return (Number(priceX18) / 1e18) * Math.pow(10, decimals0 - decimals1);
+}
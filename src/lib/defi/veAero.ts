@@ -0,0 +1,443 @@
+import { ethers } from 'ethers';
+import { DeFiPosition, TokenBalance, VotingEscrowEpochRewards, VotingEscrowPosition, VotingEscrowVote } from '@/types';
+import { tokenRegistry, getTokenKey } from '@/lib/tokens/registry';
+import { tokenMetadataService } from '@/lib/tokens/metadata';
+import { getProvider } from '@/lib/blockchain/providers';
+import { multicall } from '@/lib/blockchain/multicall';
+import { chainlinkOracle } from '@/lib/prices/chainlink';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import { toTokenAmount, amountValue } from '@/lib/utils';
+import { AERODROME_VOTER, AERODROME_VOTING_ESCROW, BASE_CHAIN_ID, getVeAeroPositionId } from './aerodromePools';
+
+const AERO_ADDRESS = '0x940181a94A35A4569E4529A3CDfB74e38FD98631';
+
+// Votes and rewards roll over weekly, Thursday 00:00 UTC
+const EPOCH_SECONDS = 7 * 24 * 60 * 60;
+
+// Voter.maxVotingNum default; poolVote has no length getter, so probe up to this many slots
+const MAX_POOL_VOTES = 30;
+
+// Votes from earlier epochs are found through the Voter's Voted events, scanned from
+// shortly before the Voter was deployed
+const VOTER_DEPLOY_BLOCK = 3_200_000;
+
+// Providers cap eth_getLogs ranges and result sizes; failing ranges are halved down to this
+const MIN_LOG_RANGE_BLOCKS = 10_000;
+
+const VOTING_ESCROW_ABI = [
+  'function balanceOf(address owner) external view returns (uint256)',
+  'function ownerToNFTokenIdList(address owner, uint256 index) external view returns (uint256)',
+  'function locked(uint256 tokenId) external view returns (tuple(int128 amount, uint256 end, bool isPermanent))',
+  'function balanceOfNFT(uint256 tokenId) external view returns (uint256)',
+];
+
+const VOTER_INTERFACE = new ethers.Interface([
+  'function lastVoted(uint256 tokenId) external view returns (uint256)',
+  'function poolVote(uint256 tokenId, uint256 index) external view returns (address)',
+  'function votes(uint256 tokenId, address pool) external view returns (uint256)',
+  'function gauges(address pool) external view returns (address)',
+  'function gaugeToFees(address gauge) external view returns (address)',
+  'function gaugeToBribe(address gauge) external view returns (address)',
+  'event Voted(address indexed voter, address indexed pool, uint256 indexed tokenId, uint256 weight, uint256 totalWeight, uint256 timestamp)',
+]);
+
+// FeesVotingReward and BribeVotingReward share the Reward interface. The checkpoint
+// getters let earned() be replayed one epoch at a time.
+const REWARD_INTERFACE = new ethers.Interface([
+  'function rewardsListLength() external view returns (uint256)',
+  'function rewards(uint256 index) external view returns (address)',
+  'function earned(address token, uint256 tokenId) external view returns (uint256)',
+  'function lastEarn(address token, uint256 tokenId) external view returns (uint256)',
+  'function getPriorBalanceIndex(uint256 tokenId, uint256 timestamp) external view returns (uint256)',
+  'function getPriorSupplyIndex(uint256 timestamp) external view returns (uint256)',
+  'function checkpoints(uint256 tokenId, uint256 index) external view returns (uint256 timestamp, uint256 balanceOf)',
+  'function supplyCheckpoints(uint256 index) external view returns (uint256 timestamp, uint256 supply)',
+  'function tokenRewardsPerEpoch(address token, uint256 epochStart) external view returns (uint256)',
+]);
+
+const POOL_INTERFACE = new ethers.Interface([
+  'function symbol() external view returns (string)',
+]);
+
+interface Call {
+  iface: ethers.Interface;
+  target: string;
+  method: string;
+  args: unknown[];
+}
+
+interface PoolVote {
+  pool: string;
+  poolName?: string;
+  weight: bigint;
+  feesReward?: string;
+  bribeReward?: string;
+}
+
+// Claimable amount of one reward token from one reward contract, and the epochs it
+// was earned in (oldest first)
+interface RewardClaim {
+  rewardContract: string;
+  token: string;
+  amount: bigint;
+  epochs: { epochStart: number; amount: bigint }[];
+}
+
+function getEpochStart(timestamp: number): number {
+  return timestamp - (timestamp % EPOCH_SECONDS);
+}
+
+// veAERO locks: locked AERO, voting power, the pools each lock voted for and the
+// fees and bribes those votes have earned
+export class VotingEscrowIntegration {
+  private provider: ethers.Provider;
+  private votingEscrow: ethers.Contract;
+  // Pools each lock has ever voted for, and the last block scanned for its Voted events
+  private votedPools = new Map<string, { pools: Set<string>; scannedTo: number }>();
+
+  constructor() {
+    this.provider = getProvider(BASE_CHAIN_ID);
+    this.votingEscrow = new ethers.Contract(AERODROME_VOTING_ESCROW, VOTING_ESCROW_ABI, this.provider);
+  }
+
+  async getPositions(walletAddress: string): Promise<DeFiPosition[]> {
+    try {
+      const count = Number(await this.votingEscrow.balanceOf(walletAddress));
+      if (count === 0) return [];
+
+      const tokenIds: bigint[] = await Promise.all(
+        Array.from({ length: count }, (_, index) => this.votingEscrow.ownerToNFTokenIdList(walletAddress, index))
+      );
+
+      const aero = tokenRegistry.getBySymbol(BASE_CHAIN_ID, 'AERO');
+      const aeroPrice = (await chainlinkOracle.getAssetPrice('AERO', BASE_CHAIN_ID))?.price ?? 0;
+
+      const positions: DeFiPosition[] = [];
+      for (const tokenId of tokenIds) {
+        try {
+          positions.push(await this.getLockDetails(tokenId, aero?.logo, aeroPrice));
+        } catch (error) {
+          console.warn(`Failed to fetch veAERO lock ${tokenId}:`, error);
+        }
+      }
+
+      return positions;
+    } catch (error) {
+      console.error('Error fetching veAERO positions:', error);
+      return [];
+    }
+  }
+
+  private async getLockDetails(tokenId: bigint, aeroLogo: string | undefined, aeroPrice: number): Promise<DeFiPosition> {
+    const voter = new ethers.Contract(AERODROME_VOTER, VOTER_INTERFACE, this.provider);
+    const [locked, votingPower, lastVoted] = await Promise.all([
+      this.votingEscrow.locked(tokenId),
+      this.votingEscrow.balanceOfNFT(tokenId),
+      voter.lastVoted(tokenId),
+    ]);
+
+    const lockedAmount: bigint = locked.amount < 0n ? 0n : locked.amount;
+    const epochStart = getEpochStart(Math.floor(Date.now() / 1000));
+
+    // Rewards from earlier epochs stay claimable after the lock re-votes elsewhere,
+    // so pools from past votes are checked alongside the current ones
+    const currentPools = await this.getCurrentPools(tokenId);
+    const pastPools = await this.getPastPools(tokenId);
+    const pools = [...currentPools, ...pastPools.filter(pool =>
+      !currentPools.some(current => current.toLowerCase() === pool.toLowerCase())
+    )];
+
+    const poolVotes = await this.getPoolVotes(tokenId, pools);
+    const claims = await this.getClaims(tokenId, poolVotes, epochStart);
+    const rewardTokens = await this.getRewardTokens(claims);
+
+    const toBalance = (token: string, amount: bigint): TokenBalance => {
+      const info = rewardTokens.get(getTokenKey(BASE_CHAIN_ID, token))!;
+      return {
+        ...info,
+        balance: amount.toString(),
+        value: amountValue(toTokenAmount(amount, info.decimals), info.price),
+      };
+    };
+    const claimsFor = (rewardContract?: string) => claims.filter(claim => claim.rewardContract === rewardContract);
+
+    const votes: VotingEscrowVote[] = poolVotes
+      .map(vote => {
+        const fees = claimsFor(vote.feesReward);
+        const bribes = claimsFor(vote.bribeReward);
+        const epochStarts = [...new Set([...fees, ...bribes].flatMap(claim => claim.epochs.map(epoch => epoch.epochStart)))]
+          .sort((a, b) => a - b);
+        const inEpoch = (epochClaims: RewardClaim[], start: number) => epochClaims.flatMap(claim =>
+          claim.epochs.filter(epoch => epoch.epochStart === start).map(epoch => toBalance(claim.token, epoch.amount))
+        );
+
+        const epochs: VotingEscrowEpochRewards[] = epochStarts.map(start => ({
+          epochStart: start,
+          fees: inEpoch(fees, start),
+          bribes: inEpoch(bribes, start),
+        }));
+
+        return {
+          pool: vote.pool,
+          poolName: vote.poolName,
+          weight: vote.weight.toString(),
+          fees: fees.map(claim => toBalance(claim.token, claim.amount)),
+          bribes: bribes.map(claim => toBalance(claim.token, claim.amount)),
+          epochs,
+        };
+      })
+      // Past pools only matter while they still hold something to claim
+      .filter(vote => vote.weight !== '0' || vote.fees.length > 0 || vote.bribes.length > 0);
+
+    const lockedAero: TokenBalance = {
+      address: AERO_ADDRESS,
+      chainId: BASE_CHAIN_ID,
+      symbol: 'AERO',
+      name: 'Aerodrome',
+      balance: lockedAmount.toString(),
+      decimals: 18,
+      price: aeroPrice,
+      value: amountValue(toTokenAmount(lockedAmount, 18), aeroPrice),
+      logo: aeroLogo,
+    };
+
+    const votingEscrowPosition: VotingEscrowPosition = {
+      tokenId: tokenId.toString(),
+      lockedAmount: lockedAmount.toString(),
+      lockEnd: Number(locked.end),
+      isPermanent: locked.isPermanent,
+      votingPower: votingPower.toString(),
+      lastVoted: Number(lastVoted),
+      epoch: {
+        start: epochStart,
+        end: epochStart + EPOCH_SECONDS,
+      },
+      votes,
+    };
+
+    const claimable = votes.reduce(
+      (sum, vote) => sum + [...vote.fees, ...vote.bribes].reduce((total, reward) => total + reward.value, 0),
+      0
+    );
+
+    return {
+      id: getVeAeroPositionId(tokenId),
+      chainId: BASE_CHAIN_ID,
+      protocol: 'aerodrome',
+      type: 'governance',
+      tokens: [lockedAero],
+      apy: 0, // Voting rewards vary by epoch and pool; surfaced as claimable instead
+      value: lockedAero.value,
+      claimable,
+      metadata: votingEscrowPosition,
+    };
+  }
+
+  // Pools the lock currently votes for
+  private async getCurrentPools(tokenId: bigint): Promise<string[]> {
+    const slots = await this.callAll(Array.from({ length: MAX_POOL_VOTES }, (_, index) => ({
+      iface: VOTER_INTERFACE, target: AERODROME_VOTER, method: 'poolVote', args: [tokenId, index],
+    })));
+    // Reading past the end of the vote array reverts
+    const firstEmpty = slots.findIndex(slot => slot === null);
+    return slots.slice(0, firstEmpty === -1 ? slots.length : firstEmpty).map(slot => slot![0] as string);
+  }
+
+  // Every pool the lock has voted for, from the Voter's Voted events. Scans resume
+  // from the last block seen; on failure the pools found so far are returned.
+  private async getPastPools(tokenId: bigint): Promise<string[]> {
+    const key = tokenId.toString();
+    const cached = this.votedPools.get(key) ?? { pools: new Set<string>(), scannedTo: VOTER_DEPLOY_BLOCK - 1 };
+    this.votedPools.set(key, cached);
+
+    try {
+      const latest = await this.provider.getBlockNumber();
+      if (latest > cached.scannedTo) {
+        const logs = await this.getVotedLogs(tokenId, cached.scannedTo + 1, latest);
+        logs.forEach(log => {
+          const parsed = VOTER_INTERFACE.parseLog(log);
+          if (parsed) cached.pools.add(parsed.args.pool);
+        });
+        cached.scannedTo = latest;
+      }
+    } catch (error) {
+      console.warn(`Failed to scan past votes for veAERO lock ${tokenId}:`, error);
+    }
+
+    return [...cached.pools];
+  }
+
+  // Voted events for one lock, halving the block range whenever the provider rejects it
+  private async getVotedLogs(tokenId: bigint, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    const topics = VOTER_INTERFACE.encodeFilterTopics('Voted', [null, null, tokenId]);
+    try {
+      return await this.provider.getLogs({ address: AERODROME_VOTER, topics, fromBlock, toBlock });
+    } catch (error) {
+      if (toBlock - fromBlock < MIN_LOG_RANGE_BLOCKS) throw error;
+      const middle = Math.floor((fromBlock + toBlock) / 2);
+      return [
+        ...await this.getVotedLogs(tokenId, fromBlock, middle),
+        ...await this.getVotedLogs(tokenId, middle + 1, toBlock),
+      ];
+    }
+  }
+
+  // The lock's current weight in each pool (0 for past votes) and the pool's reward contracts
+  private async getPoolVotes(tokenId: bigint, pools: string[]): Promise<PoolVote[]> {
+    if (pools.length === 0) return [];
+
+    const details = await this.callAll(pools.flatMap(pool => [
+      { iface: VOTER_INTERFACE, target: AERODROME_VOTER, method: 'votes', args: [tokenId, pool] },
+      { iface: VOTER_INTERFACE, target: AERODROME_VOTER, method: 'gauges', args: [pool] },
+      // Slipstream pools have no symbol, so the name is optional
+      { iface: POOL_INTERFACE, target: pool, method: 'symbol', args: [] },
+    ]));
+    const gauges = pools.map((_, index) => details[index * 3 + 1]?.[0] as string | undefined);
+
+    const rewardContracts = await this.callAll(gauges.flatMap(gauge => gauge ? [
+      { iface: VOTER_INTERFACE, target: AERODROME_VOTER, method: 'gaugeToFees', args: [gauge] },
+      { iface: VOTER_INTERFACE, target: AERODROME_VOTER, method: 'gaugeToBribe', args: [gauge] },
+    ] : []));
+
+    let rewardIndex = 0;
+    return pools.map((pool, index) => {
+      const vote: PoolVote = {
+        pool,
+        poolName: details[index * 3 + 2]?.[0],
+        weight: details[index * 3]?.[0] ?? 0n,
+      };
+      if (gauges[index]) {
+        vote.feesReward = rewardContracts[rewardIndex++]?.[0];
+        vote.bribeReward = rewardContracts[rewardIndex++]?.[0];
+      }
+      return vote;
+    });
+  }
+
+  // Everything earned by the lock across the fee and bribe contracts of its voted pools
+  private async getClaims(tokenId: bigint, poolVotes: PoolVote[], epochStart: number): Promise<RewardClaim[]> {
+    const rewardContracts = [...new Set(poolVotes.flatMap(vote => [vote.feesReward, vote.bribeReward]))]
+      .filter((address): address is string => !!address && address !== ethers.ZeroAddress);
+    if (rewardContracts.length === 0) return [];
+
+    const lengths = await this.callAll(rewardContracts.map(target => ({
+      iface: REWARD_INTERFACE, target, method: 'rewardsListLength', args: [],
+    })));
+    const tokenSlots = rewardContracts.flatMap((rewardContract, index) =>
+      Array.from({ length: Number(lengths[index]?.[0] ?? 0n) }, (_, slot) => ({ rewardContract, slot }))
+    );
+
+    const tokens = await this.callAll(tokenSlots.map(({ rewardContract, slot }) => ({
+      iface: REWARD_INTERFACE, target: rewardContract, method: 'rewards', args: [slot],
+    })));
+    const pairs = tokenSlots
+      .map(({ rewardContract }, index) => ({ rewardContract, token: tokens[index]?.[0] as string | undefined }))
+      .filter((pair): pair is { rewardContract: string; token: string } => !!pair.token);
+
+    const earned = await this.callAll(pairs.map(({ rewardContract, token }) => ({
+      iface: REWARD_INTERFACE, target: rewardContract, method: 'earned', args: [token, tokenId],
+    })));
+
+    const claims: RewardClaim[] = pairs
+      .map((pair, index) => ({ ...pair, amount: (earned[index]?.[0] ?? 0n) as bigint, epochs: [] }))
+      .filter(claim => claim.amount > 0n);
+
+    try {
+      await this.splitByEpoch(tokenId, claims, epochStart);
+    } catch (error) {
+      console.warn(`Failed to split veAERO lock ${tokenId} rewards by epoch:`, error);
+    }
+    return claims;
+  }
+
+  // Replays Reward.earned() one epoch at a time: each finished epoch since the last
+  // claim pays the lock's last balance checkpoint in that epoch, over the supply
+  // checkpoint, times the rewards deposited for it. Fills claim.epochs in place.
+  private async splitByEpoch(tokenId: bigint, claims: RewardClaim[], currentEpoch: number): Promise<void> {
+    if (claims.length === 0) return;
+
+    const lastEarn = await this.callAll(claims.map(claim => ({
+      iface: REWARD_INTERFACE, target: claim.rewardContract, method: 'lastEarn', args: [claim.token, tokenId],
+    })));
+    const claimedFrom = claims.map((_, index) => getEpochStart(Number(lastEarn[index]?.[0] ?? 0n)));
+
+    // Rewards can't predate the lock's first checkpoint in the reward contract
+    const firstIndices = await this.callAll(claims.map((claim, index) => ({
+      iface: REWARD_INTERFACE, target: claim.rewardContract, method: 'getPriorBalanceIndex', args: [tokenId, claimedFrom[index]],
+    })));
+    const firstCheckpoints = await this.callAll(claims.map((claim, index) => ({
+      iface: REWARD_INTERFACE, target: claim.rewardContract, method: 'checkpoints', args: [tokenId, firstIndices[index]?.[0] ?? 0n],
+    })));
+
+    const epochs = claims.flatMap((claim, index) => {
+      const checkpointEpoch = getEpochStart(Number(firstCheckpoints[index]?.timestamp ?? 0n));
+      const start = Math.max(claimedFrom[index], checkpointEpoch);
+      return Array.from({ length: Math.max((currentEpoch - start) / EPOCH_SECONDS, 0) }, (_, offset) => ({
+        claim,
+        epochStart: start + offset * EPOCH_SECONDS,
+        epochEnd: start + (offset + 1) * EPOCH_SECONDS - 1,
+      }));
+    });
+    if (epochs.length === 0) return;
+
+    const lookups = await this.callAll(epochs.flatMap(({ claim, epochStart, epochEnd }) => [
+      { iface: REWARD_INTERFACE, target: claim.rewardContract, method: 'getPriorBalanceIndex', args: [tokenId, epochEnd] },
+      { iface: REWARD_INTERFACE, target: claim.rewardContract, method: 'getPriorSupplyIndex', args: [epochEnd] },
+      { iface: REWARD_INTERFACE, target: claim.rewardContract, method: 'tokenRewardsPerEpoch', args: [claim.token, epochStart] },
+    ]));
+    const checkpoints = await this.callAll(epochs.flatMap(({ claim }, index) => [
+      { iface: REWARD_INTERFACE, target: claim.rewardContract, method: 'checkpoints', args: [tokenId, lookups[index * 3]?.[0] ?? 0n] },
+      { iface: REWARD_INTERFACE, target: claim.rewardContract, method: 'supplyCheckpoints', args: [lookups[index * 3 + 1]?.[0] ?? 0n] },
+    ]));
+
+    epochs.forEach(({ claim, epochStart }, index) => {
+      const balance: bigint = checkpoints[index * 2]?.balanceOf ?? 0n;
+      const supply: bigint = checkpoints[index * 2 + 1]?.supply ?? 0n;
+      const rewards: bigint = lookups[index * 3 + 2]?.[0] ?? 0n;
+      const amount = (balance * rewards) / (supply > 1n ? supply : 1n);
+      if (amount > 0n) claim.epochs.push({ epochStart, amount });
+    });
+  }
+
+  // Metadata and prices for every reward token, keyed by getTokenKey
+  private async getRewardTokens(claims: RewardClaim[]): Promise<Map<string, TokenBalance>> {
+    const addresses = [...new Set(claims.map(claim => claim.token))];
+    const [metadata, prices] = await Promise.all([
+      tokenMetadataService.getMetadata(BASE_CHAIN_ID, addresses),
+      priceAggregator.getPrices(addresses.map(address => ({ chainId: BASE_CHAIN_ID, address }))),
+    ]);
+
+    return new Map(addresses.map(address => {
+      const key = getTokenKey(BASE_CHAIN_ID, address);
+      const info = metadata.get(key);
+      return [key, {
+        address,
+        chainId: BASE_CHAIN_ID,
+        symbol: info?.symbol || 'UNKNOWN',
+        name: info?.name || 'Unknown Token',
+        balance: '0',
+        decimals: info?.decimals ?? 18,
+        price: prices[key]?.price ?? 0,
+        value: 0,
+        logo: info?.logo,
+      }];
+    }));
+  }
+
+  // Batch view calls through multicall; failed calls decode to null
+  private async callAll(calls: Call[]): Promise<(ethers.Result | null)[]> {
+    if (calls.length === 0) return [];
+    const results = await multicall(BASE_CHAIN_ID, calls.map(call => ({
+      target: call.target,
+      callData: call.iface.encodeFunctionData(call.method, call.args),
+    })));
+    return results.map((result, index) => {
+      if (!result.success || result.returnData === '0x') return null;
+      try {
+        return calls[index].iface.decodeFunctionResult(calls[index].method, result.returnData);
+      } catch {
+        return null;
+      }
+    });
+  }
+}
@@ -0,0 +1,130 @@
+import { Alchemy, Network } from 'alchemy-sdk';
+import fixtureFloors from './fixtures/floors.json';
+
+// Collection floor, denominated in ETH (the quote currency NFT marketplaces use on
+// Ethereum and its L2s)
+export interface FloorPrice {
+  priceEth: number;
+  source: string;
+}
+
+export interface NftCollectionRef {
+  chainId: number;
+  contractAddress: string;
+  // Floor reported alongside the NFT metadata, when the enumeration API includes one
+  metadataFloorEth?: number;
+}
+
+export interface FloorPriceSource {
+  readonly id: string;
+  getFloorPrices(collections: NftCollectionRef[]): Promise<Map<string, FloorPrice>>;
+}
+
+// How long marketplace floors are reused before asking again
+const FLOOR_CACHE_TTL_MS = 10 * 60 * 1000;
+
+export function getCollectionKey(chainId: number, contractAddress: string): string {
+  return `${chainId}:${contractAddress.toLowerCase()}`;
+}
+
+// Uses the OpenSea floor Alchemy attaches to each NFT's contract metadata. Free, since
+// it arrives with the holdings, and available on every chain Alchemy indexes.
+export class MetadataFloorPriceSource implements FloorPriceSource {
+  readonly id = 'metadata';
+
+  async getFloorPrices(collections: NftCollectionRef[]): Promise<Map<string, FloorPrice>> {
+    const floors = new Map<string, FloorPrice>();
+    collections.forEach(collection => {
+      if (collection.metadataFloorEth && collection.metadataFloorEth > 0) {
+        floors.set(getCollectionKey(collection.chainId, collection.contractAddress), {
+          priceEth: collection.metadataFloorEth,
+          source: this.id,
+        });
+      }
+    });
+    return floors;
+  }
+}
+
+// Live marketplace floors (OpenSea, then LooksRare) from Alchemy's getFloorPrice.
+// Only Ethereum mainnet collections are supported by the endpoint; other chains fall
+// back to the metadata floor.
+export class MarketplaceFloorPriceSource implements FloorPriceSource {
+  readonly id = 'marketplace';
+  private alchemy = new Alchemy({ apiKey: process.env.ALCHEMY_API_KEY, network: Network.ETH_MAINNET });
+  private cache = new Map<string, { floor: FloorPrice | null; fetchedAt: number }>();
+  private fallback = new MetadataFloorPriceSource();
+
+  async getFloorPrices(collections: NftCollectionRef[]): Promise<Map<string, FloorPrice>> {
+    const floors = await this.fallback.getFloorPrices(collections.filter(collection => collection.chainId !== 1));
+
+    await Promise.all(collections.filter(collection => collection.chainId === 1).map(async collection => {
+      const key = getCollectionKey(collection.chainId, collection.contractAddress);
+      const cached = this.cache.get(key);
+      if (cached && Date.now() - cached.fetchedAt < FLOOR_CACHE_TTL_MS) {
+        if (cached.floor) floors.set(key, cached.floor);
+        return;
+      }
+
+      try {
+        const response = await this.alchemy.nft.getFloorPrice(collection.contractAddress);
+        const listing = [response.openSea, response.looksRare].find(
+          marketplace => 'floorPrice' in marketplace && marketplace.priceCurrency === 'ETH' && marketplace.floorPrice > 0
+        );
+        const floor = listing && 'floorPrice' in listing ? { priceEth: listing.floorPrice, source: this.id } : null;
+        this.cache.set(key, { floor, fetchedAt: Date.now() });
+        if (floor) floors.set(key, floor);
+      } catch (error) {
+        console.warn(`Failed to fetch floor price for ${collection.contractAddress}:`, error);
+      }
+    }));
+
+    return floors;
+  }
+}
+
+// Static floors keyed by chainId:address, for offline development and demos
+export class FixtureFloorPriceSource implements FloorPriceSource {
+  readonly id = 'fixture';
+
+  async getFloorPrices(collections: NftCollectionRef[]): Promise<Map<string, FloorPrice>> {
+    const fixtures: Record<string, number> = Object.fromEntries(
+      Object.entries(fixtureFloors).map(([key, priceEth]) => [key.toLowerCase(), priceEth])
+    );
+    const floors = new Map<string, FloorPrice>();
+    collections.forEach(collection => {
+      const key = getCollectionKey(collection.chainId, collection.contractAddress);
+      if (fixtures[key] !== undefined) {
+        floors.set(key, { priceEth: fixtures[key], source: this.id });
+      }
+    });
+    return floors;
+  }
+}
+
+// Leaves every NFT unvalued
+export class NoFloorPriceSource implements FloorPriceSource {
+  readonly id = 'none';
+
+  async getFloorPrices(): Promise<Map<string, FloorPrice>> {
+    return new Map();
+  }
+}
+
+// Source IDs accepted in NFT_FLOOR_SOURCE, mapped to their constructors
+const FLOOR_SOURCE_FACTORIES: Record<string, () => FloorPriceSource> = {
+  metadata: () => new MetadataFloorPriceSource(),
+  marketplace: () => new MarketplaceFloorPriceSource(),
+  fixture: () => new FixtureFloorPriceSource(),
+  none: () => new NoFloorPriceSource(),
+};
+
+// Factory function
+export function createFloorPriceSource(source = process.env.NFT_FLOOR_SOURCE || 'metadata'): FloorPriceSource {
+  const factory = FLOOR_SOURCE_FACTORIES[source.trim().toLowerCase()];
+  if (!factory) {
+    console.warn(`Unknown NFT floor source "${source}", using metadata`);
+    return new MetadataFloorPriceSource();
+  }
+  return factory();
+}
@@ -0,0 +1,201 @@
+import { Alchemy, NftTokenType, OwnedNft } from 'alchemy-sdk';
+import { NftHolding } from '@/types';
+import { ALCHEMY_BALANCE_NETWORKS } from '@/lib/balances/alchemy';
+import { UNISWAP_V3_DEPLOYMENTS, getUniswapV3PositionId } from '@/lib/defi/uniswapV3Deployments';
+import {
+  AERODROME_VOTING_ESCROW,
+  BASE_CHAIN_ID,
+  SLIPSTREAM_NFT_MANAGER,
+  getSlipstreamPositionId,
+  getVeAeroPositionId,
+} from '@/lib/defi/aerodromePools';
+import { LIDO_WITHDRAWAL_QUEUE, getLidoWithdrawalPositionId } from '@/lib/defi/liquidStaking';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import { getTokenKey, NATIVE_TOKEN_ADDRESS } from '@/lib/tokens/registry';
+import { createFloorPriceSource, FloorPriceSource, getCollectionKey } from './floor';
+
+// Chains with Alchemy NFT indexing (mirrors the balance backend)
+export const NFT_CHAIN_IDS = Object.keys(ALCHEMY_BALANCE_NETWORKS).map(Number);
+
+// Enumerated holdings are reused briefly; NFT ownership changes far less often than prices
+const HOLDINGS_CACHE_TTL_MS = 60 * 1000;
+
+// Safety stop for wallets holding huge airdropped collections (Alchemy returns 100 per page)
+const MAX_PAGES = 20;
+
+export interface ChainNftError {
+  chainId: number;
+  error: string;
+}
+
+export interface NftPortfolio {
+  holdings: NftHolding[];
+  // Floor value of NFTs not already counted as DeFi positions, in USD
+  totalValue: number;
+  floorSource: string;
+  errors: ChainNftError[];
+}
+
+// Position NFTs represent liquidity that the DeFi integrations already value
+function getDeFiPositionId(chainId: number, contractAddress: string, tokenId: string): string | undefined {
+  const positionManager = UNISWAP_V3_DEPLOYMENTS[chainId]?.positionManager;
+  if (positionManager && positionManager.toLowerCase() === contractAddress.toLowerCase()) {
+    return getUniswapV3PositionId(chainId, tokenId);
+  }
+  if (chainId === BASE_CHAIN_ID && SLIPSTREAM_NFT_MANAGER.toLowerCase() === contractAddress.toLowerCase()) {
+    return getSlipstreamPositionId(tokenId);
+  }
+  if (chainId === BASE_CHAIN_ID && AERODROME_VOTING_ESCROW.toLowerCase() === contractAddress.toLowerCase()) {
+    return getVeAeroPositionId(tokenId);
+  }
+  if (chainId === 1 && LIDO_WITHDRAWAL_QUEUE.toLowerCase() === contractAddress.toLowerCase()) {
+    return getLidoWithdrawalPositionId(tokenId);
+  }
+  return undefined;
+}
+
+export class NftService {
+  private floorSource: FloorPriceSource;
+  private clients = new Map<number, Alchemy>();
+  private holdingsCache = new Map<string, { nfts: OwnedNft[]; fetchedAt: number }>();
+
+  constructor(floorSource: FloorPriceSource) {
+    this.floorSource = floorSource;
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.ALCHEMY_API_KEY;
+  }
+
+  supportsChain(chainId: number): boolean {
+    return chainId in ALCHEMY_BALANCE_NETWORKS;
+  }
+
+  private getClient(chainId: number): Alchemy {
+    let client = this.clients.get(chainId);
+    if (!client) {
+      client = new Alchemy({
+        apiKey: process.env.ALCHEMY_API_KEY,
+        network: ALCHEMY_BALANCE_NETWORKS[chainId],
+      });
+      this.clients.set(chainId, client);
+    }
+    return client;
+  }
+
+  private async getOwnedNfts(chainId: number, owner: string): Promise<OwnedNft[]> {
+    const key = `${chainId}:${owner.toLowerCase()}`;
+    const cached = this.holdingsCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < HOLDINGS_CACHE_TTL_MS) {
+      return cached.nfts;
+    }
+
+    const alchemy = this.getClient(chainId);
+    const nfts: OwnedNft[] = [];
+    let pageKey: string | undefined;
+    let pages = 0;
+    do {
+      const response = await alchemy.nft.getNftsForOwner(owner, { pageKey });
+      nfts.push(...response.ownedNfts);
+      pageKey = response.pageKey;
+      pages++;
+    } while (pageKey && pages < MAX_PAGES);
+
+    if (pageKey) {
+      console.warn(`Stopped enumerating NFTs for ${owner} on chain ${chainId} after ${MAX_PAGES} pages`);
+    }
+
+    this.holdingsCache.set(key, { nfts, fetchedAt: Date.now() });
+    return nfts;
+  }
+
+  async getPortfolio(chainIds: number[], owner: string): Promise<NftPortfolio> {
+    const errors: ChainNftError[] = [];
+    const owned: Array<{ chainId: number; nft: OwnedNft }> = [];
+
+    await Promise.all(chainIds.map(async chainId => {
+      try {
+        const nfts = await this.getOwnedNfts(chainId, owner);
+        nfts.forEach(nft => owned.push({ chainId, nft }));
+      } catch (error) {
+        console.error(`Error fetching NFTs on chain ${chainId}:`, error);
+        errors.push({ chainId, error: error instanceof Error ? error.message : 'Failed to fetch NFTs' });
+      }
+    }));
+
+    // Spam collections and non-NFT contracts are dropped before valuation
+    const nfts = owned.filter(({ nft }) =>
+      !nft.contract.isSpam &&
+      (nft.tokenType === NftTokenType.ERC721 || nft.tokenType === NftTokenType.ERC1155)
+    );
+
+    const collections = new Map<string, { chainId: number; contractAddress: string; metadataFloorEth?: number }>();
+    nfts.forEach(({ chainId, nft }) => {
+      if (getDeFiPositionId(chainId, nft.contract.address, nft.tokenId)) return;
+      collections.set(getCollectionKey(chainId, nft.contract.address), {
+        chainId,
+        contractAddress: nft.contract.address,
+        metadataFloorEth: nft.contract.openSeaMetadata?.floorPrice,
+      });
+    });
+
+    const [floors, ethUsd] = await Promise.all([
+      this.floorSource.getFloorPrices(Array.from(collections.values())).catch(error => {
+        console.warn(`NFT floor source ${this.floorSource.id} failed:`, error);
+        return new Map();
+      }),
+      this.getEthPrice(),
+    ]);
+
+    const holdings: NftHolding[] = nfts.map(({ chainId, nft }) => {
+      const defiPositionId = getDeFiPositionId(chainId, nft.contract.address, nft.tokenId);
+      const floor = defiPositionId ? undefined : floors.get(getCollectionKey(chainId, nft.contract.address));
+      const floorPrice = floor && ethUsd > 0 ? floor.priceEth * ethUsd : undefined;
+      const balance = nft.balance || '1';
+      const collectionName = nft.contract.openSeaMetadata?.collectionName || nft.contract.name || 'Unknown Collection';
+
+      return {
+        chainId,
+        contractAddress: nft.contract.address,
+        tokenId: nft.tokenId,
+        standard: nft.tokenType === NftTokenType.ERC1155 ? 'ERC1155' : 'ERC721',
+        balance,
+        name: nft.name || `${collectionName} #${nft.tokenId}`,
+        collectionName,
+        image: nft.image?.thumbnailUrl || nft.image?.cachedUrl || nft.image?.originalUrl,
+        floorPrice,
+        floorSource: floor?.source,
+        value: floorPrice ? floorPrice * Number(balance) : 0,
+        defiPositionId,
+      };
+    });
+
+    holdings.sort((a, b) => b.value - a.value);
+
+    return {
+      holdings,
+      totalValue: holdings.reduce((sum, holding) => sum + holding.value, 0),
+      floorSource: this.floorSource.id,
+      errors,
+    };
+  }
+
+  // Floors are quoted in ETH; value them with the mainnet ETH price
+  private async getEthPrice(): Promise<number> {
+    try {
+      const prices = await priceAggregator.getPrices([{ chainId: 1, address: NATIVE_TOKEN_ADDRESS }]);
+      return prices[getTokenKey(1, NATIVE_TOKEN_ADDRESS)]?.price ?? 0;
+    } catch (error) {
+      console.warn('Failed to price ETH for NFT floors:', error);
+      return 0;
+    }
+  }
+}
+
+// Factory function. NFT_FLOOR_SOURCE picks where collection floors come from.
+export function createNftService(): NftService {
+  return new NftService(createFloorPriceSource());
+}
+
+// Export singleton instance
+export const nftService = createNftService();
@@ -0,0 +1,130 @@
+import { getTokenKey } from '@/lib/tokens/registry';
+import { PriceProvider, PriceQuote, PriceQuotes, PriceRequest } from './types';
+import { CoinGeckoPriceProvider } from './coingecko';
+import { DefiLlamaPriceProvider } from './defillama';
+import { FixturePriceProvider } from './fixture';
+import { ChainlinkPriceProvider } from './chainlink';
+import { DexPriceProvider } from './dex';
+
+// Provider IDs accepted in PRICE_PROVIDERS, mapped to their constructors
+const PROVIDER_FACTORIES: Record<string, () => PriceProvider> = {
+  coingecko: () => new CoinGeckoPriceProvider(),
+  defillama: () => new DefiLlamaPriceProvider(),
+  chainlink: () => new ChainlinkPriceProvider(),
+  dex: () => new DexPriceProvider(),
+  fixture: () => new FixturePriceProvider(),
+};
+
+const DEFAULT_PROVIDERS = 'coingecko,defillama,chainlink,dex';
+
+export interface PriceAggregatorOptions {
+  // Stop asking lower-priority providers once a token has this many quotes
+  quorum?: number;
+  // Maximum relative distance from the median before a quote is dropped (0.1 = 10%)
+  maxDeviation?: number;
+}
+
+// Drop quotes that are too far from the median. Needs at least three quotes to tell
+// which side is wrong; with fewer, every quote is kept and priority decides.
+export function rejectOutliers(quotes: PriceQuote[], maxDeviation: number): PriceQuote[] {
+  if (quotes.length < 3) return quotes;
+
+  const sorted = quotes.map(quote => quote.price).sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+
+  if (median <= 0) return quotes;
+
+  return quotes.filter(quote => Math.abs(quote.price - median) / median <= maxDeviation);
+}
+
+export class PriceAggregator {
+  private providers: PriceProvider[];
+  private quorum: number;
+  private maxDeviation: number;
+
+  constructor(providers: PriceProvider[], options: PriceAggregatorOptions = {}) {
+    this.providers = providers;
+    this.quorum = Math.max(1, options.quorum ?? 3);
+    this.maxDeviation = options.maxDeviation ?? 0.1;
+  }
+
+  getProviderIds(): string[] {
+    return this.providers.map(provider => provider.id);
+  }
+
+  // Query providers in priority order, falling through to the next one whenever a
+  // provider is rate limited, fails, or leaves tokens without enough quotes.
+  async getPrices(tokens: PriceRequest[]): Promise<PriceQuotes> {
+    const quotesByKey = new Map<string, PriceQuote[]>();
+    const requests = new Map<string, PriceRequest>();
+    tokens.forEach(token => {
+      const key = getTokenKey(token.chainId, token.address);
+      requests.set(key, token);
+      quotesByKey.set(key, []);
+    });
+
+    for (const provider of this.providers) {
+      const pending = Array.from(requests.entries())
+        .filter(([key]) => quotesByKey.get(key)!.length < this.quorum)
+        .map(([, request]) => request);
+
+      if (pending.length === 0) break;
+
+      if (!provider.isAvailable()) {
+        console.warn(`Price provider ${provider.id} unavailable, skipping`);
+        continue;
+      }
+
+      try {
+        const quotes = await provider.getPrices(pending);
+        Object.entries(quotes).forEach(([key, quote]) => {
+          if (quote.price > 0 && Number.isFinite(quote.price)) {
+            quotesByKey.get(key)?.push(quote);
+          }
+        });
+      } catch (error) {
+        console.warn(`Price provider ${provider.id} failed:`, error);
+      }
+    }
+
+    // Quotes were collected in priority order, so the first survivor wins
+    const prices: PriceQuotes = {};
+    quotesByKey.forEach((quotes, key) => {
+      const [best] = rejectOutliers(quotes, this.maxDeviation);
+      if (best) {
+        prices[key] = best;
+      }
+    });
+
+    return prices;
+  }
+}
+
+// Factory function. Provider order comes from PRICE_PROVIDERS (comma separated IDs).
+export function createPriceAggregator(
+  providerIds: string = process.env.PRICE_PROVIDERS || DEFAULT_PROVIDERS,
+  options: PriceAggregatorOptions = {}
+): PriceAggregator {
+  const providers = providerIds
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(id => {
+      if (!PROVIDER_FACTORIES[id]) {
+        console.warn(`Unknown price provider "${id}" ignored`);
+        return false;
+      }
+      return true;
+    })
+    .map(id => PROVIDER_FACTORIES[id]());
+
+  return new PriceAggregator(providers, {
+    quorum: options.quorum ?? (Number(process.env.PRICE_QUORUM) || undefined),
+    maxDeviation: options.maxDeviation ?? (Number(process.env.PRICE_MAX_DEVIATION) || undefined),
+  });
+}
+
+// Export singleton instance
+export const priceAggregator = createPriceAggregator();
@@ -0,0 +1,206 @@
+import { ethers } from 'ethers';
+import { getProvider } from '@/lib/blockchain/providers';
+import { tokenRegistry, getTokenKey } from '@/lib/tokens/registry';
+import { PriceProvider, PriceQuotes, PriceRequest } from './types';
+
+const MAINNET_CHAIN_ID = 1;
+
+// Chainlink AggregatorV3Interface
+const AGGREGATOR_ABI = [
+  'function latestRoundData() external view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function decimals() external view returns (uint8)',
+];
+
+// USD price feeds by chain and asset
+const CHAINLINK_FEEDS: Record<number, Record<string, string>> = {
+  1: {
+    ETH: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+    BTC: '0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c',
+    USDC: '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6',
+    USDT: '0x3E7d1eAB13ad0104d2750B8863b489D65364e32D',
+    DAI: '0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9',
+  },
+  10: {
+    ETH: '0x13e3Ee699D1909E989722E753853AE30b17e08c5',
+    BTC: '0xD702DD976Fb76Fffc2D3963D037dfDae5b04E593',
+    USDC: '0x16a9FA2FDa030272Ce99B29CF780dFA30361E0f3',
+    USDT: '0xECef79E109e997bCA29c1c0897ec9d7b03647F5E',
+    DAI: '0x8dBa75e83DA73cc766A7e5a0ee71F656BAb470d6',
+  },
+  137: {
+    ETH: '0xF9680D99D6C9589e2a93a78A04A279e509205945',
+    BTC: '0xc907E116054Ad103354f2D350FD2514433D57F6f',
+    USDC: '0xfE4A8cc5b5B2366C1B58Bea3858e81843581b2F7',
+    USDT: '0x0A6513e40db6EB1b165753AD52E80663aeA50545',
+    DAI: '0x4746DeC9e833A82EC7C2C1356372CcF2cfcD2F3D',
+    MATIC: '0xAB594600376Ec9fD91F8e885dADF0CE036862dE0',
+  },
+  8453: {
+    ETH: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70',
+    BTC: '0x64c911996D3c6aC71f9b455B1E8E7266BcbD848F',
+    USDC: '0x7e860098F58bBFC8648a4311b374B1D669a2bc6B',
+    USDT: '0xf19d560eB8d2ADf07BD6D13ed03e1D11215721F9',
+    DAI: '0x591e79239a7d679378eC8c847e5038150364C78F',
+    CBETH: '0xd7818272B9e248357d13057AAb0B417aF31E817d',
+    AERO: '0x4EC5970fC728C5f65ba413992CD5fF6FD70fcfF0',
+    WELL: '0xc15d9944dAefE2dB03e53bef8DDA25a56832C5fe',
+  },
+  42161: {
+    ETH: '0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612',
+    BTC: '0x6ce185860a4963106506C203335A2910413708e9',
+    USDC: '0x50834F3163758fcC1Df9973b6e91f0F0F0434aD3',
+    USDT: '0x3f3f5dF88dC9F13eac63DF89EC16ef6e7E25DdE7',
+    DAI: '0xc5C8E77B397E531B8EC06BFb0048328B30E9eCfB',
+  },
+};
+
+// Registry symbols that track a feed asset one-to-one
+const FEED_ASSET_ALIASES: Record<string, string> = {
+  ETH: 'ETH',
+  WETH: 'ETH',
+  WBTC: 'BTC',
+  CBBTC: 'BTC',
+  USDC: 'USDC',
+  'USDC.E': 'USDC',
+  USDBC: 'USDC',
+  USDT: 'USDT',
+  DAI: 'DAI',
+  POL: 'MATIC',
+  WMATIC: 'MATIC',
+  CBETH: 'CBETH',
+  AERO: 'AERO',
+  WELL: 'WELL',
+};
+
+// Maximum answer age before a feed is reported stale. Stablecoin and long-tail feeds
+// only update on a daily heartbeat; majors update at least hourly.
+const DEFAULT_MAX_AGE_SECONDS = 26 * 60 * 60;
+const MAX_AGE_SECONDS: Record<string, number> = {
+  ETH: 2 * 60 * 60,
+  BTC: 2 * 60 * 60,
+};
+
+const CACHE_TTL_MS = 30 * 1000;
+
+export interface OraclePrice {
+  asset: string;
+  price: number;
+  updatedAt: number; // Unix seconds of the latest round
+  stale: boolean;
+  feed: string;
+  chainId: number;
+}
+
+export class ChainlinkOracle {
+  private cache = new Map<string, { price: OraclePrice; fetchedAt: number }>();
+  private decimals = new Map<string, number>();
+
+  // Feed asset a token is priced by, if any
+  getFeedAsset(chainId: number, address: string): string | undefined {
+    const token = tokenRegistry.get(chainId, address);
+    return token ? FEED_ASSET_ALIASES[token.symbol.toUpperCase()] : undefined;
+  }
+
+  async getTokenPrice(chainId: number, address: string): Promise<OraclePrice | null> {
+    const asset = this.getFeedAsset(chainId, address);
+    return asset ? this.getAssetPrice(asset, chainId) : null;
+  }
+
+  // Read the feed on the requested chain, falling back to the mainnet feed for the same asset
+  async getAssetPrice(asset: string, chainId: number = MAINNET_CHAIN_ID): Promise<OraclePrice | null> {
+    const candidates = [chainId, MAINNET_CHAIN_ID].filter(
+      (id, index, ids) => ids.indexOf(id) === index && CHAINLINK_FEEDS[id]?.[asset]
+    );
+
+    for (const feedChainId of candidates) {
+      try {
+        return await this.readFeed(feedChainId, asset);
+      } catch (error) {
+        console.warn(`Failed to read Chainlink ${asset}/USD feed on chain ${feedChainId}:`, error);
+      }
+    }
+
+    return null;
+  }
+
+  private async readFeed(chainId: number, asset: string): Promise<OraclePrice> {
+    const feed = CHAINLINK_FEEDS[chainId][asset];
+    const cacheKey = `${chainId}:${asset}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.price;
+    }
+
+    const aggregator = new ethers.Contract(feed, AGGREGATOR_ABI, getProvider(chainId));
+
+    let decimals = this.decimals.get(cacheKey);
+    if (decimals === undefined) {
+      decimals = Number(await aggregator.decimals());
+      this.decimals.set(cacheKey, decimals);
+    }
+
+    const roundData = await aggregator.latestRoundData();
+    if (roundData.answer <= BigInt(0)) {
+      throw new Error(`Invalid answer from ${asset}/USD feed`);
+    }
+
+    const updatedAt = Number(roundData.updatedAt);
+    const age = Math.floor(Date.now() / 1000) - updatedAt;
+    const price: OraclePrice = {
+      asset,
+      price: Number(ethers.formatUnits(roundData.answer, decimals)),
+      updatedAt,
+      stale: age > (MAX_AGE_SECONDS[asset] ?? DEFAULT_MAX_AGE_SECONDS),
+      feed,
+      chainId,
+    };
+
+    if (price.stale) {
+      console.warn(`Chainlink ${asset}/USD feed on chain ${chainId} is stale (${age}s old)`);
+    }
+
+    this.cache.set(cacheKey, { price, fetchedAt: Date.now() });
+    return price;
+  }
+}
+
+// Exposes the oracle through the price provider chain. Stale answers are skipped
+// so the aggregator falls through to the next provider.
+export class ChainlinkPriceProvider implements PriceProvider {
+  readonly id = 'chainlink';
+  private oracle: ChainlinkOracle;
+
+  constructor(oracle: ChainlinkOracle = chainlinkOracle) {
+    this.oracle = oracle;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async getPrices(tokens: PriceRequest[]): Promise<PriceQuotes> {
+    const quotes: PriceQuotes = {};
+
+    await Promise.all(tokens.map(async ({ chainId, address }) => {
+      const oraclePrice = await this.oracle.getTokenPrice(chainId, address);
+      if (oraclePrice && !oraclePrice.stale) {
+        quotes[getTokenKey(chainId, address)] = {
+          price: oraclePrice.price,
+          change24h: 0, // Feeds only expose the latest round
+          source: this.id,
+          timestamp: new Date(oraclePrice.updatedAt * 1000).toISOString(),
+        };
+      }
+    }));
+
+    return quotes;
+  }
+}
+
+// Factory function
+export function createChainlinkOracle(): ChainlinkOracle {
+  return new ChainlinkOracle();
+}
+
+// Export singleton instance
+export const chainlinkOracle = createChainlinkOracle();
@@ -0,0 +1,71 @@
+import { tokenRegistry, getTokenKey } from '@/lib/tokens/registry';
+import { PriceProvider, PriceQuotes, PriceRequest } from './types';
+
+const COINGECKO_API_URL = 'https://api.coingecko.com/api/v3';
+
+// Default back-off when CoinGecko rate limits us without a Retry-After header
+const RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+
+export class CoinGeckoPriceProvider implements PriceProvider {
+  readonly id = 'coingecko';
+  private cooldownUntil = 0;
+
+  isAvailable(): boolean {
+    return Date.now() >= this.cooldownUntil;
+  }
+
+  async getPrices(tokens: PriceRequest[]): Promise<PriceQuotes> {
+    // Map contract addresses to CoinGecko IDs through the token registry
+    const idsByKey = new Map<string, string>();
+    tokens.forEach(({ chainId, address }) => {
+      const coinGeckoId = tokenRegistry.getPriceId(chainId, address, 'coingecko');
+      if (coinGeckoId) {
+        idsByKey.set(getTokenKey(chainId, address), coinGeckoId);
+      }
+    });
+
+    if (idsByKey.size === 0) return {};
+
+    const ids = Array.from(new Set(idsByKey.values()));
+    const url = `${COINGECKO_API_URL}/simple/price?ids=${ids.join(',')}&vs_currencies=usd&include_24hr_change=true`;
+
+    const headers: HeadersInit = {
+      'Accept': 'application/json',
+    };
+
+    // Add API key if available
+    if (process.env.COINGECKO_API_KEY) {
+      headers['x-cg-demo-api-key'] = process.env.COINGECKO_API_KEY;
+    }
+
+    const response = await fetch(url, { headers });
+
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('retry-after'));
+      this.cooldownUntil = Date.now() + (retryAfter > 0 ? retryAfter * 1000 : RATE_LIMIT_COOLDOWN_MS);
+      throw new Error('CoinGecko API rate limited');
+    }
+
+    if (!response.ok) {
+      throw new Error(`CoinGecko API error: ${response.status}`);
+    }
+
+    const priceData = await response.json();
+    const timestamp = new Date().toISOString();
+    const quotes: PriceQuotes = {};
+
+    idsByKey.forEach((coinGeckoId, key) => {
+      const entry = priceData[coinGeckoId];
+      if (entry && typeof entry.usd === 'number') {
+        quotes[key] = {
+          price: entry.usd,
+          change24h: entry.usd_24h_change || 0,
+          source: this.id,
+          timestamp,
+        };
+      }
+    });
+
+    return quotes;
+  }
+}
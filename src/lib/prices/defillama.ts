@@ -0,0 +1,81 @@
+import { tokenRegistry, getTokenKey, NATIVE_TOKEN_ADDRESS } from '@/lib/tokens/registry';
+import { PriceProvider, PriceQuotes, PriceRequest } from './types';
+
+// Any service implementing the DefiLlama coins API (/prices/current/{coins}) can be used
+const DEFILLAMA_API_URL = process.env.DEFILLAMA_API_URL || 'https://coins.llama.fi';
+
+const RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+
+// DefiLlama chain slugs by chain ID
+const CHAIN_SLUGS: Record<number, string> = {
+  1: 'ethereum',
+  10: 'optimism',
+  137: 'polygon',
+  8453: 'base',
+  42161: 'arbitrum',
+};
+
+export class DefiLlamaPriceProvider implements PriceProvider {
+  readonly id = 'defillama';
+  private cooldownUntil = 0;
+
+  isAvailable(): boolean {
+    return Date.now() >= this.cooldownUntil;
+  }
+
+  async getPrices(tokens: PriceRequest[]): Promise<PriceQuotes> {
+    const coinsByKey = new Map<string, string>();
+    tokens.forEach(({ chainId, address }) => {
+      const coin = this.getCoinId(chainId, address);
+      if (coin) {
+        coinsByKey.set(getTokenKey(chainId, address), coin);
+      }
+    });
+
+    if (coinsByKey.size === 0) return {};
+
+    const coins = Array.from(new Set(coinsByKey.values()));
+    const response = await fetch(`${DEFILLAMA_API_URL}/prices/current/${coins.join(',')}`, {
+      headers: { 'Accept': 'application/json' },
+    });
+
+    if (response.status === 429) {
+      this.cooldownUntil = Date.now() + RATE_LIMIT_COOLDOWN_MS;
+      throw new Error('DefiLlama API rate limited');
+    }
+
+    if (!response.ok) {
+      throw new Error(`DefiLlama API error: ${response.status}`);
+    }
+
+    const { coins: priceData = {} } = await response.json();
+    const quotes: PriceQuotes = {};
+
+    coinsByKey.forEach((coin, key) => {
+      const entry = priceData[coin];
+      if (entry && typeof entry.price === 'number') {
+        quotes[key] = {
+          price: entry.price,
+          change24h: 0, // Not part of the current prices endpoint
+          source: this.id,
+          timestamp: entry.timestamp
+            ? new Date(entry.timestamp * 1000).toISOString()
+            : new Date().toISOString(),
+        };
+      }
+    });
+
+    return quotes;
+  }
+
+  private getCoinId(chainId: number, address: string): string | null {
+    // Native assets have no contract, so fall back to the CoinGecko ID namespace
+    if (address.toLowerCase() === NATIVE_TOKEN_ADDRESS) {
+      const coinGeckoId = tokenRegistry.getPriceId(chainId, address, 'coingecko');
+      return coinGeckoId ? `coingecko:${coinGeckoId}` : null;
+    }
+
+    const slug = CHAIN_SLUGS[chainId];
+    return slug ? `${slug}:${address.toLowerCase()}` : null;
+  }
+}
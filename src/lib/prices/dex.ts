@@ -0,0 +1,300 @@
+import { ethers } from 'ethers';
+import { getProvider } from '@/lib/blockchain/providers';
+import { tokenRegistry, getTokenKey, NATIVE_TOKEN_ADDRESS, RegisteredToken } from '@/lib/tokens/registry';
+import { chainlinkOracle } from './chainlink';
+import { PriceProvider, PriceQuote, PriceQuotes, PriceRequest } from './types';
+import { UNISWAP_V3_DEPLOYMENTS } from '@/lib/defi/uniswapV3Deployments';
+
+const BASE_CHAIN_ID = 8453;
+
+const AERODROME_FACTORY = '0x420DD381b31aEf6683db6B902084cB0FFECe40Da';
+
+const UNISWAP_V3_FEE_TIERS = [100, 500, 3000, 10000];
+
+// Quote assets every long-tail token is paired against
+const QUOTE_SYMBOLS = ['WETH', 'USDC'];
+
+// TWAP window for Uniswap V3 observations
+const TWAP_WINDOW_SECONDS = 30 * 60;
+
+// Aerodrome pools record an observation every 30 minutes; average the last four
+const AERODROME_TWAP_GRANULARITY = 4;
+
+// Pools with less quote-side depth than this are ignored entirely
+const MIN_LIQUIDITY_USD = Number(process.env.DEX_MIN_LIQUIDITY_USD) || 50000;
+
+// Prices from pools shallower than this multiple of the minimum are flagged low confidence
+const HIGH_CONFIDENCE_LIQUIDITY_MULTIPLE = 5;
+
+// Spot prices further than this from the TWAP suggest manipulation or a fast move
+const MAX_SPOT_TWAP_DIVERGENCE = 0.05;
+
+const CACHE_TTL_MS = 60 * 1000;
+
+const UNISWAP_V3_FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)',
+];
+
+const UNISWAP_V3_POOL_ABI = [
+  'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function observe(uint32[] secondsAgos) external view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+  'function token0() external view returns (address)',
+];
+
+const AERODROME_FACTORY_ABI = [
+  'function getPool(address tokenA, address tokenB, bool stable) external view returns (address pool)',
+];
+
+const AERODROME_POOL_ABI = [
+  'function quote(address tokenIn, uint256 amountIn, uint256 granularity) external view returns (uint256 amountOut)',
+  'function getAmountOut(uint256 amountIn, address tokenIn) external view returns (uint256)',
+];
+
+const ERC20_ABI = [
+  'function balanceOf(address) external view returns (uint256)',
+  'function decimals() external view returns (uint8)',
+];
+
+export interface DexPrice {
+  price: number; // USD
+  pool: string;
+  dex: 'uniswap-v3' | 'aerodrome';
+  liquidityUsd: number; // Quote-side depth of the pool
+  twap: boolean; // False when the pool had no usable observation history
+  confidence: 'high' | 'low';
+}
+
+interface PoolCandidate {
+  address: string;
+  dex: DexPrice['dex'];
+  quote: RegisteredToken;
+  quoteUsd: number;
+  liquidityUsd: number;
+  fee?: number;
+  stable?: boolean;
+}
+
+export class DexPricingEngine {
+  private cache = new Map<string, { price: DexPrice | null; fetchedAt: number }>();
+  private decimals = new Map<string, number>();
+
+  async getTokenPrice(chainId: number, address: string): Promise<DexPrice | null> {
+    if (address.toLowerCase() === NATIVE_TOKEN_ADDRESS) return null;
+
+    const cacheKey = getTokenKey(chainId, address);
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.price;
+    }
+
+    let price: DexPrice | null = null;
+    try {
+      price = await this.priceFromDeepestPool(chainId, address);
+    } catch (error) {
+      console.warn(`DEX pricing failed for ${cacheKey}:`, error);
+    }
+
+    this.cache.set(cacheKey, { price, fetchedAt: Date.now() });
+    return price;
+  }
+
+  private async priceFromDeepestPool(chainId: number, address: string): Promise<DexPrice | null> {
+    const provider = getProvider(chainId);
+    const quotes = QUOTE_SYMBOLS
+      .map(symbol => tokenRegistry.getBySymbol(chainId, symbol))
+      .filter((quote): quote is RegisteredToken => !!quote && quote.address.toLowerCase() !== address.toLowerCase());
+
+    const candidates: PoolCandidate[] = [];
+
+    for (const quote of quotes) {
+      const quoteUsd = (await chainlinkOracle.getTokenPrice(chainId, quote.address))?.price;
+      if (!quoteUsd) continue;
+
+      const quoteToken = new ethers.Contract(quote.address, ERC20_ABI, provider);
+      const depthUsd = async (pool: string) =>
+        Number(ethers.formatUnits(await quoteToken.balanceOf(pool), quote.decimals)) * quoteUsd;
+
+      const uniswapV3 = UNISWAP_V3_DEPLOYMENTS[chainId];
+      if (uniswapV3) {
+        const factory = new ethers.Contract(uniswapV3.factory, UNISWAP_V3_FACTORY_ABI, provider);
+        const pools = await Promise.all(
+          UNISWAP_V3_FEE_TIERS.map(fee => factory.getPool(address, quote.address, fee))
+        );
+        await Promise.all(pools.map(async (pool: string, index) => {
+          if (pool === ethers.ZeroAddress) return;
+          candidates.push({
+            address: pool,
+            dex: 'uniswap-v3',
+            quote,
+            quoteUsd,
+            liquidityUsd: await depthUsd(pool),
+            fee: UNISWAP_V3_FEE_TIERS[index],
+          });
+        }));
+      }
+
+      if (chainId === BASE_CHAIN_ID) {
+        const factory = new ethers.Contract(AERODROME_FACTORY, AERODROME_FACTORY_ABI, provider);
+        const pools = await Promise.all([false, true].map(stable => factory.getPool(address, quote.address, stable)));
+        await Promise.all(pools.map(async (pool: string, index) => {
+          if (pool === ethers.ZeroAddress) return;
+          candidates.push({
+            address: pool,
+            dex: 'aerodrome',
+            quote,
+            quoteUsd,
+            liquidityUsd: await depthUsd(pool),
+            stable: index === 1,
+          });
+        }));
+      }
+    }
+
+    const deepest = candidates.sort((a, b) => b.liquidityUsd - a.liquidityUsd)[0];
+    if (!deepest || deepest.liquidityUsd < MIN_LIQUIDITY_USD) {
+      return null;
+    }
+
+    const tokenDecimals = await this.getDecimals(chainId, address);
+    const { twapPrice, spotPrice } = deepest.dex === 'uniswap-v3'
+      ? await this.getUniswapV3Prices(chainId, deepest, address, tokenDecimals)
+      : await this.getAerodromePrices(chainId, deepest, address, tokenDecimals);
+
+    const priceInQuote = twapPrice ?? spotPrice;
+    if (!priceInQuote || !Number.isFinite(priceInQuote)) return null;
+
+    const divergence = twapPrice && spotPrice ? Math.abs(spotPrice - twapPrice) / twapPrice : 0;
+    const lowConfidence =
+      twapPrice === null ||
+      divergence > MAX_SPOT_TWAP_DIVERGENCE ||
+      deepest.liquidityUsd < MIN_LIQUIDITY_USD * HIGH_CONFIDENCE_LIQUIDITY_MULTIPLE;
+
+    return {
+      price: priceInQuote * deepest.quoteUsd,
+      pool: deepest.address,
+      dex: deepest.dex,
+      liquidityUsd: deepest.liquidityUsd,
+      twap: twapPrice !== null,
+      confidence: lowConfidence ? 'low' : 'high',
+    };
+  }
+
+  // Price of the token in quote units from the tick TWAP, plus spot for the sanity check
+  private async getUniswapV3Prices(
+    chainId: number,
+    pool: PoolCandidate,
+    address: string,
+    tokenDecimals: number
+  ): Promise<{ twapPrice: number | null; spotPrice: number | null }> {
+    const contract = new ethers.Contract(pool.address, UNISWAP_V3_POOL_ABI, getProvider(chainId));
+    const [token0, slot0] = await Promise.all([contract.token0(), contract.slot0()]);
+    const isToken0 = token0.toLowerCase() === address.toLowerCase();
+
+    const tickToPrice = (tick: number) => {
+      // 1.0001^tick is token1 per token0 in raw units
+      const [decimals0, decimals1] = isToken0
+        ? [tokenDecimals, pool.quote.decimals]
+        : [pool.quote.decimals, tokenDecimals];
+      const price0In1 = Math.pow(1.0001, tick) * Math.pow(10, decimals0 - decimals1);
+      return isToken0 ? price0In1 : 1 / price0In1;
+    };
+
+    let twapPrice: number | null = null;
+    try {
+      const { tickCumulatives } = await contract.observe([TWAP_WINDOW_SECONDS, 0]);
+      const delta = BigInt(tickCumulatives[1]) - BigInt(tickCumulatives[0]);
+      const window = BigInt(TWAP_WINDOW_SECONDS);
+      // Round towards negative infinity like the Uniswap OracleLibrary
+      let averageTick = delta / window;
+      if (delta < BigInt(0) && delta % window !== BigInt(0)) averageTick -= BigInt(1);
+      twapPrice = tickToPrice(Number(averageTick));
+    } catch (error) {
+      console.warn(`No TWAP history for Uniswap V3 pool ${pool.address}:`, error);
+    }
+
+    return { twapPrice, spotPrice: tickToPrice(Number(slot0.tick)) };
+  }
+
+  private async getAerodromePrices(
+    chainId: number,
+    pool: PoolCandidate,
+    address: string,
+    tokenDecimals: number
+  ): Promise<{ twapPrice: number | null; spotPrice: number | null }> {
+    const contract = new ethers.Contract(pool.address, AERODROME_POOL_ABI, getProvider(chainId));
+    const oneToken = ethers.parseUnits('1', tokenDecimals);
+    const toQuoteUnits = (amount: bigint) => Number(ethers.formatUnits(amount, pool.quote.decimals));
+
+    let twapPrice: number | null = null;
+    try {
+      twapPrice = toQuoteUnits(await contract.quote(address, oneToken, AERODROME_TWAP_GRANULARITY));
+    } catch (error) {
+      console.warn(`No TWAP history for Aerodrome pool ${pool.address}:`, error);
+    }
+
+    let spotPrice: number | null = null;
+    try {
+      spotPrice = toQuoteUnits(await contract.getAmountOut(oneToken, address));
+    } catch (error) {
+      console.warn(`Failed to read spot price for Aerodrome pool ${pool.address}:`, error);
+    }
+
+    return { twapPrice, spotPrice };
+  }
+
+  private async getDecimals(chainId: number, address: string): Promise<number> {
+    const registered = tokenRegistry.get(chainId, address);
+    if (registered) return registered.decimals;
+
+    const key = getTokenKey(chainId, address);
+    let decimals = this.decimals.get(key);
+    if (decimals === undefined) {
+      const token = new ethers.Contract(address, ERC20_ABI, getProvider(chainId));
+      decimals = Number(await token.decimals());
+      this.decimals.set(key, decimals);
+    }
+    return decimals;
+  }
+}
+
+// Prices long-tail tokens that no API knows about from their deepest DEX pool
+export class DexPriceProvider implements PriceProvider {
+  readonly id = 'dex';
+  private engine: DexPricingEngine;
+
+  constructor(engine: DexPricingEngine = dexPricingEngine) {
+    this.engine = engine;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async getPrices(tokens: PriceRequest[]): Promise<PriceQuotes> {
+    const quotes: PriceQuotes = {};
+
+    await Promise.all(tokens.map(async ({ chainId, address }) => {
+      const dexPrice = await this.engine.getTokenPrice(chainId, address);
+      if (dexPrice) {
+        const quote: PriceQuote = {
+          price: dexPrice.price,
+          change24h: 0,
+          source: `${this.id}:${dexPrice.dex}`,
+          timestamp: new Date().toISOString(),
+          confidence: dexPrice.confidence,
+        };
+        quotes[getTokenKey(chainId, address)] = quote;
+      }
+    }));
+
+    return quotes;
+  }
+}
+
+// Factory function
+export function createDexPricingEngine(): DexPricingEngine {
+  return new DexPricingEngine();
+}
+
+// Export singleton instance
+export const dexPricingEngine = createDexPricingEngine();
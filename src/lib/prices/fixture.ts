@@ -0,0 +1,40 @@
+import { tokenRegistry, getTokenKey } from '@/lib/tokens/registry';
+import { PriceProvider, PriceQuotes, PriceRequest } from './types';
+import fixturePrices from './fixtures/prices.json';
+
+// Same shape as CoinGecko's /simple/price response, keyed by CoinGecko ID
+type FixturePrices = Record<string, { usd: number; usd_24h_change?: number }>;
+
+// Serves static prices for offline development and tests
+export class FixturePriceProvider implements PriceProvider {
+  readonly id = 'fixture';
+  private prices: FixturePrices;
+
+  constructor(prices: FixturePrices = fixturePrices) {
+    this.prices = prices;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async getPrices(tokens: PriceRequest[]): Promise<PriceQuotes> {
+    const timestamp = new Date().toISOString();
+    const quotes: PriceQuotes = {};
+
+    tokens.forEach(({ chainId, address }) => {
+      const coinGeckoId = tokenRegistry.getPriceId(chainId, address, 'coingecko');
+      const entry = coinGeckoId ? this.prices[coinGeckoId] : undefined;
+      if (entry) {
+        quotes[getTokenKey(chainId, address)] = {
+          price: entry.usd,
+          change24h: entry.usd_24h_change || 0,
+          source: this.id,
+          timestamp,
+        };
+      }
+    });
+
+    return quotes;
+  }
+}
@@ -0,0 +1,163 @@
+import { DeFiPosition, LendingAccount, NftHolding, ReportingCurrency, TokenBalance } from '@/types';
+import { REPORTING_CURRENCIES } from '@/lib/utils';
+import fixtureRates from './fixtures/fx.json';
+
+const COINGECKO_API_URL = 'https://api.coingecko.com/api/v3';
+
+// How long fetched rates are reused before asking upstream again
+const FX_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Units of each currency per 1 USD
+export type FxRates = Record<ReportingCurrency, number>;
+
+export interface FxSnapshot {
+  base: 'USD';
+  rates: FxRates;
+  source: string;
+  timestamp: string;
+  stale?: boolean; // Upstream failed; these are the last rates fetched, past their TTL
+}
+
+export class FxService {
+  private source: string;
+  private cache: FxSnapshot | null = null;
+  private fetchedAt = 0;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  async getRates(): Promise<FxSnapshot> {
+    if (this.source === 'fixture') {
+      return this.fixtureSnapshot();
+    }
+
+    if (this.cache && Date.now() - this.fetchedAt < FX_CACHE_TTL_MS) {
+      return this.cache;
+    }
+
+    try {
+      this.cache = await this.fetchCoinGeckoRates();
+      this.fetchedAt = Date.now();
+      return this.cache;
+    } catch (error) {
+      // Keep reporting with the last rates fetched, flagged as stale. Without any,
+      // fail rather than value portfolios at the fixture's frozen rates.
+      if (!this.cache) throw error;
+      console.warn('Failed to fetch FX rates, serving stale rates:', error);
+      return { ...this.cache, stale: true };
+    }
+  }
+
+  async getRate(currency: ReportingCurrency): Promise<number> {
+    // Values are already in USD, so USD never depends on the FX source being up
+    if (currency === 'USD') return 1;
+    const { rates } = await this.getRates();
+    return rates[currency];
+  }
+
+  // CoinGecko quotes every rate against BTC, so divide through by the USD rate
+  private async fetchCoinGeckoRates(): Promise<FxSnapshot> {
+    const headers: HeadersInit = {
+      'Accept': 'application/json',
+    };
+
+    // Add API key if available
+    if (process.env.COINGECKO_API_KEY) {
+      headers['x-cg-demo-api-key'] = process.env.COINGECKO_API_KEY;
+    }
+
+    const response = await fetch(`${COINGECKO_API_URL}/exchange_rates`, { headers });
+    if (!response.ok) {
+      throw new Error(`CoinGecko API error: ${response.status}`);
+    }
+
+    const { rates } = await response.json();
+    const usdPerBtc = rates?.usd?.value;
+    if (typeof usdPerBtc !== 'number' || usdPerBtc <= 0) {
+      throw new Error('CoinGecko exchange rates missing USD');
+    }
+
+    const fxRates = {} as FxRates;
+    REPORTING_CURRENCIES.forEach(currency => {
+      const value = rates[currency.toLowerCase()]?.value;
+      if (typeof value !== 'number') {
+        throw new Error(`CoinGecko exchange rates missing ${currency}`);
+      }
+      fxRates[currency] = value / usdPerBtc;
+    });
+
+    return { base: 'USD', rates: fxRates, source: 'coingecko', timestamp: new Date().toISOString() };
+  }
+
+  private fixtureSnapshot(): FxSnapshot {
+    return { base: 'USD', rates: fixtureRates, source: 'fixture', timestamp: new Date().toISOString() };
+  }
+}
+
+export function convertTokenBalance(token: TokenBalance, rate: number): TokenBalance {
+  return { ...token, price: token.price * rate, value: token.value * rate };
+}
+
+export function convertNftHolding(holding: NftHolding, rate: number): NftHolding {
+  return {
+    ...holding,
+    floorPrice: holding.floorPrice !== undefined ? holding.floorPrice * rate : undefined,
+    value: holding.value * rate,
+  };
+}
+
+// Walk position metadata converting every nested token balance (anything with a
+// numeric price and value), so new metadata shapes are covered automatically
+function convertNested<T>(node: T, rate: number): T {
+  if (Array.isArray(node)) {
+    return node.map(item => convertNested(item, rate)) as T;
+  }
+  if (node && typeof node === 'object') {
+    const record = node as Record<string, unknown>;
+    const converted: Record<string, unknown> = {};
+    Object.entries(record).forEach(([key, value]) => {
+      converted[key] = convertNested(value, rate);
+    });
+    if (typeof record.price === 'number' && typeof record.value === 'number') {
+      converted.price = record.price * rate;
+      converted.value = record.value * rate;
+    }
+    return converted as T;
+  }
+  return node;
+}
+
+// Convert a USD-denominated position into the reporting currency
+export function convertDeFiPosition(position: DeFiPosition, rate: number): DeFiPosition {
+  return {
+    ...position,
+    tokens: position.tokens.map(token => convertTokenBalance(token, rate)),
+    value: position.value * rate,
+    claimable: position.claimable !== undefined ? position.claimable * rate : undefined,
+    metadata: position.metadata ? convertNested(position.metadata, rate) : undefined,
+  };
+}
+
+// Health factor and capacity are ratios; only the values and prices change
+export function convertLendingAccount(account: LendingAccount, rate: number): LendingAccount {
+  return {
+    ...account,
+    totalCollateral: account.totalCollateral * rate,
+    totalBorrowed: account.totalBorrowed * rate,
+    borrowLimit: account.borrowLimit * rate,
+    collateral: account.collateral.map(collateral => ({
+      ...collateral,
+      asset: convertTokenBalance(collateral.asset, rate),
+      liquidationPrice: collateral.liquidationPrice !== null ? collateral.liquidationPrice * rate : null,
+    })),
+  };
+}
+
+// Factory function. FX_SOURCE=fixture serves static rates offline.
+export function createFxService(source: string = process.env.FX_SOURCE || 'coingecko'): FxService {
+  return new FxService(source);
+}
+
+// Export singleton instance
+export const fxService = createFxService();
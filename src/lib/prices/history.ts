@@ -0,0 +1,340 @@
+import { CandleInterval, PriceCandle } from '@/types';
+import { getPrisma, isDatabaseConfigured } from '@/lib/db';
+import fixtureCandles from './fixtures/candles.json';
+import fixturePrices from './fixtures/prices.json';
+
+const COINGECKO_API_URL = 'https://api.coingecko.com/api/v3';
+
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1h': 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+// CoinGecko only returns hourly points for ranges up to 90 days
+const COINGECKO_HOURLY_CHUNK_MS = 90 * INTERVAL_MS['1d'];
+
+export function alignToInterval(time: number, interval: CandleInterval): number {
+  return Math.floor(time / INTERVAL_MS[interval]) * INTERVAL_MS[interval];
+}
+
+// Build OHLC candles from [timestampMs, price] points
+export function bucketPricePoints(points: Array<[number, number]>, interval: CandleInterval): PriceCandle[] {
+  const buckets = new Map<number, PriceCandle>();
+
+  [...points].sort((a, b) => a[0] - b[0]).forEach(([time, price]) => {
+    const bucket = alignToInterval(time, interval);
+    const candle = buckets.get(bucket);
+    if (!candle) {
+      buckets.set(bucket, {
+        timestamp: new Date(bucket).toISOString(),
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+      });
+    } else {
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+    }
+  });
+
+  return Array.from(buckets.values());
+}
+
+// Upstream source of candles, queried only for ranges missing from the cache
+export interface HistoryProvider {
+  readonly id: string;
+  getCandles(coinId: string, interval: CandleInterval, from: Date, to: Date): Promise<PriceCandle[]>;
+}
+
+export class CoinGeckoHistoryProvider implements HistoryProvider {
+  readonly id = 'coingecko';
+
+  async getCandles(coinId: string, interval: CandleInterval, from: Date, to: Date): Promise<PriceCandle[]> {
+    const chunkMs = interval === '1h' ? COINGECKO_HOURLY_CHUNK_MS : to.getTime() - from.getTime();
+    const points: Array<[number, number]> = [];
+
+    for (let start = from.getTime(); start < to.getTime(); start += chunkMs) {
+      const end = Math.min(start + chunkMs, to.getTime());
+      points.push(...await this.fetchRange(coinId, start, end));
+    }
+
+    return bucketPricePoints(points, interval);
+  }
+
+  private async fetchRange(coinId: string, start: number, end: number): Promise<Array<[number, number]>> {
+    const url = `${COINGECKO_API_URL}/coins/${coinId}/market_chart/range?vs_currency=usd&from=${Math.floor(start / 1000)}&to=${Math.floor(end / 1000)}`;
+
+    const headers: HeadersInit = {
+      'Accept': 'application/json',
+    };
+
+    // Add API key if available
+    if (process.env.COINGECKO_API_KEY) {
+      headers['x-cg-demo-api-key'] = process.env.COINGECKO_API_KEY;
+    }
+
+    const response = await fetch(url, { headers });
+    if (!response.ok) {
+      throw new Error(`CoinGecko API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return Array.isArray(data.prices) ? data.prices : [];
+  }
+}
+
+interface FixtureCandleData {
+  aliases: Record<string, string>;
+  coins: Record<string, number[][]>;
+}
+
+// Serves the seeded dataset in fixtures/candles.json so history works fully offline.
+// Rows are relative: the last one is the most recent complete UTC day.
+export class FixtureHistoryProvider implements HistoryProvider {
+  readonly id = 'fixture';
+  private data: FixtureCandleData;
+  private spotPrices: Record<string, { usd: number }>;
+
+  constructor(
+    data: FixtureCandleData = fixtureCandles,
+    spotPrices: Record<string, { usd: number }> = fixturePrices
+  ) {
+    this.data = data;
+    this.spotPrices = spotPrices;
+  }
+
+  async getCandles(coinId: string, interval: CandleInterval, from: Date, to: Date): Promise<PriceCandle[]> {
+    const dayMs = INTERVAL_MS['1d'];
+    const lastDay = alignToInterval(Date.now(), '1d') - dayMs;
+    const rows = this.data.coins[this.data.aliases[coinId] ?? coinId];
+
+    let daily: Array<{ time: number; open: number; high: number; low: number; close: number }>;
+    if (rows) {
+      daily = rows.map(([open, high, low, close], index) => ({
+        time: lastDay - (rows.length - 1 - index) * dayMs,
+        open,
+        high,
+        low,
+        close,
+      }));
+    } else if (this.spotPrices[coinId]) {
+      // No seeded series: hold the fixture spot price flat across the range
+      const price = this.spotPrices[coinId].usd;
+      daily = [];
+      for (let time = alignToInterval(from.getTime(), '1d'); time <= lastDay && time < to.getTime(); time += dayMs) {
+        daily.push({ time, open: price, high: price, low: price, close: price });
+      }
+    } else {
+      return [];
+    }
+
+    const candles: Array<PriceCandle & { time: number }> = [];
+    daily.forEach(day => {
+      if (interval === '1d') {
+        candles.push({ ...day, timestamp: new Date(day.time).toISOString() });
+        return;
+      }
+
+      // Hourly candles walk linearly from the day's open to its close
+      for (let hour = 0; hour < 24; hour++) {
+        const open = day.open + ((day.close - day.open) * hour) / 24;
+        const close = day.open + ((day.close - day.open) * (hour + 1)) / 24;
+        const time = day.time + hour * INTERVAL_MS['1h'];
+        candles.push({
+          time,
+          timestamp: new Date(time).toISOString(),
+          open,
+          high: Math.max(open, close),
+          low: Math.min(open, close),
+          close,
+        });
+      }
+    });
+
+    return candles
+      .filter(candle => candle.time >= from.getTime() && candle.time < to.getTime())
+      .map(({ timestamp, open, high, low, close }) => ({ timestamp, open, high, low, close }));
+  }
+}
+
+export interface CoverageRange {
+  start: number;
+  end: number;
+}
+
+// Persistence for candles plus the ranges that have already been backfilled
+export interface CandleStore {
+  getCandles(coinId: string, interval: CandleInterval, start: number, end: number): Promise<PriceCandle[]>;
+  saveCandles(coinId: string, interval: CandleInterval, candles: PriceCandle[], source: string): Promise<void>;
+  getCoverage(coinId: string, interval: CandleInterval): Promise<CoverageRange[]>;
+  addCoverage(coinId: string, interval: CandleInterval, range: CoverageRange): Promise<void>;
+}
+
+export class PrismaCandleStore implements CandleStore {
+  async getCandles(coinId: string, interval: CandleInterval, start: number, end: number): Promise<PriceCandle[]> {
+    const rows = await getPrisma().priceCandle.findMany({
+      where: { coinId, interval, timestamp: { gte: new Date(start), lt: new Date(end) } },
+      orderBy: { timestamp: 'asc' },
+    });
+
+    return rows.map(row => ({
+      timestamp: row.timestamp.toISOString(),
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+    }));
+  }
+
+  async saveCandles(coinId: string, interval: CandleInterval, candles: PriceCandle[], source: string): Promise<void> {
+    if (candles.length === 0) return;
+
+    await getPrisma().priceCandle.createMany({
+      data: candles.map(candle => ({
+        coinId,
+        interval,
+        timestamp: new Date(candle.timestamp),
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        source,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  async getCoverage(coinId: string, interval: CandleInterval): Promise<CoverageRange[]> {
+    const rows = await getPrisma().priceHistoryCoverage.findMany({ where: { coinId, interval } });
+    return rows.map(row => ({ start: row.start.getTime(), end: row.end.getTime() }));
+  }
+
+  async addCoverage(coinId: string, interval: CandleInterval, range: CoverageRange): Promise<void> {
+    await getPrisma().priceHistoryCoverage.create({
+      data: { coinId, interval, start: new Date(range.start), end: new Date(range.end) },
+    });
+  }
+}
+
+// Process-local cache used when no DATABASE_URL is configured
+export class MemoryCandleStore implements CandleStore {
+  private candles = new Map<string, Map<number, PriceCandle>>();
+  private coverage = new Map<string, CoverageRange[]>();
+
+  async getCandles(coinId: string, interval: CandleInterval, start: number, end: number): Promise<PriceCandle[]> {
+    const series = this.candles.get(`${coinId}:${interval}`);
+    if (!series) return [];
+
+    return Array.from(series.entries())
+      .filter(([time]) => time >= start && time < end)
+      .sort((a, b) => a[0] - b[0])
+      .map(([, candle]) => candle);
+  }
+
+  async saveCandles(coinId: string, interval: CandleInterval, candles: PriceCandle[]): Promise<void> {
+    const key = `${coinId}:${interval}`;
+    const series = this.candles.get(key) ?? new Map<number, PriceCandle>();
+    candles.forEach(candle => series.set(new Date(candle.timestamp).getTime(), candle));
+    this.candles.set(key, series);
+  }
+
+  async getCoverage(coinId: string, interval: CandleInterval): Promise<CoverageRange[]> {
+    return this.coverage.get(`${coinId}:${interval}`) ?? [];
+  }
+
+  async addCoverage(coinId: string, interval: CandleInterval, range: CoverageRange): Promise<void> {
+    const key = `${coinId}:${interval}`;
+    this.coverage.set(key, [...(this.coverage.get(key) ?? []), range]);
+  }
+}
+
+// Parts of [start, end) not covered by any of the given ranges
+export function findCoverageGaps(start: number, end: number, coverage: CoverageRange[]): CoverageRange[] {
+  const gaps: CoverageRange[] = [];
+  let cursor = start;
+
+  [...coverage].sort((a, b) => a.start - b.start).forEach(range => {
+    if (range.end <= cursor || range.start >= end) return;
+    if (range.start > cursor) {
+      gaps.push({ start: cursor, end: range.start });
+    }
+    cursor = Math.max(cursor, range.end);
+  });
+
+  if (cursor < end) {
+    gaps.push({ start: cursor, end });
+  }
+  return gaps;
+}
+
+export interface PriceHistoryResult {
+  candles: PriceCandle[];
+  backfilled: number; // Candles fetched from upstream by this request
+}
+
+export class PriceHistoryService {
+  private store: CandleStore;
+  private upstream: HistoryProvider;
+
+  constructor(store: CandleStore, upstream: HistoryProvider) {
+    this.store = store;
+    this.upstream = upstream;
+  }
+
+  getSourceId(): string {
+    return this.upstream.id;
+  }
+
+  // Serve candles from the cache, backfilling only the ranges it has never fetched.
+  // The in-progress candle is never cached, so ranges end at the last complete one.
+  async getCandles(coinId: string, interval: CandleInterval, from: Date, to: Date): Promise<PriceHistoryResult> {
+    const start = alignToInterval(from.getTime(), interval);
+    const end = Math.min(
+      alignToInterval(to.getTime(), interval) + INTERVAL_MS[interval],
+      alignToInterval(Date.now(), interval)
+    );
+
+    if (end <= start) {
+      return { candles: [], backfilled: 0 };
+    }
+
+    const coverage = await this.store.getCoverage(coinId, interval);
+    let backfilled = 0;
+
+    for (const gap of findCoverageGaps(start, end, coverage)) {
+      try {
+        const candles = (await this.upstream.getCandles(coinId, interval, new Date(gap.start), new Date(gap.end)))
+          .filter(candle => {
+            const time = new Date(candle.timestamp).getTime();
+            return time >= gap.start && time < gap.end;
+          });
+
+        await this.store.saveCandles(coinId, interval, candles, this.upstream.id);
+        await this.store.addCoverage(coinId, interval, gap);
+        backfilled += candles.length;
+      } catch (error) {
+        // Serve whatever is already cached; the gap is retried on the next request
+        console.warn(`Failed to backfill ${coinId} ${interval} history:`, error);
+      }
+    }
+
+    return {
+      candles: await this.store.getCandles(coinId, interval, start, end),
+      backfilled,
+    };
+  }
+}
+
+// Factory function. PRICE_HISTORY_SOURCE=fixture serves the seeded dataset offline.
+export function createPriceHistoryService(
+  source: string = process.env.PRICE_HISTORY_SOURCE || 'coingecko'
+): PriceHistoryService {
+  const store = isDatabaseConfigured() ? new PrismaCandleStore() : new MemoryCandleStore();
+  const upstream = source === 'fixture' ? new FixtureHistoryProvider() : new CoinGeckoHistoryProvider();
+  return new PriceHistoryService(store, upstream);
+}
+
+// Export singleton instance
+export const priceHistoryService = createPriceHistoryService();
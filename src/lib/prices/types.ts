@@ -0,0 +1,25 @@
+// Shared types for the price provider layer
+
+export interface PriceRequest {
+  chainId: number;
+  address: string;
+}
+
+export interface PriceQuote {
+  price: number;
+  change24h: number;
+  source: string;
+  timestamp: string;
+  // Set by sources that can be thin or manipulable, such as DEX pools
+  confidence?: 'high' | 'low';
+}
+
+// Quotes are keyed by getTokenKey(chainId, address)
+export type PriceQuotes = Record<string, PriceQuote>;
+
+export interface PriceProvider {
+  readonly id: string;
+  // False while the provider is cooling down after a rate limit or is not configured
+  isAvailable(): boolean;
+  getPrices(tokens: PriceRequest[]): Promise<PriceQuotes>;
+}
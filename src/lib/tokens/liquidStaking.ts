@@ -0,0 +1,79 @@
+import { getTokenKey } from './registry';
+
+export type RateSource = 'stETH' | 'wstETH' | 'rETH' | 'cbETH';
+
+export interface LiquidStakingToken {
+  symbol: string;
+  name: string;
+  protocol: 'lido' | 'rocket-pool' | 'coinbase';
+  rateSource: RateSource;
+  // Mainnet token plus its canonical bridged versions
+  addresses: Record<number, string>;
+}
+
+export const LIQUID_STAKING_TOKENS: LiquidStakingToken[] = [
+  {
+    symbol: 'stETH',
+    name: 'Liquid staked Ether 2.0',
+    protocol: 'lido',
+    rateSource: 'stETH',
+    addresses: {
+      1: '0xae7ab96520de3a18e5e111b5eaab095312d7fe84',
+    },
+  },
+  {
+    symbol: 'wstETH',
+    name: 'Wrapped liquid staked Ether 2.0',
+    protocol: 'lido',
+    rateSource: 'wstETH',
+    addresses: {
+      1: '0x7f39c581f595b53c5cb19bd0b3f8da6c935e2ca0',
+      10: '0x1f32b1c2345538c0c6f582fcb022739c4a194ebb',
+      137: '0x03b54a6e9a984069379fae1a4fc4dbae93b3bccd',
+      8453: '0xc1cba3fcea344f92d9239c08c0568f6f2f0ee452',
+      42161: '0x5979d7b546e38e414f7e9822514be443a4800529',
+    },
+  },
+  {
+    symbol: 'rETH',
+    name: 'Rocket Pool ETH',
+    protocol: 'rocket-pool',
+    rateSource: 'rETH',
+    addresses: {
+      1: '0xae78736cd615f374d3085123a210448e74fc6393',
+      10: '0x9bcef72be871e61ed4fbbc7630889bee758eb81d',
+      137: '0x0266f4f08d82372cf0fcbccc0ff74309089c74d1',
+      8453: '0xb6fe221fe9eef5aba221c348ba20a1bf5e73624c',
+      42161: '0xec70dcb4a1efa46b8f2d97c310c9c4790ba5ffa8',
+    },
+  },
+  {
+    symbol: 'cbETH',
+    name: 'Coinbase Wrapped Staked ETH',
+    protocol: 'coinbase',
+    rateSource: 'cbETH',
+    addresses: {
+      1: '0xbe9895146f7af43049ca1c1ae358b0541ea49704',
+      10: '0xaddb6a0412de1ba0f936dcaeb8aaa24578dcf3b2',
+      8453: '0x2ae3f1ec7f1f5012cfeab0185bfc7aa3cf0dec22',
+      42161: '0x1debd73e752beaf79865fd6446b0c970eae7732f',
+    },
+  },
+];
+
+export const LIQUID_STAKING_CHAIN_IDS = [...new Set(
+  LIQUID_STAKING_TOKENS.flatMap(token => Object.keys(token.addresses).map(Number))
+)];
+
+const LIQUID_STAKING_BY_KEY = new Map(LIQUID_STAKING_TOKENS.flatMap(token =>
+  Object.entries(token.addresses).map(([chainId, address]) => [getTokenKey(Number(chainId), address), token] as const)
+));
+
+// Held liquid staking tokens are reported as staking positions rather than token balances
+export function getLiquidStakingToken(chainId: number, address: string): LiquidStakingToken | undefined {
+  return LIQUID_STAKING_BY_KEY.get(getTokenKey(chainId, address));
+}
+
+export function isLiquidStakingToken(chainId: number, address: string): boolean {
+  return LIQUID_STAKING_BY_KEY.has(getTokenKey(chainId, address));
+}
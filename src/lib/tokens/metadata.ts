@@ -0,0 +1,126 @@
+import { ethers } from 'ethers';
+import { multicall } from '@/lib/blockchain/multicall';
+import { tokenRegistry, getTokenKey } from './registry';
+
+export interface TokenMetadata {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logo?: string;
+}
+
+const ERC20_METADATA_INTERFACE = new ethers.Interface([
+  'function symbol() external view returns (string)',
+  'function name() external view returns (string)',
+  'function decimals() external view returns (uint8)',
+]);
+
+// Some early tokens (MKR, SAI) return bytes32 instead of string
+const BYTES32_INTERFACE = new ethers.Interface([
+  'function symbol() external view returns (bytes32)',
+  'function name() external view returns (bytes32)',
+]);
+
+// Unresolvable tokens are retried after this long in case the RPC call failed transiently
+const FAILED_LOOKUP_TTL_MS = 10 * 60 * 1000;
+
+function decodeString(method: 'symbol' | 'name', data: string): string | undefined {
+  try {
+    return ERC20_METADATA_INTERFACE.decodeFunctionResult(method, data)[0];
+  } catch {
+    try {
+      return ethers.decodeBytes32String(BYTES32_INTERFACE.decodeFunctionResult(method, data)[0]);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// Token metadata is immutable, so lookups are cached for the life of the process.
+// Registry tokens never hit the chain; everything else is resolved on-chain in one
+// multicall batch per chain, so hundreds of unknown tokens cost a single request.
+export class TokenMetadataService {
+  private cache = new Map<string, TokenMetadata>();
+  private failures = new Map<string, number>();
+
+  async getMetadata(chainId: number, addresses: string[]): Promise<Map<string, TokenMetadata>> {
+    const results = new Map<string, TokenMetadata>();
+    const missing: string[] = [];
+
+    addresses.forEach(address => {
+      const key = getTokenKey(chainId, address);
+      const registered = tokenRegistry.get(chainId, address);
+      const cached = this.cache.get(key);
+
+      if (registered) {
+        results.set(key, {
+          chainId,
+          address: registered.address,
+          symbol: registered.symbol,
+          name: registered.name,
+          decimals: registered.decimals,
+          logo: registered.logo,
+        });
+      } else if (cached) {
+        results.set(key, cached);
+      } else if (Date.now() >= (this.failures.get(key) ?? 0)) {
+        missing.push(address);
+      }
+    });
+
+    if (missing.length === 0) return results;
+
+    try {
+      const calls = missing.flatMap(address => (['symbol', 'name', 'decimals'] as const).map(method => ({
+        target: address,
+        callData: ERC20_METADATA_INTERFACE.encodeFunctionData(method),
+      })));
+      const responses = await multicall(chainId, calls);
+
+      missing.forEach((address, index) => {
+        const key = getTokenKey(chainId, address);
+        const [symbol, name, decimals] = responses.slice(index * 3, index * 3 + 3);
+
+        const decodedSymbol = symbol.success ? decodeString('symbol', symbol.returnData) : undefined;
+        let decodedDecimals: number | undefined;
+        try {
+          decodedDecimals = decimals.success
+            ? Number(ERC20_METADATA_INTERFACE.decodeFunctionResult('decimals', decimals.returnData)[0])
+            : undefined;
+        } catch {
+          decodedDecimals = undefined;
+        }
+
+        // Without decimals the balance can't be scaled, so treat the token as unresolved
+        if (decodedDecimals === undefined) {
+          this.failures.set(key, Date.now() + FAILED_LOOKUP_TTL_MS);
+          return;
+        }
+
+        const metadata: TokenMetadata = {
+          chainId,
+          address,
+          symbol: decodedSymbol || 'UNKNOWN',
+          name: (name.success ? decodeString('name', name.returnData) : undefined) || 'Unknown Token',
+          decimals: decodedDecimals,
+        };
+        this.cache.set(key, metadata);
+        results.set(key, metadata);
+      });
+    } catch (error) {
+      console.error(`Error fetching token metadata on chain ${chainId}:`, error);
+    }
+
+    return results;
+  }
+}
+
+// Factory function
+export function createTokenMetadataService(): TokenMetadataService {
+  return new TokenMetadataService();
+}
+
+// Export singleton instance
+export const tokenMetadataService = createTokenMetadataService();
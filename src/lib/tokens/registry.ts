@@ -0,0 +1,167 @@
+import defaultTokenList from './lists/default.tokenlist.json';
+
+// Sentinel address used for each chain's native asset (ETH, POL, ...)
+export const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Token list format as published by https://tokenlists.org (Uniswap standard)
+export interface TokenListToken {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  tags?: string[];
+  extensions?: Record<string, string | number | boolean | null>;
+}
+
+export interface TokenList {
+  name: string;
+  timestamp: string;
+  version: {
+    major: number;
+    minor: number;
+    patch: number;
+  };
+  tokens: TokenListToken[];
+  logoURI?: string;
+  keywords?: string[];
+}
+
+// IDs a token is known by at each price provider
+export interface PriceProviderIds {
+  coingecko?: string;
+}
+
+export interface RegisteredToken {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logo?: string;
+  priceIds: PriceProviderIds;
+  list: string;
+}
+
+// Registry key: chain ID plus lowercased address, so lookups are case-insensitive
+export function getTokenKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+export class TokenRegistry {
+  private tokens = new Map<string, RegisteredToken>();
+  private loadedLists = new Set<string>();
+  private remoteListsLoaded: Promise<void> | null = null;
+
+  constructor(lists: TokenList[] = []) {
+    lists.forEach(list => this.ingest(list));
+  }
+
+  // Add every token from a token list. Earlier lists win unless overwrite is set,
+  // so the bundled defaults keep their curated price IDs.
+  ingest(list: TokenList, options: { overwrite?: boolean } = {}): number {
+    if (!list || !Array.isArray(list.tokens)) {
+      throw new Error('Invalid token list: missing tokens array');
+    }
+
+    let added = 0;
+    for (const token of list.tokens) {
+      if (!token.address?.match(/^0x[a-fA-F0-9]{40}$/) || typeof token.chainId !== 'number') {
+        continue;
+      }
+
+      const key = getTokenKey(token.chainId, token.address);
+      if (this.tokens.has(key) && !options.overwrite) continue;
+
+      const coingeckoId = token.extensions?.coingeckoId;
+      this.tokens.set(key, {
+        chainId: token.chainId,
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name,
+        decimals: token.decimals,
+        logo: token.logoURI,
+        priceIds: {
+          coingecko: typeof coingeckoId === 'string' ? coingeckoId : undefined,
+        },
+        list: list.name,
+      });
+      added++;
+    }
+
+    this.loadedLists.add(list.name);
+    return added;
+  }
+
+  // Fetch and ingest a token list hosted at a URL (e.g. https://tokens.coingecko.com/base/all.json)
+  async ingestFromUrl(url: string): Promise<number> {
+    const response = await fetch(url, { headers: { 'Accept': 'application/json' } });
+    if (!response.ok) {
+      throw new Error(`Token list fetch failed for ${url}: ${response.status}`);
+    }
+    return this.ingest(await response.json());
+  }
+
+  // Load any extra lists configured through TOKEN_LIST_URLS (comma separated). Runs once.
+  loadConfiguredLists(): Promise<void> {
+    if (!this.remoteListsLoaded) {
+      const urls = (process.env.TOKEN_LIST_URLS || '')
+        .split(',')
+        .map(url => url.trim())
+        .filter(Boolean);
+
+      this.remoteListsLoaded = Promise.all(
+        urls.map(url =>
+          this.ingestFromUrl(url).catch(error => {
+            console.warn(`Failed to load token list ${url}:`, error);
+            return 0;
+          })
+        )
+      ).then(() => undefined);
+    }
+    return this.remoteListsLoaded;
+  }
+
+  get(chainId: number, address: string): RegisteredToken | undefined {
+    return this.tokens.get(getTokenKey(chainId, address));
+  }
+
+  has(chainId: number, address: string): boolean {
+    return this.tokens.has(getTokenKey(chainId, address));
+  }
+
+  getBySymbol(chainId: number, symbol: string): RegisteredToken | undefined {
+    const wanted = symbol.toLowerCase();
+    return this.getTokens(chainId).find(token => token.symbol.toLowerCase() === wanted);
+  }
+
+  getNativeToken(chainId: number): RegisteredToken | undefined {
+    return this.get(chainId, NATIVE_TOKEN_ADDRESS);
+  }
+
+  getPriceId(
+    chainId: number,
+    address: string,
+    provider: keyof PriceProviderIds = 'coingecko'
+  ): string | undefined {
+    return this.get(chainId, address)?.priceIds[provider];
+  }
+
+  getTokens(chainId?: number): RegisteredToken[] {
+    const tokens = Array.from(this.tokens.values());
+    return chainId === undefined ? tokens : tokens.filter(token => token.chainId === chainId);
+  }
+
+  getLoadedLists(): string[] {
+    return Array.from(this.loadedLists);
+  }
+}
+
+// Factory function
+export function createTokenRegistry(lists: TokenList[] = [defaultTokenList as TokenList]): TokenRegistry {
+  return new TokenRegistry(lists);
+}
+
+// Shared instance used by API routes, hooks and DeFi adapters
+export const tokenRegistry = createTokenRegistry();
@@ -0,0 +1,59 @@
+// Spam scoring shared by the server-side classifier and the UI. Scores run from
+// 0 (clean) to 1; tokens at or above the threshold are hidden by default.
+
+export const SPAM_SCORE_THRESHOLD = 0.5;
+
+export type SpamReason =
+  | 'url'                 // Symbol or name contains a link or domain
+  | 'lure'                // "Claim", "reward", "visit" style bait text
+  | 'unusual-characters'  // Lookalike unicode, emoji or an implausibly long symbol
+  | 'no-liquidity'        // No price source could quote the token
+  | 'transfer-restricted' // A transfer of the held balance reverts (honeypot)
+  | 'unknown-metadata';   // symbol()/name() couldn't be read
+
+export interface SpamAssessment {
+  score: number;
+  reasons: SpamReason[];
+}
+
+const SPAM_WEIGHTS: Record<SpamReason, number> = {
+  'url': 0.6,
+  'lure': 0.4,
+  'unusual-characters': 0.3,
+  'no-liquidity': 0.3,
+  'transfer-restricted': 0.5,
+  'unknown-metadata': 0.2,
+};
+
+const URL_PATTERN = /(https?:\/\/|www\.|t\.me\/|\.(com|io|org|net|xyz|app|finance|site|top|club|gift|live|claims?)\b)/i;
+const LURE_PATTERN = /\b(claim|reward|airdrop|visit|voucher|gift|bonus|free)\b|\$\s*\d/i;
+// Anything outside printable ASCII, which is where lookalike and emoji symbols live
+const UNUSUAL_CHARACTERS_PATTERN = /[^\x20-\x7E]/;
+const MAX_PLAUSIBLE_SYMBOL_LENGTH = 12;
+
+export const CLEAN_ASSESSMENT: SpamAssessment = { score: 0, reasons: [] };
+
+export function assessSpamReasons(reasons: SpamReason[]): SpamAssessment {
+  const unique = Array.from(new Set(reasons));
+  const score = unique.reduce((sum, reason) => sum + SPAM_WEIGHTS[reason], 0);
+  return { score: Math.min(1, Number(score.toFixed(2))), reasons: unique };
+}
+
+// Heuristics that only need the token's symbol and name
+export function getTextSpamReasons(symbol: string, name: string): SpamReason[] {
+  const reasons: SpamReason[] = [];
+  const text = `${symbol} ${name}`;
+
+  if (URL_PATTERN.test(text)) reasons.push('url');
+  if (LURE_PATTERN.test(text)) reasons.push('lure');
+  if (UNUSUAL_CHARACTERS_PATTERN.test(text) || symbol.length > MAX_PLAUSIBLE_SYMBOL_LENGTH) {
+    reasons.push('unusual-characters');
+  }
+  if (symbol === 'UNKNOWN') reasons.push('unknown-metadata');
+
+  return reasons;
+}
+
+export function isLikelySpam(score: number | undefined): boolean {
+  return (score ?? 0) >= SPAM_SCORE_THRESHOLD;
+}
@@ -0,0 +1,119 @@
+import { ethers } from 'ethers';
+import { getProvider } from '@/lib/blockchain/providers';
+import { priceAggregator } from '@/lib/prices/aggregator';
+import { tokenRegistry, getTokenKey, NATIVE_TOKEN_ADDRESS } from './registry';
+import {
+  CLEAN_ASSESSMENT,
+  SPAM_SCORE_THRESHOLD,
+  SpamAssessment,
+  SpamReason,
+  assessSpamReasons,
+  getTextSpamReasons,
+} from './spam';
+
+const ERC20_TRANSFER_INTERFACE = new ethers.Interface([
+  'function transfer(address to, uint256 amount) external returns (bool)',
+]);
+
+// Recipient for simulated transfers; a plain EOA-style address most tokens accept
+const SIMULATED_RECIPIENT = '0x000000000000000000000000000000000000dEaD';
+
+// Verdicts are cached so each refresh doesn't repeat price lookups and eth_calls
+const CLASSIFICATION_TTL_MS = 60 * 60 * 1000;
+
+// Transfer simulations are one eth_call each, so cap them per request
+const MAX_TRANSFER_CHECKS = 25;
+
+export interface ClassifiableToken {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name: string;
+  balance: string;
+}
+
+export class SpamClassifier {
+  private cache = new Map<string, { assessment: SpamAssessment; checkedAt: number }>();
+
+  // Score each token on one chain. Registry tokens are trusted; everything else gets
+  // text heuristics, a liquidity check through the price aggregator, and a static
+  // transfer of the owner's balance to catch honeypot-style restrictions.
+  async classify(chainId: number, owner: string, tokens: ClassifiableToken[]): Promise<Map<string, SpamAssessment>> {
+    const results = new Map<string, SpamAssessment>();
+    const pending: Array<{ token: ClassifiableToken; reasons: SpamReason[] }> = [];
+
+    tokens.forEach(token => {
+      const key = getTokenKey(chainId, token.address);
+      if (token.address === NATIVE_TOKEN_ADDRESS || tokenRegistry.has(chainId, token.address)) {
+        results.set(key, CLEAN_ASSESSMENT);
+        return;
+      }
+
+      const cached = this.cache.get(key);
+      if (cached && Date.now() - cached.checkedAt < CLASSIFICATION_TTL_MS) {
+        results.set(key, cached.assessment);
+        return;
+      }
+
+      pending.push({ token, reasons: getTextSpamReasons(token.symbol, token.name) });
+    });
+
+    if (pending.length === 0) return results;
+
+    // Tokens no provider can price have no meaningful liquidity
+    try {
+      const quotes = await priceAggregator.getPrices(pending.map(({ token }) => ({ chainId, address: token.address })));
+      pending.forEach(entry => {
+        if (!quotes[getTokenKey(chainId, entry.token.address)]) {
+          entry.reasons.push('no-liquidity');
+        }
+      });
+    } catch (error) {
+      console.warn(`Liquidity check failed on chain ${chainId}:`, error);
+    }
+
+    // Only simulate transfers where the verdict is still open
+    const undecided = pending
+      .filter(entry => assessSpamReasons(entry.reasons).score < SPAM_SCORE_THRESHOLD)
+      .slice(0, MAX_TRANSFER_CHECKS);
+
+    await Promise.all(undecided.map(async entry => {
+      if (await this.isTransferRestricted(chainId, owner, entry.token)) {
+        entry.reasons.push('transfer-restricted');
+      }
+    }));
+
+    pending.forEach(({ token, reasons }) => {
+      const assessment = assessSpamReasons(reasons);
+      this.cache.set(getTokenKey(chainId, token.address), { assessment, checkedAt: Date.now() });
+      results.set(getTokenKey(chainId, token.address), assessment);
+    });
+
+    return results;
+  }
+
+  private async isTransferRestricted(chainId: number, owner: string, token: ClassifiableToken): Promise<boolean> {
+    try {
+      const data = ERC20_TRANSFER_INTERFACE.encodeFunctionData('transfer', [SIMULATED_RECIPIENT, BigInt(token.balance)]);
+      const result = await getProvider(chainId).call({ from: owner, to: token.address, data });
+
+      // Some tokens signal failure by returning false instead of reverting
+      if (result !== '0x') {
+        const [ok] = ERC20_TRANSFER_INTERFACE.decodeFunctionResult('transfer', result);
+        return !ok;
+      }
+      return false;
+    } catch (error) {
+      // Only a revert counts; RPC and decoding errors say nothing about the token
+      return ethers.isError(error, 'CALL_EXCEPTION');
+    }
+  }
+}
+
+// Factory function
+export function createSpamClassifier(): SpamClassifier {
+  return new SpamClassifier();
+}
+
+// Export singleton instance
+export const spamClassifier = createSpamClassifier();
@@ -0,0 +1,83 @@
+import { ethers } from 'ethers';
+import { multicall, MulticallResult } from '@/lib/blockchain/multicall';
+import { getTokenKey, NATIVE_TOKEN_ADDRESS } from './registry';
+
+// Whether a token implements ERC-4626 doesn't change, so verdicts are kept for a day
+const DETECTION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const ERC4626_INTERFACE = new ethers.Interface([
+  'function asset() external view returns (address)',
+  'function totalAssets() external view returns (uint256)',
+  'function convertToAssets(uint256 shares) external view returns (uint256)',
+]);
+
+// An ERC-4626 tokenized vault and the asset its shares redeem for
+export interface VaultInfo {
+  chainId: number;
+  address: string;
+  asset: string;
+}
+
+function decodeResult(method: string, result: MulticallResult): ethers.Result | null {
+  if (!result.success || result.returnData === '0x') return null;
+  try {
+    return ERC4626_INTERFACE.decodeFunctionResult(method, result.returnData);
+  } catch {
+    return null;
+  }
+}
+
+export class VaultDetector {
+  private cache = new Map<string, { vault: VaultInfo | null; checkedAt: number }>();
+
+  // Probe tokens on one chain for the ERC-4626 interface. A token counts as a vault
+  // when asset(), totalAssets() and convertToAssets() all answer; returns only the
+  // vaults, keyed by getTokenKey.
+  async detect(chainId: number, addresses: string[]): Promise<Map<string, VaultInfo>> {
+    const results = new Map<string, VaultInfo>();
+    const pending: string[] = [];
+
+    addresses.forEach(address => {
+      if (address === NATIVE_TOKEN_ADDRESS) return;
+      const key = getTokenKey(chainId, address);
+      const cached = this.cache.get(key);
+      if (cached && Date.now() - cached.checkedAt < DETECTION_TTL_MS) {
+        if (cached.vault) results.set(key, cached.vault);
+        return;
+      }
+      pending.push(address);
+    });
+
+    if (pending.length === 0) return results;
+
+    const responses = await multicall(chainId, pending.flatMap(address => [
+      { target: address, callData: ERC4626_INTERFACE.encodeFunctionData('asset') },
+      { target: address, callData: ERC4626_INTERFACE.encodeFunctionData('totalAssets') },
+      { target: address, callData: ERC4626_INTERFACE.encodeFunctionData('convertToAssets', [1n]) },
+    ]));
+
+    pending.forEach((address, index) => {
+      const [asset, totalAssets, convertToAssets] = responses.slice(index * 3, index * 3 + 3);
+      const assetAddress: string | undefined = decodeResult('asset', asset)?.[0];
+      const isVault = !!assetAddress &&
+        assetAddress !== ethers.ZeroAddress &&
+        decodeResult('totalAssets', totalAssets) !== null &&
+        decodeResult('convertToAssets', convertToAssets) !== null;
+
+      const vault = isVault ? { chainId, address, asset: assetAddress } : null;
+      const key = getTokenKey(chainId, address);
+      this.cache.set(key, { vault, checkedAt: Date.now() });
+      if (vault) results.set(key, vault);
+    });
+
+    return results;
+  }
+}
+
+// Factory function
+export function createVaultDetector(): VaultDetector {
+  return new VaultDetector();
+}
+
+// Export singleton instance
+export const vaultDetector = createVaultDetector();
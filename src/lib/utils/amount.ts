@@ -0,0 +1,82 @@
+import { formatUnits, parseUnits } from "ethers"
+
+// Token quantity in raw base units (wei for ETH, 1e-6 for USDC) plus the token's
+// decimals. All amount arithmetic stays in bigint; conversion to number happens
+// only at the edge, for display and USD values.
+export interface TokenAmount {
+  raw: bigint
+  decimals: number
+}
+
+// Fixed-point precision used for prices in value math
+const PRICE_DECIMALS = 18
+
+// Build an amount from raw base units. Accepts bigint, decimal or hex strings
+// (as returned by RPCs and Alchemy) and integer numbers.
+export function toTokenAmount(raw: bigint | string | number, decimals: number): TokenAmount {
+  if (typeof raw === "number" && !Number.isInteger(raw)) {
+    throw new Error(`Raw token amounts must be integers, got ${raw}`)
+  }
+  return { raw: BigInt(raw), decimals }
+}
+
+// Parse a human-readable decimal string ("1.5") into raw base units
+export function parseTokenAmount(value: string, decimals: number): TokenAmount {
+  return { raw: parseUnits(value, decimals), decimals }
+}
+
+// Exact decimal string, e.g. "1.5"
+export function amountToDecimalString(amount: TokenAmount): string {
+  return formatUnits(amount.raw, amount.decimals)
+}
+
+// Lossy conversion to number; use only for display, charts and USD values
+export function amountToNumber(amount: TokenAmount): number {
+  return Number(formatUnits(amount.raw, amount.decimals))
+}
+
+export function isZeroAmount(amount: TokenAmount): boolean {
+  return amount.raw === 0n
+}
+
+// a * b / denominator with full precision (rounds down)
+export function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  if (denominator === 0n) {
+    throw new Error("mulDiv by zero")
+  }
+  return (a * b) / denominator
+}
+
+// Pro-rata share of an amount, e.g. reserves * lpBalance / totalSupply
+export function shareOfAmount(amount: TokenAmount, numerator: bigint, denominator: bigint): TokenAmount {
+  if (denominator === 0n) {
+    return { raw: 0n, decimals: amount.decimals }
+  }
+  return { raw: mulDiv(amount.raw, numerator, denominator), decimals: amount.decimals }
+}
+
+// Convert a price to 18-decimal fixed point so value math stays in bigint
+export function priceToFixed(price: number): bigint {
+  if (!Number.isFinite(price) || price <= 0) return 0n
+  return parseUnits(price.toFixed(PRICE_DECIMALS), PRICE_DECIMALS)
+}
+
+// Value of an amount at a unit price (in USD or the reporting currency)
+export function amountValue(amount: TokenAmount, price: number): number {
+  const scaled = mulDiv(amount.raw, priceToFixed(price), 10n ** BigInt(amount.decimals))
+  return Number(formatUnits(scaled, PRICE_DECIMALS))
+}
+
+export function addAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+  if (a.decimals !== b.decimals) {
+    throw new Error(`Cannot add amounts with ${a.decimals} and ${b.decimals} decimals`)
+  }
+  return { raw: a.raw + b.raw, decimals: a.decimals }
+}
+
+export function subtractAmounts(a: TokenAmount, b: TokenAmount): TokenAmount {
+  if (a.decimals !== b.decimals) {
+    throw new Error(`Cannot subtract amounts with ${a.decimals} and ${b.decimals} decimals`)
+  }
+  return { raw: a.raw - b.raw, decimals: a.decimals }
+}
@@ -1,6 +1,9 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { ethers } from "ethers"
+import { ReportingCurrency } from "@/types"
+
+export * from "./amount"
 
 // Utility function for combining Tailwind classes
 export function cn(...inputs: ClassValue[]) {
@@ -22,15 +25,14 @@ export function isValidAddress(address: string): boolean {
   }
 }
 
-// Format token amounts with proper decimals
+// Format a raw base-unit amount (see TokenBalance.balance) for display
 export function formatTokenAmount(
-  amount: string | number,
+  amount: string | bigint,
   decimals: number = 18,
   displayDecimals: number = 4
 ): string {
   try {
-    const bigAmount = ethers.parseUnits(amount.toString(), decimals)
-    const formatted = ethers.formatUnits(bigAmount, decimals)
+    const formatted = ethers.formatUnits(BigInt(amount), decimals)
     const num = parseFloat(formatted)
     
     if (num === 0) return '0'
@@ -45,13 +47,45 @@ export function formatTokenAmount(
   }
 }
 
-// Format USD currency
+export const REPORTING_CURRENCIES: ReportingCurrency[] = ['USD', 'EUR', 'GBP', 'JPY', 'ETH', 'BTC']
+
+// Crypto units aren't ISO 4217 codes, so they're formatted by hand with these precisions
+const CRYPTO_CURRENCY_DECIMALS: Record<string, number> = { ETH: 4, BTC: 6 }
+
+export function isReportingCurrency(value: unknown): value is ReportingCurrency {
+  return typeof value === 'string' && (REPORTING_CURRENCIES as string[]).includes(value)
+}
+
+// Format an amount in the given currency (USD, fiat, or ETH/BTC units)
 export function formatCurrency(amount: number, currency = 'USD'): string {
+  const cryptoDecimals = CRYPTO_CURRENCY_DECIMALS[currency]
+  if (cryptoDecimals !== undefined) {
+    return `${amount.toLocaleString('en-US', {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: cryptoDecimals
+    })} ${currency}`
+  }
+
+  const fractionDigits = currency === 'JPY' ? 0 : 2
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits
+  }).format(amount)
+}
+
+// Short form for chart axes, e.g. $1.2K or 3.5 ETH
+export function formatCompactCurrency(amount: number, currency = 'USD'): string {
+  if (CRYPTO_CURRENCY_DECIMALS[currency] !== undefined) {
+    return `${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })} ${currency}`
+  }
+
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2
+    notation: 'compact',
+    maximumFractionDigits: 1
   }).format(amount)
 }
 
@@ -1,32 +1,42 @@
 // Core types for CryptoVision
 
+// Token quantities are raw base units (wei for ETH, 1e-6 USDC for USDC) encoded as
+// decimal integer strings. Convert with toTokenAmount(balance, decimals) from
+// '@/lib/utils' rather than parseFloat so 18-decimal balances keep full precision.
+
 export interface WalletData {
   address: string;
-  balance: string;
+  balance: string; // Native balance in raw base units
   tokens: TokenBalance[];
   defiPositions: DeFiPosition[];
 }
 
 export interface TokenBalance {
   address: string;
+  chainId?: number; // Chain the balance is held on
   symbol: string;
   name: string;
-  balance: string;
+  balance: string; // Raw base units, decimal integer string
   decimals: number;
   price: number;
   value: number;
   logo?: string;
+  priceConfidence?: 'high' | 'low';
+  spamScore?: number; // 0 (clean) to 1; see SPAM_SCORE_THRESHOLD
+  spamReasons?: string[];
+  unresolved?: boolean; // Metadata couldn't be read; symbol and decimals are placeholders
 }
 
 export interface DeFiPosition {
   id: string;
-  protocol: 'uniswap-v3' | 'aave' | 'compound' | 'lido' | 'curve' | 'aerodrome' | 'moonwell';
-  type: 'lending' | 'liquidity' | 'staking' | 'farming';
+  chainId: number; // Chain the position lives on
+  protocol: 'uniswap-v3' | 'aave' | 'compound' | 'lido' | 'rocket-pool' | 'coinbase' | 'curve' | 'aerodrome' | 'moonwell' | 'erc4626';
+  type: 'lending' | 'liquidity' | 'staking' | 'farming' | 'governance';
   tokens: TokenBalance[];
   apy: number;
   value: number;
   claimable?: number;
-  metadata?: UniswapV3Position | AavePosition | StakingPosition | AerodromePosition | MoonwellPosition;
+  metadata?: UniswapV3Position | AavePosition | StakingPosition | AerodromePosition | SlipstreamPosition | VotingEscrowPosition | MoonwellPosition | CompoundV3Position | CurvePosition | VaultPosition;
 }
 
 export interface UniswapV3Position {
@@ -39,25 +49,47 @@ export interface UniswapV3Position {
   tickUpper: number;
   liquidity: string;
   uncollectedFees: {
-    token0: string;
+    token0: string; // Raw base units
     token1: string;
   };
   inRange: boolean;
 }
 
 export interface AavePosition {
-  market: string;
+  market: string; // Pool address
   supplied: TokenBalance[];
   borrowed: TokenBalance[];
-  healthFactor: number;
+  reserves: AaveReserve[]; // Rates and collateral settings for each supplied or borrowed reserve
+  healthFactor: number | null; // null without debt
   netAPY: number;
+  eMode?: {
+    categoryId: number;
+    label: string;
+    liquidationThreshold: number; // Fraction, replaces reserve thresholds for the category
+  };
+  rewards?: TokenBalance[]; // Unclaimed incentives from the RewardsController
+}
+
+export interface AaveReserve {
+  asset: string;
+  symbol: string;
+  supplyAPY: number;
+  borrowAPY: number;
+  isCollateral: boolean;
+  liquidationThreshold: number; // Fraction of supplied value counted before liquidation
 }
 
 export interface StakingPosition {
   validator?: string;
-  stakedAmount: string;
-  rewards: string;
-  unstakingPeriod?: number;
+  stakedAmount: string; // Raw base units of the staked asset (ETH for liquid staking)
+  rewards: string; // Raw base units
+  unstakingPeriod?: number; // Estimated seconds until an unstake can be claimed
+  exchangeRate?: number; // Staked asset per liquid staking token, from the token's contract
+  withdrawal?: {
+    requestId: string; // Lido withdrawal NFT token ID
+    requestedAt: number; // Unix seconds
+    status: 'pending' | 'claimable';
+  };
 }
 
 export interface AerodromePosition {
@@ -67,18 +99,122 @@ export interface AerodromePosition {
   isStable: boolean;
   gauge?: {
     address: string;
+    stakedBalance: string; // Raw LP token units deposited in the gauge
     rewards: TokenBalance[];
     emissions: number;
   };
-  lpTokenBalance: string;
+  lpTokenBalance: string; // Raw LP token units held in the wallet (not staked)
   totalSupply: string;
 }
 
+// Curve LP position, held directly or staked in the pool's gauge. NG pools are
+// their own LP token.
+export interface CurvePosition {
+  pool: string;
+  name: string;
+  poolType?: 'stable' | 'crypto' | 'stable-ng' | 'crypto-ng'; // Unset when the pool's registry data couldn't be read
+  lpToken: string;
+  lpTokenBalance: string; // Raw LP token units held in the wallet (not staked)
+  totalSupply: string;
+  virtualPrice: number; // LP value in pool units; grows with trading fees
+  gauge?: {
+    address: string;
+    stakedBalance: string; // Raw LP token units deposited in the gauge
+    rewards: TokenBalance[]; // Unclaimed CRV and extra reward tokens
+  };
+}
+
+// Shares of an ERC-4626 tokenized vault (Yearn v3, Morpho, Euler, sDAI, ...). The
+// position's token is the underlying asset the shares redeem for.
+export interface VaultPosition {
+  vault: string;
+  symbol: string; // Share token symbol
+  name: string;
+  shares: string; // Raw share units
+  shareDecimals: number;
+  sharePrice: number; // Underlying asset per share, from convertToAssets
+}
+
+// Aerodrome Slipstream concentrated-liquidity position (an NFT, like Uniswap V3)
+export interface SlipstreamPosition {
+  tokenId: string;
+  pool: string;
+  token0: TokenBalance;
+  token1: TokenBalance;
+  tickSpacing: number;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: string;
+  uncollectedFees: {
+    token0: string; // Raw base units
+    token1: string;
+  };
+  inRange: boolean;
+  // Set while the NFT is deposited in the pool's CL gauge. Staked liquidity earns
+  // AERO emissions instead of trading fees.
+  gauge?: {
+    address: string;
+    rewards: TokenBalance[];
+    emissions: number; // Emissions APR, percent
+  };
+}
+
+// Vote-escrowed lock (an NFT), e.g. veAERO. Voting rewards accrue per weekly epoch
+// and become claimable once the epoch a vote was cast in has ended.
+export interface VotingEscrowPosition {
+  tokenId: string;
+  lockedAmount: string; // Raw base units of the locked token
+  lockEnd: number; // Unix seconds; 0 for permanent locks
+  isPermanent: boolean;
+  votingPower: string; // Raw base units, decays linearly to lockEnd unless permanent
+  lastVoted: number; // Unix seconds; 0 if never voted
+  epoch: {
+    start: number; // Unix seconds
+    end: number;
+  };
+  votes: VotingEscrowVote[];
+}
+
+export interface VotingEscrowVote {
+  pool: string;
+  poolName?: string;
+  weight: string; // Raw voting power allocated to the pool; 0 if only voted in earlier epochs
+  fees: TokenBalance[]; // Claimable trading fees from the pool
+  bribes: TokenBalance[]; // Claimable incentives deposited for voters
+  epochs: VotingEscrowEpochRewards[]; // The same claims split by the epoch they were earned in, oldest first
+}
+
+export interface VotingEscrowEpochRewards {
+  epochStart: number; // Unix seconds
+  fees: TokenBalance[];
+  bribes: TokenBalance[];
+}
+
+// Compound V3 (Comet): each market is an isolated account with one borrowable base
+// asset and a set of collateral assets that earn no interest
+export interface CompoundV3Position {
+  market: string; // Comet address
+  asset: TokenBalance; // Base asset; balance is the supplied amount
+  supplied?: string; // Raw base units of the base asset
+  borrowed?: string;
+  supplyAPR: number;
+  borrowAPR: number;
+  collateral: CompoundV3Collateral[];
+  isLiquidatable: boolean;
+  rewardsEarned?: TokenBalance[];
+}
+
+export interface CompoundV3Collateral {
+  asset: TokenBalance;
+  borrowCollateralFactor: number; // Fraction of value that can be borrowed against
+  liquidationThreshold: number; // Fraction of value counted before liquidation
+}
+
 export interface MoonwellPosition {
   market: string;
   asset: TokenBalance;
-  supplied?: string;
-  borrowed?: string;
+  supplied?: string; // Raw base units of the underlying
+  borrowed?: string; // Raw base units of the underlying
   supplyAPY: number;
   borrowAPY?: number;
   collateralFactor: number;
@@ -86,6 +222,44 @@ export interface MoonwellPosition {
   rewardsEarned?: TokenBalance[];
 }
 
+// Account-level risk for a lending protocol, across all of the account's markets.
+// Values are in the reporting currency.
+export interface LendingAccount {
+  id: string;
+  chainId: number;
+  protocol: DeFiPosition['protocol'];
+  totalCollateral: number; // Supplied value in collateral-enabled markets
+  totalBorrowed: number;
+  borrowLimit: number; // Borrowing allowed before liquidation
+  healthFactor: number | null; // borrowLimit / totalBorrowed; null without debt
+  borrowCapacityUsed: number; // totalBorrowed / borrowLimit, percent
+  collateral: LendingCollateral[];
+}
+
+export interface LendingCollateral {
+  market: string;
+  asset: TokenBalance; // Supplied amount of the collateral asset
+  collateralFactor: number; // Share of the asset's value that counts towards borrowLimit
+  // Price at which the account becomes liquidatable, holding every other price fixed.
+  // null when this asset's price alone can't trigger liquidation.
+  liquidationPrice: number | null;
+}
+
+export interface NftHolding {
+  chainId: number;
+  contractAddress: string;
+  tokenId: string;
+  standard: 'ERC721' | 'ERC1155';
+  balance: string; // Copies held; ERC-1155 holdings can exceed 1
+  name: string;
+  collectionName: string;
+  image?: string;
+  floorPrice?: number; // Collection floor per item, in the reporting currency
+  floorSource?: string;
+  value: number; // floorPrice * balance; 0 when unpriced or tracked as a DeFi position
+  defiPositionId?: string; // Set for position NFTs (e.g. Uniswap V3) valued under DeFi
+}
+
 export interface PortfolioData {
   totalValue: number;
   totalChange24h: number;
@@ -104,9 +278,24 @@ export interface PriceData {
     price: number;
     change24h: number;
     changePercent24h: number;
+    source?: string; // ID of the price provider that supplied the quote
+    confidence?: 'high' | 'low'; // Low for thin or volatile DEX-derived prices
   };
 }
 
+// Currency all values are reported in; rates are quoted as units per 1 USD
+export type ReportingCurrency = 'USD' | 'EUR' | 'GBP' | 'JPY' | 'ETH' | 'BTC';
+
+export type CandleInterval = '1h' | '1d';
+
+export interface PriceCandle {
+  timestamp: string; // Candle open time (ISO, UTC)
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
 export interface TransactionData {
   hash: string;
   from: string;